@@ -4,15 +4,39 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { useFinancialData } from '@/contexts/FinancialDataContext';
 import { FileSelector } from '@/components/FileSelector';
-import { ifrsCategories } from '@/data/mockData';
-import { FinancialEntry } from '@/types/financial';
+import { PeriodSelector } from '@/components/PeriodSelector';
+import { AccountRangeRule, categoryById, categoryOptions, UNCATEGORIZED } from '../../supabase/functions/_shared/ifrsMapping.ts';
+import { findElement } from '../../supabase/functions/_shared/ifrsTaxonomy.ts';
+import { FinancialEntry, ToleranceSettings } from '@/types/financial';
 import { Edit, Save, X, AlertCircle } from 'lucide-react';
 import { ReconciliationBadge, ReconciliationResult } from './mapping/ReconciliationBadge';
 import { ValidationChatAssistant } from './mapping/ValidationChatAssistant';
-import { ReconciliationService } from '@/services/reconciliationService';
+import { ToleranceSettingsDialog } from './mapping/ToleranceSettingsDialog';
+import { IntegrityChecksPanel } from './mapping/IntegrityChecksPanel';
+import { AccountRangeRulesDialog } from './mapping/AccountRangeRulesDialog';
+import { MappingSuggestionsDialog } from './mapping/MappingSuggestionsDialog';
+import { MappingSuggestion } from '@/services/mappingSuggestionService';
+import { IntegrityCheckService, IntegrityCheckResult, SkippedIntegrityCheck } from '@/services/integrityCheckService';
+import { ReconciliationService, DEFAULT_TOLERANCE } from '@/services/reconciliationService';
+import { ReportedTotalsService } from '@/services/reportedTotalsService';
+import { AccountRangeService } from '@/services/accountRangeService';
+import {
+  reclassifyEntries,
+  loadMappingContext,
+  CompanyMappingContext,
+  entryCategory,
+  entryGrouping,
+  isUncategorized,
+  manualCategoryFields
+} from '@/lib/classification';
+import { MappingPrecedentService } from '@/services/mappingPrecedentService';
+import { useToast } from '@/hooks/use-toast';
+import { listPeriods, filterByPeriod } from '@/lib/periods';
+import { detectSignConvention, isBalanceException, presentedAmount, presentedTotal } from '@/lib/presentation';
 import React from 'react';
 
 export function DataMapping() {
@@ -23,6 +47,27 @@ export function DataMapping() {
   const [reconciliationResults, setReconciliationResults] = useState<ReconciliationResult[]>([]);
   const [validationChatOpen, setValidationChatOpen] = useState(false);
   const [selectedReconciliation, setSelectedReconciliation] = useState<ReconciliationResult | null>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const [editingTotal, setEditingTotal] = useState<string | null>(null);
+  const [tempTotal, setTempTotal] = useState<string>('');
+  const [tolerance, setTolerance] = useState<ToleranceSettings>(DEFAULT_TOLERANCE);
+  const [integrityChecks, setIntegrityChecks] = useState<{ results: IntegrityCheckResult[]; skipped: SkippedIntegrityCheck[] }>({ results: [], skipped: [] });
+  const [mappingContext, setMappingContext] = useState<CompanyMappingContext>({});
+  const { toast } = useToast();
+
+  // Company-wide rules are kept only for uploads filed under a company
+  const { companyId, companyName } = currentFinancialData;
+  const company = companyId ? { id: companyId, name: companyName } : undefined;
+
+  // Tolerances saved for the upload, else for the company
+  React.useEffect(() => {
+    ReconciliationService.loadTolerance(selectedFileId, companyId)
+      .then(setTolerance);
+  }, [selectedFileId, companyId]);
+
+  React.useEffect(() => {
+    loadMappingContext(companyId).then(setMappingContext);
+  }, [companyId]);
   
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('en-US', { 
@@ -55,15 +100,26 @@ export function DataMapping() {
     );
   }
 
+  // Comparative statements are mapped and reconciled one period at a time
+  const periods = listPeriods(entries);
+  const activePeriod = selectedPeriod || periods[0]?.label || null;
+  const periodEntries = filterByPeriod(entries, activePeriod);
+  const convention = detectSignConvention(periodEntries.filter(entry => !isUncategorized(entry)));
+
   const handleEditCategory = (entry: FinancialEntry) => {
     setEditingId(entry.id);
-    setTempCategory(entry.ifrsCategory || '');
+    setTempCategory(entryCategory(entry)?.id || '');
   };
 
   const handleSaveCategory = (entryId: string) => {
+    const edited = entries.find(entry => entry.id === entryId);
+    // Current and non-current categories move the line between groupings
+    const definition = categoryById(tempCategory);
+    if (!edited || !definition) return;
+    // The same line in the comparative period gets the same classification
     const updatedEntries = entries.map(entry => 
-      entry.id === entryId 
-        ? { ...entry, ifrsCategory: tempCategory }
+      entry.id === entryId || (edited.period && entry.period && entry.description === edited.description)
+        ? { ...entry, ...manualCategoryFields(definition) }
         : entry
     );
     setEntries(updatedEntries);
@@ -72,43 +128,173 @@ export function DataMapping() {
     if (selectedFileId) {
       updateFileData(selectedFileId, { ...currentFinancialData, entries: updatedEntries });
     }
+
+    // Later uploads for the company pick the correction up automatically
+    const corrected = updatedEntries.find(entry => entry.id === entryId);
+    if (company && corrected && corrected.ifrsElementId !== edited.ifrsElementId) {
+      MappingPrecedentService.recordCorrection(company.id, corrected).catch(error => {
+        toast({
+          title: "Correction not remembered",
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: "destructive"
+        });
+      });
+    }
     
     setEditingId(null);
     setTempCategory('');
   };
 
+  // Accepted suggestions count as manual classifications
+  const handleAcceptSuggestions = (suggestions: MappingSuggestion[]) => {
+    const byEntry = new Map(suggestions.flatMap(suggestion => suggestion.entryIds.map(id => [id, suggestion] as const)));
+    const updatedEntries = entries.map(entry => {
+      const category = categoryById(byEntry.get(entry.id)?.ifrsElementId);
+      return category ? { ...entry, ...manualCategoryFields(category) } : entry;
+    });
+    setEntries(updatedEntries);
+    if (selectedFileId) {
+      updateFileData(selectedFileId, { ...currentFinancialData, entries: updatedEntries });
+    }
+
+    Promise.all((company ? suggestions : []).map(suggestion =>
+      MappingPrecedentService.recordCorrection(company.id, {
+        description: suggestion.description,
+        accountNumber: suggestion.accountNumber,
+        ifrsElementId: suggestion.ifrsElementId,
+        highLevelCategory: suggestion.highLevelCategory,
+        mainGrouping: suggestion.mainGrouping,
+        ifrsCategory: suggestion.ifrsCategory
+      })
+    )).catch(error => {
+      toast({
+        title: "Suggestions not remembered",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    });
+
+    toast({
+      title: "Mappings updated",
+      description: `Applied ${suggestions.length} suggested ${suggestions.length === 1 ? 'category' : 'categories'}`
+    });
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     setTempCategory('');
   };
 
-  const getCategoryOptions = (highLevelCategory: string) => {
-    switch(highLevelCategory) {
-      case 'Assets':
-        return [...ifrsCategories.assets.current, ...ifrsCategories.assets.nonCurrent];
-      case 'Liabilities':
-        return [...ifrsCategories.liabilities.current, ...ifrsCategories.liabilities.nonCurrent];
-      case 'Equity':
-        return ifrsCategories.equity;
-      case 'Revenue':
-        return ifrsCategories.income;
-      case 'Expenses':
-        return ifrsCategories.expenses;
-      default:
-        return [];
+  const handleSaveTolerance = async (settings: ToleranceSettings, scope: 'upload' | 'company') => {
+    try {
+      const saved = await ReconciliationService.saveTolerance(settings, scope === 'upload'
+        ? { uploadId: selectedFileId || undefined }
+        : { companyId });
+      setTolerance(saved);
+    } catch (error) {
+      toast({
+        title: "Could not save tolerances",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Changed ranges apply straight away to every line not classified by hand
+  const applyAccountRanges = (rules: AccountRangeRule[]) => {
+    const context = { ...mappingContext, accountRanges: rules };
+    setMappingContext(context);
+    const updatedEntries = reclassifyEntries(entries, context);
+    setEntries(updatedEntries);
+    if (selectedFileId) {
+      updateFileData(selectedFileId, { ...currentFinancialData, entries: updatedEntries });
+    }
+  };
+
+  const accountRanges = mappingContext.accountRanges || [];
+
+  const handleAddAccountRange = async (rule: Omit<AccountRangeRule, 'id'>) => {
+    if (!company) return;
+    try {
+      const saved = await AccountRangeService.saveRule(company.id, rule);
+      applyAccountRanges([...accountRanges, saved].sort((a, b) => a.start - b.start));
+    } catch (error) {
+      toast({
+        title: "Could not save account range",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteAccountRange = async (id: string) => {
+    try {
+      await AccountRangeService.deleteRule(id);
+      applyAccountRanges(accountRanges.filter(rule => rule.id !== id));
+    } catch (error) {
+      toast({
+        title: "Could not delete account range",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEditTotal = (category: string) => {
+    const reported = getReconciliationResult(category)?.reportedTotal;
+    setEditingTotal(category);
+    setTempTotal(reported !== undefined ? String(reported) : '');
+  };
+
+  // Typed-in totals cover figures the extractor missed; they are stored for
+  // the upload and the period being reviewed
+  const handleSaveTotal = async (category: string) => {
+    const amount = parseFloat(tempTotal.replace(/,/g, ''));
+    if (!selectedFileId || isNaN(amount)) {
+      setEditingTotal(null);
+      return;
     }
+
+    const period = {
+      label: activePeriod || undefined,
+      date: periods.find(option => option.label === activePeriod)?.endDate || periodEntries[0]?.date || currentFinancialData.reportPeriod
+    };
+
+    try {
+      const saved = await ReportedTotalsService.saveManualTotal(selectedFileId, category, amount, period);
+      const reportedTotals = (currentFinancialData.reportedTotals || []).filter(total =>
+        !(total.source === 'manual' && total.ifrsCategory === category && total.period === saved.period)
+      );
+      updateFileData(selectedFileId, { ...currentFinancialData, entries, reportedTotals: [...reportedTotals, saved] });
+    } catch (error) {
+      toast({
+        title: "Could not save reported total",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+
+    setEditingTotal(null);
+    setTempTotal('');
   };
 
+  const getCategoryOptions = (highLevelCategory: FinancialEntry['highLevelCategory']) => categoryOptions(highLevelCategory);
+
   // Perform reconciliation when component mounts or entries change
   React.useEffect(() => {
-    if (entries && entries.length > 0) {
-      const results = ReconciliationService.performReconciliation(entries);
+    const reconciledEntries = filterByPeriod(entries, activePeriod);
+    const reportedTotals = currentFinancialData.reportedTotals
+      ? filterByPeriod(currentFinancialData.reportedTotals, activePeriod)
+      : undefined;
+    if (reconciledEntries.length > 0) {
+      const results = ReconciliationService.performReconciliation(reconciledEntries, reportedTotals, tolerance);
       setReconciliationResults(results);
+      setIntegrityChecks(IntegrityCheckService.runChecks(entries, activePeriod, tolerance));
     }
-  }, [entries]);
+  }, [entries, activePeriod, currentFinancialData.reportedTotals, tolerance]);
 
   const handleReviewClick = (category: string) => {
-    const result = reconciliationResults.find(r => r.category === category);
+    const result = [...reconciliationResults, ...integrityChecks.results].find(r => r.category === category);
     if (result) {
       setSelectedReconciliation(result);
       setValidationChatOpen(true);
@@ -126,23 +312,29 @@ export function DataMapping() {
     return reconciliationResults.find(r => r.category === category);
   };
 
-  const MappingTable = ({ title, filterCategory, mainGrouping }: {
+  const MappingTable = ({ title, filterCategory, grouping }: {
     title: string;
     filterCategory: string;
-    mainGrouping?: string;
+    // Taxonomy element of the statement heading
+    grouping?: string;
   }) => {
-    const filteredEntries = entries.filter(entry => {
-      if (mainGrouping) {
-        return entry.highLevelCategory === filterCategory && entry.mainGrouping === mainGrouping;
+    const filteredEntries = periodEntries.filter(entry => {
+      // Uncategorized lines are listed on their own until a category is accepted
+      if (isUncategorized(entry)) {
+        return filterCategory === UNCATEGORIZED;
+      }
+      if (grouping) {
+        return entry.highLevelCategory === filterCategory && entryGrouping(entry) === grouping;
       }
       return entry.highLevelCategory === filterCategory;
     });
 
-    const total = filteredEntries.reduce((sum, entry) => sum + (entry.amount || 0), 0);
+    const total = presentedTotal(filteredEntries, convention);
+    const groupReconciliation = getReconciliationResult(findElement(grouping)?.label || filterCategory);
 
     // Group by IFRS category for reconciliation badges
     const categorizedEntries = filteredEntries.reduce((acc, entry) => {
-      const category = entry.ifrsCategory || 'Uncategorized';
+      const category = entryCategory(entry)?.name || entry.ifrsCategory || 'Uncategorized';
       if (!acc[category]) {
         acc[category] = [];
       }
@@ -173,7 +365,15 @@ export function DataMapping() {
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             {title}
-            <Badge variant="secondary">{formatCurrency(total)}</Badge>
+            <div className="flex items-center gap-2">
+              {groupReconciliation && (
+                <ReconciliationBadge 
+                  result={groupReconciliation}
+                  onReviewClick={handleReviewClick}
+                />
+              )}
+              <Badge variant="secondary">{formatCurrency(total)}</Badge>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -192,7 +392,7 @@ export function DataMapping() {
               <tbody>
                 {Object.entries(categorizedEntries).map(([category, categoryEntries]) => {
                   const reconciliation = getReconciliationResult(category);
-                  const categoryTotal = categoryEntries.reduce((sum, entry) => sum + (entry.amount || 0), 0);
+                  const categoryTotal = presentedTotal(categoryEntries, convention);
                   
                   return (
                     <React.Fragment key={category}>
@@ -200,8 +400,52 @@ export function DataMapping() {
                       <tr className="bg-gray-50 border-b border-border font-medium">
                         <td className="p-3" colSpan={2}>{category}</td>
                         <td className="p-3 text-right font-mono">{formatCurrency(categoryTotal)}</td>
-                        <td className="p-3"></td>
-                        <td className="p-3"></td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {editingTotal === category ? (
+                            <Input
+                              value={tempTotal}
+                              onChange={(event) => setTempTotal(event.target.value)}
+                              placeholder="Reported total"
+                              className="h-8 font-mono"
+                            />
+                          ) : reconciliation?.reportedTotal !== undefined && (
+                            <span>
+                              Reported {formatCurrency(reconciliation.reportedTotal)}
+                              {reconciliation.reportedSource === 'manual' && ' (manual)'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-3 text-center">
+                          {editingTotal === category ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <Button 
+                                size="sm" 
+                                onClick={() => handleSaveTotal(category)}
+                                className="h-7 w-7 p-0"
+                              >
+                                <Save className="h-3 w-3" />
+                              </Button>
+                              <Button 
+                                size="sm" 
+                                variant="outline"
+                                onClick={() => setEditingTotal(null)}
+                                className="h-7 w-7 p-0"
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ) : selectedFileId && (
+                            <Button 
+                              size="sm" 
+                              variant="ghost"
+                              onClick={() => handleEditTotal(category)}
+                              className="h-7 w-7 p-0"
+                              title="Edit reported total"
+                            >
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </td>
                         <td className="p-3 text-center">
                           {reconciliation && (
                             <ReconciliationBadge 
@@ -215,9 +459,17 @@ export function DataMapping() {
                       {/* Individual entries */}
                       {categoryEntries.map((entry) => (
                         <tr key={entry.id} className="border-b border-border hover:bg-muted/50">
-                          <td className="p-3 pl-6">{entry.description || 'N/A'}</td>
+                          <td className="p-3 pl-6">
+                            {entry.description || 'N/A'}
+                            {entry.contraAccount && <Badge variant="outline" className="ml-2 text-xs">Contra</Badge>}
+                            {isBalanceException(entry, convention) && (
+                              <Badge variant="destructive" className="ml-2 text-xs" title="Balance is on the opposite side to the category's normal balance">
+                                Unexpected balance
+                              </Badge>
+                            )}
+                          </td>
                           <td className="p-3 text-muted-foreground text-sm">{entry.originalLine || 'N/A'}</td>
-                          <td className="p-3 text-right font-mono">{formatCurrency(entry.amount || 0)}</td>
+                          <td className="p-3 text-right font-mono">{formatCurrency(presentedAmount(entry, convention))}</td>
                           <td className="p-3">
                             {editingId === entry.id ? (
                               <Select value={tempCategory} onValueChange={setTempCategory}>
@@ -226,14 +478,21 @@ export function DataMapping() {
                                 </SelectTrigger>
                                 <SelectContent>
                                   {getCategoryOptions(entry.highLevelCategory).map((category) => (
-                                    <SelectItem key={category} value={category}>
-                                      {category}
+                                    <SelectItem key={category.id} value={category.id}>
+                                      {category.name}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
                               </Select>
                             ) : (
-                              <Badge variant="outline">{entry.ifrsCategory || 'N/A'}</Badge>
+                              <Badge
+                                variant="outline"
+                                title={entry.mappingRule
+                                  ? `Matched ${entry.mappingRule.label}${entry.mappingRule.version ? ` (rules v${entry.mappingRule.version})` : ''}, confidence ${Math.round((entry.mappingConfidence || 0) * 100)}%`
+                                  : undefined}
+                              >
+                                {entryCategory(entry)?.name || entry.ifrsCategory || 'N/A'}
+                              </Badge>
                             )}
                           </td>
                           <td className="p-3 text-center">
@@ -282,13 +541,44 @@ export function DataMapping() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">IFRS Mapping</h1>
-        <p className="text-muted-foreground">Review and adjust account classifications with validation</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">IFRS Mapping</h1>
+          <p className="text-muted-foreground">Review and adjust account classifications with validation</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <PeriodSelector periods={periods} value={activePeriod} onChange={setSelectedPeriod} />
+          <ToleranceSettingsDialog
+            tolerance={tolerance}
+            companyName={company?.name}
+            canSaveForUpload={!!selectedFileId}
+            onSave={handleSaveTolerance}
+          />
+          <MappingSuggestionsDialog entries={entries} onAccept={handleAcceptSuggestions} />
+          <AccountRangeRulesDialog
+            companyName={company?.name}
+            rules={accountRanges}
+            onAdd={handleAddAccountRange}
+            onDelete={handleDeleteAccountRange}
+          />
+        </div>
       </div>
 
       <FileSelector />
 
+      <IntegrityChecksPanel
+        results={integrityChecks.results}
+        skipped={integrityChecks.skipped}
+        onReviewClick={handleReviewClick}
+      />
+
+      {periodEntries.some(isUncategorized) && (
+        <MappingTable 
+          title="Uncategorized" 
+          filterCategory={UNCATEGORIZED}
+        />
+      )}
+
       <Tabs defaultValue="balance-sheet" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
@@ -299,22 +589,22 @@ export function DataMapping() {
           <MappingTable 
             title="Current Assets" 
             filterCategory="Assets" 
-            mainGrouping="Current Assets"
+            grouping="ifrs-full:CurrentAssetsAbstract"
           />
           <MappingTable 
             title="Non-Current Assets" 
             filterCategory="Assets" 
-            mainGrouping="Non-current Assets"
+            grouping="ifrs-full:NoncurrentAssetsAbstract"
           />
           <MappingTable 
             title="Current Liabilities" 
             filterCategory="Liabilities" 
-            mainGrouping="Current Liabilities"
+            grouping="ifrs-full:CurrentLiabilitiesAbstract"
           />
           <MappingTable 
             title="Non-Current Liabilities" 
             filterCategory="Liabilities" 
-            mainGrouping="Non-current Liabilities"
+            grouping="ifrs-full:NoncurrentLiabilitiesAbstract"
           />
           <MappingTable 
             title="Equity" 
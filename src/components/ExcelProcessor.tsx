@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Trash2, Download, FileSpreadsheet, AlertCircle, CheckCircle, Clock } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { excelService } from '@/services/excelService';
 
 interface ExcelUpload {
   id: string;
@@ -18,6 +19,7 @@ interface ExcelUpload {
   error_message?: string;
   total_records_count?: number;
   sheets_count?: number;
+  processed_sheets?: string[];
 }
 
 interface ExcelProcessorProps {
@@ -41,15 +43,14 @@ export const ExcelProcessor = ({ uploads, onRefresh }: ExcelProcessorProps) => {
     return () => clearInterval(interval);
   }, [uploads, onRefresh]);
 
-  const handleProcess = async (uploadId: string) => {
+  const handleProcess = async ({ id: uploadId, filename }: ExcelUpload) => {
     setProcessingUploads(prev => new Set(prev).add(uploadId));
     
     try {
       console.log('Starting Excel processing for upload:', uploadId);
       
-      const { data, error } = await supabase.functions.invoke('process-excel', {
-        body: { upload_id: uploadId }
-      });
+      // Continues after the sheets an earlier attempt finished
+      const { data, error } = await excelService.processUpload(uploadId, filename);
 
       if (error) {
         console.error('Excel processing error:', error);
@@ -178,8 +179,15 @@ export const ExcelProcessor = ({ uploads, onRefresh }: ExcelProcessorProps) => {
           <CardContent className="pt-0">
             {upload.processing_status === 'processing' && (
               <div className="mb-4">
-                <Progress value={undefined} className="h-2" />
-                <p className="text-sm text-gray-600 mt-2">Processing Excel file...</p>
+                <Progress
+                  value={upload.sheets_count ? ((upload.processed_sheets?.length || 0) / upload.sheets_count) * 100 : undefined}
+                  className="h-2"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  {upload.sheets_count
+                    ? `Processing Excel file... ${upload.processed_sheets?.length || 0} of ${upload.sheets_count} sheets, ${upload.total_records_count || 0} rows so far`
+                    : 'Processing Excel file...'}
+                </p>
               </div>
             )}
 
@@ -213,7 +221,7 @@ export const ExcelProcessor = ({ uploads, onRefresh }: ExcelProcessorProps) => {
             <div className="flex gap-2">
               {upload.processing_status === 'pending' && (
                 <Button
-                  onClick={() => handleProcess(upload.id)}
+                  onClick={() => handleProcess(upload)}
                   disabled={processingUploads.has(upload.id)}
                   size="sm"
                 >
@@ -223,7 +231,7 @@ export const ExcelProcessor = ({ uploads, onRefresh }: ExcelProcessorProps) => {
               
               {upload.processing_status === 'failed' && (
                 <Button
-                  onClick={() => handleProcess(upload.id)}
+                  onClick={() => handleProcess(upload)}
                   disabled={processingUploads.has(upload.id)}
                   size="sm"
                   variant="outline"
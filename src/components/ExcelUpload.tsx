@@ -6,7 +6,12 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Upload, FileSpreadsheet, CheckCircle, XCircle, Loader2, FileText, AlertCircle, Database, BarChart3 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { excelService } from '@/services/excelService';
+import { excelService, SheetPreview, UploadChoices } from '@/services/excelService';
+import { ImportTemplateService } from '@/services/importTemplateService';
+import { CompanyService } from '@/services/companyService';
+import { ColumnMappingWizard, TemplateDraft } from '@/components/upload/ColumnMappingWizard';
+import { RowError, sheetFingerprint } from '../../supabase/functions/_shared/sheetLayout.ts';
+import { ImportSettings, SheetRole } from '../../supabase/functions/_shared/importTemplates.ts';
 
 interface UploadStatus {
   isUploading: boolean;
@@ -18,8 +23,14 @@ interface UploadStatus {
   currentStep?: string;
   recordsCount?: number;
   sheetsCount?: number;
+  templatesUsed?: string[];
+  rowErrors?: RowError[];
+  rowErrorsCount?: number;
 }
 
+// Row errors listed under a finished upload; the rest are counted
+const ROW_ERRORS_SHOWN = 5;
+
 const uploadSteps = [
   { step: 'Validating file...', progress: 10 },
   { step: 'Creating upload record...', progress: 20 },
@@ -37,6 +48,8 @@ export const ExcelUpload = () => {
     error: null,
     success: false
   });
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [sheetPreviews, setSheetPreviews] = useState<SheetPreview[]>([]);
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -55,7 +68,97 @@ export const ExcelUpload = () => {
     }
   };
 
-  const handleFileSelect = async (file: File) => {
+  // Files go through the column mapping step before they are uploaded
+  const handleFileChosen = async (file: File) => {
+    try {
+      const previews = await excelService.previewWorkbook(file);
+      setSheetPreviews(previews);
+      setPendingFile(file);
+    } catch (error) {
+      console.error('Excel preview error:', error);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : 'Failed to read the file',
+        variant: "destructive",
+      });
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const cancelMapping = () => {
+    setPendingFile(null);
+    setSheetPreviews([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const confirmMapping = async (
+    settings: Record<string, ImportSettings>,
+    drafts: Record<string, TemplateDraft>,
+    roles: Record<string, SheetRole>,
+    periodEnd: string,
+    companyName: string
+  ) => {
+    const file = pendingFile;
+    const previews = sheetPreviews;
+    setPendingFile(null);
+    setSheetPreviews([]);
+    if (!file) return;
+
+    let companyId: string | undefined;
+    if (companyName.trim()) {
+      try {
+        companyId = (await CompanyService.findOrCreate(companyName)).id;
+      } catch (error) {
+        toast({
+          title: "Upload Failed",
+          description: error instanceof Error ? error.message : 'Failed to save company',
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const sheets: Record<string, ImportSettings> = {};
+    for (const preview of previews) {
+      const sheetSettings = settings[preview.name];
+      const draft = drafts[preview.name];
+      const fingerprint = sheetFingerprint(preview.rows, sheetSettings.layout.headerRow);
+
+      if (draft?.save && fingerprint) {
+        try {
+          const template = await ImportTemplateService.save({
+            ...sheetSettings,
+            name: draft.name.trim(),
+            fingerprint,
+            sheetSelector: draft.sheetSelector.trim() || null
+          });
+          sheets[preview.name] = { ...sheetSettings, templateName: template.name };
+          continue;
+        } catch (error) {
+          // Not saving the template should not stop the import
+          console.error('Failed to save import template:', error);
+          toast({
+            title: "Template not saved",
+            description: error instanceof Error ? error.message : 'Failed to save import template',
+            variant: "destructive",
+          });
+        }
+      }
+
+      // A matched template no longer applies once its settings were changed
+      sheets[preview.name] = sheetSettings === preview.settings
+        ? sheetSettings
+        : { ...sheetSettings, templateName: undefined };
+    }
+
+    handleFileSelect(file, { sheets, roles, periodEnd: periodEnd || undefined, companyId });
+  };
+
+  const handleFileSelect = async (file: File, choices?: UploadChoices) => {
     if (!file) return;
 
     console.log('Starting Excel file upload:', file.name, 'Size:', file.size);
@@ -82,7 +185,12 @@ export const ExcelUpload = () => {
       });
 
       // Start actual upload
-      const uploadPromise = excelService.uploadExcelFile(file);
+      const uploadPromise = excelService.uploadExcelFile(file, choices, (processedSheets, sheetsCount) => {
+        setUploadStatus(prev => ({
+          ...prev,
+          currentStep: `Processed ${processedSheets} of ${sheetsCount} sheets...`
+        }));
+      });
 
       // Wait for both to complete
       const [, result] = await Promise.all([progressPromise, uploadPromise]);
@@ -97,12 +205,17 @@ export const ExcelUpload = () => {
           fileSize: file.size,
           currentStep: 'Upload completed!',
           recordsCount: result.records_count,
-          sheetsCount: result.sheets_count
+          sheetsCount: result.sheets_count,
+          templatesUsed: result.templates_used,
+          rowErrors: result.row_errors,
+          rowErrorsCount: result.row_errors_count
         });
 
+        const templateNote = result.templates_used?.length ? ` Template: ${result.templates_used.join(', ')}.` : '';
+        const errorNote = result.row_errors_count ? ` ${result.row_errors_count} rows could not be read.` : '';
         toast({
           title: "Excel file uploaded successfully!",
-          description: `Processed ${result.records_count || 0} records from ${result.sheets_count || 0} sheets.`,
+          description: `Processed ${result.records_count || 0} records from ${result.sheets_count || 0} sheets.${templateNote}${errorNote}`,
         });
       } else {
         throw new Error(result.error || 'Upload failed');
@@ -143,7 +256,7 @@ export const ExcelUpload = () => {
                          file.name.toLowerCase().endsWith('.csv');
       
       if (isValidType) {
-        handleFileSelect(file);
+        handleFileChosen(file);
       } else {
         toast({
           title: "Invalid file type",
@@ -233,6 +346,11 @@ export const ExcelUpload = () => {
                     <p className="text-sm text-green-600">
                       Processed {uploadStatus.recordsCount || 0} records from {uploadStatus.sheetsCount || 0} sheets
                     </p>
+                    {uploadStatus.templatesUsed && uploadStatus.templatesUsed.length > 0 && (
+                      <p className="text-sm text-green-600">
+                        Read with template: {uploadStatus.templatesUsed.join(', ')}
+                      </p>
+                    )}
                   </div>
                 ) : uploadStatus.error ? (
                   <div>
@@ -321,6 +439,27 @@ export const ExcelUpload = () => {
                   <strong>Success!</strong> Your Excel file has been processed and the data is now available for analysis.
                 </AlertDescription>
               </Alert>
+
+              {!!uploadStatus.rowErrorsCount && (
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertCircle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800 space-y-1">
+                    <p>
+                      <strong>{uploadStatus.rowErrorsCount} rows could not be read.</strong> Check them in the file and upload it again if they matter.
+                    </p>
+                    <ul className="text-sm">
+                      {(uploadStatus.rowErrors || []).slice(0, ROW_ERRORS_SHOWN).map((rowError, index) => (
+                        <li key={index}>
+                          • {rowError.sheet_name ? `${rowError.sheet_name}, ` : ''}row {rowError.row_number}: {rowError.message}
+                        </li>
+                      ))}
+                    </ul>
+                    {uploadStatus.rowErrorsCount > ROW_ERRORS_SHOWN && (
+                      <p className="text-sm">and {uploadStatus.rowErrorsCount - ROW_ERRORS_SHOWN} more</p>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
               
               <div className="flex gap-3">
                 <Button 
@@ -357,6 +496,14 @@ export const ExcelUpload = () => {
           </div>
         </CardContent>
       </Card>
+
+      <ColumnMappingWizard
+        open={!!pendingFile}
+        fileName={pendingFile?.name || ''}
+        sheets={sheetPreviews}
+        onCancel={cancelMapping}
+        onConfirm={confirmMapping}
+      />
     </div>
   );
 };
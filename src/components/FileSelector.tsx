@@ -5,6 +5,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { useFinancialData } from '@/contexts/FinancialDataContext';
 import { supabase } from '@/integrations/supabase/client';
+import { StatementSection } from '@/types/financial';
+import { ReportedTotalsService } from '@/services/reportedTotalsService';
+import { classifyEntry, loadMappingContext } from '@/lib/classification';
+import { CompanyService } from '@/services/companyService';
 import { FileSpreadsheet, FileText } from 'lucide-react';
 
 interface FileOption {
@@ -14,6 +18,10 @@ interface FileOption {
   status: string;
   uploadedAt: string;
   recordCount?: number;
+  // Period end detected or confirmed at upload
+  periodEnd?: string;
+  // Company the upload was filed under
+  companyId?: string;
 }
 
 export function FileSelector() {
@@ -51,7 +59,9 @@ export function FileSelector() {
             type: 'pdf',
             status: pdf.processing_status,
             uploadedAt: pdf.created_at,
-            recordCount: pdf.extracted_records_count || undefined
+            recordCount: pdf.extracted_records_count || undefined,
+            periodEnd: pdf.period_end || undefined,
+            companyId: pdf.company_id || undefined
           });
         });
       }
@@ -65,7 +75,9 @@ export function FileSelector() {
             type: 'excel',
             status: excel.processing_status,
             uploadedAt: excel.created_at,
-            recordCount: excel.total_records_count || undefined
+            recordCount: excel.total_records_count || undefined,
+            periodEnd: excel.period_end || undefined,
+            companyId: excel.company_id || undefined
           });
         });
       }
@@ -90,111 +102,54 @@ export function FileSelector() {
     if (!selectedFile) return;
 
     try {
-      if (selectedFile.type === 'excel') {
-        // Fetch Excel data and convert to financial entries
-        const { data: excelData, error } = await supabase
-          .from('excel_data')
-          .select('*')
-          .eq('upload_id', fileId);
-
-        if (error) {
-          console.error('Error fetching Excel data:', error);
-          return;
-        }
-
-        // Convert Excel data to financial entries format
-        const entries = excelData?.map((row, index) => ({
-          id: row.id,
-          date: row.cell_value?.includes('2022') || row.cell_value?.includes('2023') || row.cell_value?.includes('2024') 
-            ? row.cell_value.split(';')[0] || '2024-01-01' 
-            : '2024-01-01',
-          description: row.cell_value?.split(';')[2] || row.cell_value || 'Unknown',
-          amount: parseFloat(row.cell_value?.split(';')[6] || '0') || 0,
-          highLevelCategory: determineCategory(row.cell_value?.split(';')[2] || ''),
-          mainGrouping: determineMainGrouping(row.cell_value?.split(';')[2] || ''),
-          ifrsCategory: determineIFRSCategory(row.cell_value?.split(';')[2] || ''),
-          originalLine: row.cell_value || ''
-        })) || [];
-
-        const financialData = {
-          companyName: 'Processed Excel Data',
-          reportPeriod: '2024',
-          entries,
-          lastUpdated: new Date().toISOString()
-        };
-
-        setSelectedFile(fileId, financialData);
-      } else {
-        // Handle PDF files (existing logic)
-        const { data: trialBalances, error } = await supabase
-          .from('trial_balances')
-          .select('*')
-          .eq('upload_id', fileId);
-
-        if (error) {
-          console.error('Error fetching trial balances:', error);
-          return;
-        }
-
-        const entries = trialBalances?.map(tb => ({
-          id: tb.id,
-          date: '2024-01-01',
-          description: tb.account_description,
-          amount: tb.balance,
-          highLevelCategory: determineCategory(tb.account_description),
-          mainGrouping: determineMainGrouping(tb.account_description),
-          ifrsCategory: determineIFRSCategory(tb.account_description),
-          originalLine: `${tb.account_number || ''} ${tb.account_description}`.trim()
-        })) || [];
-
-        const financialData = {
-          companyName: 'Processed PDF Data',
-          reportPeriod: '2024',
-          entries,
-          lastUpdated: new Date().toISOString()
-        };
-
-        setSelectedFile(fileId, financialData);
+      // Lines extracted from both PDF and Excel uploads are in trial_balances
+      const { data: trialBalances, error } = await supabase
+        .from('trial_balances')
+        .select('*')
+        .eq('upload_id', fileId)
+        .order('sheet_name')
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching trial balances:', error);
+        return;
       }
+
+      const company = selectedFile.companyId ? await CompanyService.get(selectedFile.companyId) : null;
+      const mappingContext = await loadMappingContext(company?.id);
+
+      const entries = trialBalances?.map(tb => ({
+        id: tb.id,
+        date: tb.period || selectedFile.periodEnd || '',
+        description: tb.account_description,
+        accountNumber: tb.account_number || undefined,
+        amount: tb.balance,
+        ...classifyEntry(tb.account_description, tb.account_number, {
+          ...mappingContext,
+          section: (tb.statement_section || undefined) as StatementSection | undefined,
+          groupingHint: tb.group_label || undefined
+        }),
+        originalLine: `${tb.account_number || ''} ${tb.account_description}`.trim(),
+        period: tb.period_label || undefined,
+        statementSection: (tb.statement_section || undefined) as StatementSection | undefined,
+        groupingHint: tb.group_label || undefined
+      })) || [];
+
+      const financialData = {
+        companyName: company?.name || selectedFile.name,
+        companyId: company?.id,
+        reportPeriod: selectedFile.periodEnd || trialBalances?.map(tb => tb.period).filter(Boolean).sort().pop() || '',
+        entries,
+        reportedTotals: await ReportedTotalsService.getReportedTotals(fileId),
+        lastUpdated: new Date().toISOString()
+      };
+
+      setSelectedFile(fileId, financialData);
     } catch (error) {
       console.error('Error processing file selection:', error);
     }
   };
 
-  // Helper functions to determine categories
-  const determineCategory = (description: string): 'Assets' | 'Liabilities' | 'Equity' | 'Revenue' | 'Expenses' => {
-    const desc = description.toLowerCase();
-    if (desc.includes('asset') || desc.includes('cash') || desc.includes('inventory') || desc.includes('receivable')) return 'Assets';
-    if (desc.includes('liability') || desc.includes('payable') || desc.includes('debt') || desc.includes('loan')) return 'Liabilities';
-    if (desc.includes('equity') || desc.includes('capital') || desc.includes('retained')) return 'Equity';
-    if (desc.includes('revenue') || desc.includes('income') || desc.includes('sales')) return 'Revenue';
-    return 'Expenses';
-  };
-
-  const determineMainGrouping = (description: string): string => {
-    const category = determineCategory(description);
-    const desc = description.toLowerCase();
-    
-    if (category === 'Assets') {
-      return desc.includes('current') || desc.includes('cash') || desc.includes('inventory') ? 'Current Assets' : 'Non-current Assets';
-    }
-    if (category === 'Liabilities') {
-      return desc.includes('current') || desc.includes('short') ? 'Current Liabilities' : 'Non-current Liabilities';
-    }
-    return category;
-  };
-
-  const determineIFRSCategory = (description: string): string => {
-    const desc = description.toLowerCase();
-    if (desc.includes('cash')) return 'Cash and cash equivalents';
-    if (desc.includes('inventory')) return 'Inventories';
-    if (desc.includes('receivable')) return 'Trade and other receivables';
-    if (desc.includes('payable')) return 'Trade and other payables';
-    if (desc.includes('revenue')) return 'Revenue';
-    if (desc.includes('expense')) return 'Operating expenses';
-    return 'Other';
-  };
-
   if (isLoading) {
     return (
       <Card>
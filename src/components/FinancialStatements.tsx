@@ -2,12 +2,23 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useFinancialData } from '@/contexts/FinancialDataContext';
+import { useState } from 'react';
 import { FileSelector } from '@/components/FileSelector';
-import { AlertCircle } from 'lucide-react';
+import { PeriodSelector } from '@/components/PeriodSelector';
+import { listPeriods, filterByPeriod } from '@/lib/periods';
+import { entryGrouping, isUncategorized } from '@/lib/classification';
+import { detectSignConvention, isBalanceException, presentedAmount, presentedTotal } from '@/lib/presentation';
+import { Badge } from '@/components/ui/badge';
+import { FinancialEntry } from '@/types/financial';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
 
 export function FinancialStatements() {
   const { currentFinancialData } = useFinancialData();
-  const { entries, companyName, reportPeriod } = currentFinancialData;
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const periods = listPeriods(currentFinancialData.entries || []);
+  const activePeriod = selectedPeriod || periods[0]?.label || null;
+  const { companyName, reportPeriod } = currentFinancialData;
+  const entries = filterByPeriod(currentFinancialData.entries || [], activePeriod);
   
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('en-US', { 
@@ -40,32 +51,41 @@ export function FinancialStatements() {
     );
   }
 
-  // Balance Sheet Data
-  const currentAssets = entries.filter(e => 
-    e.highLevelCategory === 'Assets' && e.mainGrouping === 'Current Assets'
-  );
-  const nonCurrentAssets = entries.filter(e => 
-    e.highLevelCategory === 'Assets' && (e.mainGrouping === 'Non-current Assets' || e.mainGrouping === 'Non-Current Assets')
-  );
-  const currentLiabilities = entries.filter(e => 
-    e.highLevelCategory === 'Liabilities' && e.mainGrouping === 'Current Liabilities'
-  );
-  const nonCurrentLiabilities = entries.filter(e => 
-    e.highLevelCategory === 'Liabilities' && (e.mainGrouping === 'Non-current Liabilities' || e.mainGrouping === 'Non-Current Liabilities')
-  );
-  const equity = entries.filter(e => e.highLevelCategory === 'Equity');
+  // Lines not yet classified are listed apart and left out of every total
+  const unclassified = entries.filter(isUncategorized);
+  const classified = entries.filter(e => !isUncategorized(e));
+
+  // Balance Sheet Data, grouped by taxonomy heading
+  const currentAssets = classified.filter(e => entryGrouping(e) === 'ifrs-full:CurrentAssetsAbstract');
+  const nonCurrentAssets = classified.filter(e => entryGrouping(e) === 'ifrs-full:NoncurrentAssetsAbstract');
+  const currentLiabilities = classified.filter(e => entryGrouping(e) === 'ifrs-full:CurrentLiabilitiesAbstract');
+  const nonCurrentLiabilities = classified.filter(e => entryGrouping(e) === 'ifrs-full:NoncurrentLiabilitiesAbstract');
+  const equity = classified.filter(e => e.highLevelCategory === 'Equity');
 
   // Income Statement Data
-  const revenue = entries.filter(e => e.highLevelCategory === 'Revenue');
-  const expenses = entries.filter(e => e.highLevelCategory === 'Expenses');
+  const revenue = classified.filter(e => e.highLevelCategory === 'Revenue');
+  const expenses = classified.filter(e => e.highLevelCategory === 'Expenses');
   
-  const totalRevenue = revenue.reduce((sum, e) => sum + (e.amount || 0), 0);
-  const totalExpenses = expenses.reduce((sum, e) => sum + (e.amount || 0), 0);
+  // Amounts are shown positive on their category's side whether the source
+  // is a signed trial balance or a printed statement
+  const convention = detectSignConvention(classified);
+  const total = (lines: FinancialEntry[]) => presentedTotal(lines, convention);
+
+  const totalRevenue = total(revenue);
+  const totalExpenses = total(expenses);
   const netIncome = totalRevenue - totalExpenses;
 
-  const StatementRow = ({ label, amount, isSubtotal = false, isTotal = false }: {
+  // P&L accounts of a trial balance are not yet closed to retained earnings
+  const unclosedProfit = convention.signed && [...revenue, ...expenses].some(e => !e.statementSection)
+    ? netIncome
+    : 0;
+
+  const exceptions = classified.filter(e => isBalanceException(e, convention));
+
+  const StatementRow = ({ label, amount, entry, isSubtotal = false, isTotal = false }: {
     label: string;
     amount: number;
+    entry?: FinancialEntry;
     isSubtotal?: boolean;
     isTotal?: boolean;
   }) => (
@@ -73,20 +93,67 @@ export function FinancialStatements() {
       isTotal ? 'border-t-2 border-border font-bold text-lg' : 
       isSubtotal ? 'border-t border-border font-semibold' : ''
     }`}>
-      <span className={isSubtotal || isTotal ? 'font-semibold' : ''}>{label}</span>
+      <span className={`flex items-center gap-2 ${isSubtotal || isTotal ? 'font-semibold' : ''}`}>
+        {label}
+        {entry?.contraAccount && <Badge variant="outline" className="text-xs">Contra</Badge>}
+        {entry && isBalanceException(entry, convention) && (
+          <Badge variant="destructive" className="text-xs">Unexpected balance</Badge>
+        )}
+      </span>
       <span className={isSubtotal || isTotal ? 'font-semibold' : ''}>{formatCurrency(amount)}</span>
     </div>
   );
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Financial Statements</h1>
-        <p className="text-muted-foreground">{companyName || 'Company Financial Data'} - {reportPeriod || 'Current Period'}</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Financial Statements</h1>
+          <p className="text-muted-foreground">{companyName || 'Company Financial Data'} - {activePeriod || reportPeriod || 'Current Period'}</p>
+        </div>
+        <PeriodSelector periods={periods} value={activePeriod} onChange={setSelectedPeriod} />
       </div>
 
       <FileSelector />
 
+      {exceptions.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              {exceptions.length} {exceptions.length === 1 ? 'line has' : 'lines have'} a balance on the unexpected side
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {exceptions.map(entry => (
+              <div key={entry.id} className="flex justify-between">
+                <span>{entry.description} <span className="text-muted-foreground">· {entry.ifrsCategory}</span></span>
+                <span className="font-mono">{formatCurrency(presentedAmount(entry, convention))}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {unclassified.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+              {unclassified.length} {unclassified.length === 1 ? 'line is' : 'lines are'} not classified and left out of the statements
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {unclassified.map(entry => (
+              <div key={entry.id} className="flex justify-between">
+                <span>{entry.description || 'N/A'}</span>
+                <span className="font-mono">{formatCurrency(entry.amount)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="balance-sheet" className="w-full">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
@@ -108,12 +175,13 @@ export function FinancialStatements() {
                       <StatementRow 
                         key={entry.id}
                         label={entry.description || 'N/A'}
-                        amount={entry.amount || 0}
+                        amount={presentedAmount(entry, convention)}
+                        entry={entry}
                       />
                     ))}
                     <StatementRow 
                       label="Total Current Assets"
-                      amount={currentAssets.reduce((sum, e) => sum + (e.amount || 0), 0)}
+                      amount={total(currentAssets)}
                       isSubtotal
                     />
                   </>
@@ -126,12 +194,13 @@ export function FinancialStatements() {
                       <StatementRow 
                         key={entry.id}
                         label={entry.description || 'N/A'}
-                        amount={entry.amount || 0}
+                        amount={presentedAmount(entry, convention)}
+                        entry={entry}
                       />
                     ))}
                     <StatementRow 
                       label="Total Non-Current Assets"
-                      amount={nonCurrentAssets.reduce((sum, e) => sum + (e.amount || 0), 0)}
+                      amount={total(nonCurrentAssets)}
                       isSubtotal
                     />
                   </>
@@ -139,7 +208,7 @@ export function FinancialStatements() {
                 
                 <StatementRow 
                   label="TOTAL ASSETS"
-                  amount={[...currentAssets, ...nonCurrentAssets].reduce((sum, e) => sum + (e.amount || 0), 0)}
+                  amount={total([...currentAssets, ...nonCurrentAssets])}
                   isTotal
                 />
               </CardContent>
@@ -157,12 +226,13 @@ export function FinancialStatements() {
                       <StatementRow 
                         key={entry.id}
                         label={entry.description || 'N/A'}
-                        amount={entry.amount || 0}
+                        amount={presentedAmount(entry, convention)}
+                        entry={entry}
                       />
                     ))}
                     <StatementRow 
                       label="Total Current Liabilities"
-                      amount={currentLiabilities.reduce((sum, e) => sum + (e.amount || 0), 0)}
+                      amount={total(currentLiabilities)}
                       isSubtotal
                     />
                   </>
@@ -175,30 +245,38 @@ export function FinancialStatements() {
                       <StatementRow 
                         key={entry.id}
                         label={entry.description || 'N/A'}
-                        amount={entry.amount || 0}
+                        amount={presentedAmount(entry, convention)}
+                        entry={entry}
                       />
                     ))}
                     <StatementRow 
                       label="Total Non-Current Liabilities"
-                      amount={nonCurrentLiabilities.reduce((sum, e) => sum + (e.amount || 0), 0)}  
+                      amount={total(nonCurrentLiabilities)}
                       isSubtotal
                     />
                   </>
                 )}
                 
-                {equity.length > 0 && (
+                {(equity.length > 0 || unclosedProfit !== 0) && (
                   <>
                     <div className="font-semibold text-base mb-3 mt-6">Equity</div>
                     {equity.map(entry => (
                       <StatementRow 
                         key={entry.id}
                         label={entry.description || 'N/A'}
-                        amount={entry.amount || 0}
+                        amount={presentedAmount(entry, convention)}
+                        entry={entry}
                       />
                     ))}
+                    {unclosedProfit !== 0 && (
+                      <StatementRow 
+                        label="Profit for the period"
+                        amount={unclosedProfit}
+                      />
+                    )}
                     <StatementRow 
                       label="Total Equity"
-                      amount={equity.reduce((sum, e) => sum + (e.amount || 0), 0)}
+                      amount={total(equity) + unclosedProfit}
                       isSubtotal
                     />
                   </>
@@ -206,7 +284,7 @@ export function FinancialStatements() {
                 
                 <StatementRow 
                   label="TOTAL LIABILITIES & EQUITY"
-                  amount={[...currentLiabilities, ...nonCurrentLiabilities, ...equity].reduce((sum, e) => sum + (e.amount || 0), 0)}
+                  amount={total([...currentLiabilities, ...nonCurrentLiabilities, ...equity]) + unclosedProfit}
                   isTotal
                 />
               </CardContent>
@@ -227,7 +305,8 @@ export function FinancialStatements() {
                     <StatementRow 
                       key={entry.id}
                       label={entry.description || 'N/A'}
-                      amount={entry.amount || 0}
+                      amount={presentedAmount(entry, convention)}
+                      entry={entry}
                     />
                   ))}
                   <StatementRow 
@@ -245,7 +324,8 @@ export function FinancialStatements() {
                     <StatementRow 
                       key={entry.id}
                       label={entry.description || 'N/A'}
-                      amount={entry.amount || 0}
+                      amount={presentedAmount(entry, convention)}
+                      entry={entry}
                     />
                   ))}
                   <StatementRow 
@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Upload, FileText, CheckCircle, AlertCircle, Loader2, ArrowRight, GripVertical, Download, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
@@ -10,6 +12,13 @@ import { useFinancialData } from '@/contexts/FinancialDataContext';
 import { FinancialEntry, FinancialData } from '@/types/financial';
 import { FileSelector } from '@/components/FileSelector';
 import { SupabasePdfService, ProcessingStatus } from '@/services/supabasePdfService';
+import { detectPdfFilePeriod, extractStructuredPDFData } from '@/services/pdfExtractionService';
+import { entryCategory, manualCategoryFields } from '@/lib/classification';
+import { categoryById } from '../../supabase/functions/_shared/ifrsMapping.ts';
+import { DetectedPeriod, PERIOD_EVIDENCE_LABELS } from '../../supabase/functions/_shared/periods.ts';
+import { MappingPrecedentService } from '@/services/mappingPrecedentService';
+import { CompanyService } from '@/services/companyService';
+import { CompanyInput } from '@/components/upload/CompanyInput';
 import {
   DndContext,
   closestCenter,
@@ -47,161 +56,6 @@ interface DraggableAmountProps {
   description: string;
 }
 
-// IFRS Category Mapping Dictionary - maps account descriptions to predefined IFRS categories
-const IFRS_MAPPING_DICTIONARY: Record<string, { ifrsCategory: string; highLevelCategory: FinancialEntry['highLevelCategory']; mainGrouping: string }> = {
-  // Assets - Non-current
-  'land': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'building': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'property': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'plant': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'machinery': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'equipment': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'vehicle': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'furniture': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'fixture': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'right-of-use': { ifrsCategory: 'Right-of-Use Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'lease asset': { ifrsCategory: 'Right-of-Use Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'software': { ifrsCategory: 'Intangible Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'patent': { ifrsCategory: 'Intangible Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'trademark': { ifrsCategory: 'Intangible Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'license': { ifrsCategory: 'Intangible Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'goodwill': { ifrsCategory: 'Goodwill', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'investment property': { ifrsCategory: 'Investment Property', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  
-  // Assets - Current
-  'cash': { ifrsCategory: 'Cash and Cash Equivalents', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'bank': { ifrsCategory: 'Cash and Cash Equivalents', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'petty cash': { ifrsCategory: 'Cash and Cash Equivalents', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'accounts receivable': { ifrsCategory: 'Trade and Other Receivables', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'trade receivable': { ifrsCategory: 'Trade and Other Receivables', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'receivable': { ifrsCategory: 'Trade and Other Receivables', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'inventory': { ifrsCategory: 'Inventories', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'stock': { ifrsCategory: 'Inventories', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  
-  // Equity
-  'share capital': { ifrsCategory: 'Share Capital', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'capital': { ifrsCategory: 'Share Capital', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'share premium': { ifrsCategory: 'Share Premium', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'retained earnings': { ifrsCategory: 'Retained Earnings', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'retained profit': { ifrsCategory: 'Retained Earnings', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'other reserves': { ifrsCategory: 'Other Reserves', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'non-controlling': { ifrsCategory: 'Non-controlling Interests', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  
-  // Liabilities - Non-current
-  'long term loan': { ifrsCategory: 'Borrowings', highLevelCategory: 'Liabilities', mainGrouping: 'Non-current Liabilities' },
-  'term loan': { ifrsCategory: 'Borrowings', highLevelCategory: 'Liabilities', mainGrouping: 'Non-current Liabilities' },
-  'lease liability': { ifrsCategory: 'Lease Liabilities', highLevelCategory: 'Liabilities', mainGrouping: 'Non-current Liabilities' },
-  'provision': { ifrsCategory: 'Provisions', highLevelCategory: 'Liabilities', mainGrouping: 'Non-current Liabilities' },
-  
-  // Liabilities - Current
-  'accounts payable': { ifrsCategory: 'Trade and Other Payables', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'trade payable': { ifrsCategory: 'Trade and Other Payables', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'payable': { ifrsCategory: 'Trade and Other Payables', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'accrual': { ifrsCategory: 'Trade and Other Payables', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'short term loan': { ifrsCategory: 'Borrowings', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'tax payable': { ifrsCategory: 'Tax Liabilities', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  
-  // Revenue
-  'revenue': { ifrsCategory: 'Revenue', highLevelCategory: 'Revenue', mainGrouping: 'Revenue' },
-  'sales': { ifrsCategory: 'Revenue', highLevelCategory: 'Revenue', mainGrouping: 'Revenue' },
-  'income': { ifrsCategory: 'Revenue', highLevelCategory: 'Revenue', mainGrouping: 'Revenue' },
-  
-  // Expenses
-  'cost of sales': { ifrsCategory: 'Cost of Sales', highLevelCategory: 'Expenses', mainGrouping: 'Cost of Sales' },
-  'salary': { ifrsCategory: 'Employee Benefits', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'wage': { ifrsCategory: 'Employee Benefits', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'rent': { ifrsCategory: 'General and Administrative Expenses', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'depreciation': { ifrsCategory: 'Depreciation and Amortisation', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'interest expense': { ifrsCategory: 'Finance Costs', highLevelCategory: 'Expenses', mainGrouping: 'Financial Costs' },
-};
-
-// Parse a single line of text into a description and numeric amount
-// Supports values like "1,234.00", "$1,234.00" and "(1,234.00)"
-const parseLine = (line: string): { description: string; amount: number } | null => {
-  const match = line.match(/^(.+?)\s+[\($]?\$?(-?[\d,]+(?:\.\d+)?)\)?$/);
-  if (!match) return null;
-  const [, desc, amountStr] = match;
-  const numeric = amountStr.replace(/[\$,()]/g, '');
-  const amount = parseFloat(numeric) * (amountStr.includes('(') ? -1 : 1);
-  if (isNaN(amount)) return null;
-  return { description: desc.trim(), amount };
-};
-
-// Enhanced PDF parsing with proper data structure
-const parseActualPDFData = async (file: File): Promise<FinancialData | null> => {
-  console.log('Attempting to parse PDF:', file.name);
-
-  try {
-    const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
-    const worker = await import('pdfjs-dist/build/pdf.worker?worker');
-    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
-
-    const arrayBuffer = await file.arrayBuffer();
-    const doc = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-
-    let text = '';
-    for (let i = 1; i <= doc.numPages; i++) {
-      const page = await doc.getPage(i);
-      const content = await page.getTextContent();
-      text += content.items.map((it: any) => it.str).join(' ') + '\n';
-    }
-
-    const lines = text
-      .split(/\r?\n/)
-      .map(l => l.trim())
-      .filter(Boolean);
-
-    const entries: FinancialEntry[] = [];
-
-    lines.forEach((line, index) => {
-      const parsed = parseLine(line);
-      if (!parsed) return;
-      const mapping = mapDescriptionToIFRS(parsed.description);
-      entries.push({
-        id: String(index + 1),
-        date: new Date().toISOString().split('T')[0],
-        description: parsed.description,
-        amount: parsed.amount,
-        highLevelCategory: mapping.highLevelCategory,
-        mainGrouping: mapping.mainGrouping,
-        ifrsCategory: mapping.ifrsCategory,
-        originalLine: line,
-      });
-    });
-
-    if (!entries.length) return null;
-
-    return {
-      companyName: file.name.replace(/\.pdf$/i, ''),
-      reportPeriod: '',
-      lastUpdated: new Date().toISOString(),
-      entries,
-    };
-  } catch (err) {
-    console.error('PDF parsing failed', err);
-    return null;
-  }
-};
-
-const mapDescriptionToIFRS = (description: string) => {
-  const lowerDesc = description.toLowerCase();
-  const sortedEntries = Object.entries(IFRS_MAPPING_DICTIONARY).sort(
-    ([a], [b]) => b.length - a.length
-  );
-
-  for (const [keyword, mapping] of sortedEntries) {
-    if (lowerDesc.includes(keyword)) {
-      return mapping;
-    }
-  }
-  
-  return {
-    ifrsCategory: 'Uncategorized',
-    highLevelCategory: 'Assets' as const,
-    mainGrouping: 'Current Assets'
-  };
-};
-
 const dropAnimationConfig: DropAnimation = {
   sideEffects: defaultDropAnimationSideEffects({
     styles: {
@@ -251,6 +105,10 @@ const DraggableAmount = ({ id, amount, description }: DraggableAmountProps) => {
   );
 };
 
+// Stateless, so one instance serves every render and the polling effect
+// does not restart on each of them
+const pdfService = new SupabasePdfService();
+
 export function PdfUpload() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -261,10 +119,16 @@ export function PdfUpload() {
   const [currentUploadId, setCurrentUploadId] = useState<string | null>(null);
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
+  // Read from the file once chosen; periodEnd is set when the user overrides it
+  const [detectedPeriod, setDetectedPeriod] = useState<DetectedPeriod | null>(null);
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [companyName, setCompanyName] = useState('');
   const { toast } = useToast();
   const { currentFinancialData, updateFileData, selectedFileId, setSelectedFile } = useFinancialData();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const pdfService = new SupabasePdfService();
+  // The upload whose results are being read; a poll that lands while they
+  // are (OCR can outlast several intervals) must not read them again
+  const finishingUploadRef = useRef<string | null>(null);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -315,6 +179,11 @@ export function PdfUpload() {
       setExtractionResult(null);
       setSteps(processingSteps.map(step => ({ ...step, status: 'pending' })));
       setProgress(0);
+      setDetectedPeriod(null);
+      setPeriodEnd('');
+      detectPdfFilePeriod(file)
+        .then(setDetectedPeriod)
+        .catch(error => console.error('Period detection failed:', error));
     } else {
       toast({
         title: "Invalid File Type",
@@ -333,7 +202,31 @@ export function PdfUpload() {
       setProcessingStatus(status);
 
       if (status.status === 'completed') {
-        const extractedData = await pdfService.getExtractedData(currentUploadId);
+        // OCR can take longer than the poll interval
+        clearInterval(interval);
+        if (finishingUploadRef.current === currentUploadId) return;
+        finishingUploadRef.current = currentUploadId;
+        let extractedData = await pdfService.getExtractedData(currentUploadId);
+        let ocrPages: number[] = [];
+
+        // The edge function only reads the text layer. A scanned PDF comes
+        // back empty, so read it again in the browser with OCR.
+        if (!extractedData && uploadedFile) {
+          setSteps(prev => prev.map((step, index) =>
+            index === 2 ? { ...step, status: 'processing', description: 'No text layer found, running OCR' } : step
+          ));
+          try {
+            const result = await extractStructuredPDFData(uploadedFile, false, { periodEnd: periodEnd || undefined });
+            if (result.ocr_pages.length > 0) {
+              await pdfService.saveLocalExtraction(currentUploadId, result);
+              ocrPages = result.ocr_pages;
+              extractedData = await pdfService.getExtractedData(currentUploadId);
+            }
+          } catch (error) {
+            console.error('OCR fallback failed:', error);
+          }
+        }
+
         if (extractedData) {
           setMappedData(extractedData);
           // Use setSelectedFile instead of addFile
@@ -344,7 +237,16 @@ export function PdfUpload() {
           
           toast({
             title: "Processing Complete",
-            description: `Extracted ${status.extractedCount} financial entries`,
+            description: ocrPages.length > 0
+              ? `Extracted ${extractedData.entries.length} financial entries with OCR from ${ocrPages.length} scanned page(s). Please review them carefully.`
+              : `Extracted ${status.extractedCount} financial entries`,
+          });
+        } else {
+          setSteps(prev => prev.map((step, index) => index === 2 ? { ...step, status: 'error' } : step));
+          toast({
+            title: "No Data Extracted",
+            description: status.error || 'No structured financial data found in PDF',
+            variant: "destructive"
           });
         }
         setIsProcessing(false);
@@ -370,7 +272,7 @@ export function PdfUpload() {
 
     const interval = setInterval(pollStatus, 2000); // Poll every 2 seconds
     return () => clearInterval(interval);
-  }, [currentUploadId, isProcessing, uploadedFile?.name, pdfService, setSelectedFile, toast]);
+  }, [currentUploadId, isProcessing, uploadedFile, periodEnd, setSelectedFile, toast]);
 
   const processStructuredPDF = async () => {
     if (!uploadedFile) return;
@@ -384,7 +286,10 @@ export function PdfUpload() {
         index === 0 ? { ...step, status: 'processing' } : step
       ));
       
-      const uploadResult = await pdfService.uploadPdf(uploadedFile);
+      const company = companyName.trim() ? await CompanyService.findOrCreate(companyName) : null;
+      // Only a period set by hand is sent; otherwise extract-pdf detects it
+      // and stores what it was read from
+      const uploadResult = await pdfService.uploadPdf(uploadedFile, periodEnd || undefined, company?.id);
       
       if (!uploadResult.success) {
         throw new Error(uploadResult.error || 'Upload failed');
@@ -434,6 +339,18 @@ export function PdfUpload() {
     setActiveId(event.active.id as string);
   };
 
+  // Manual remaps are stored as precedents for the company's later uploads
+  const rememberCorrections = (data: FinancialData, corrected: FinancialEntry[]) => {
+    if (!data.companyId) return;
+    Promise.all(corrected.map(entry => MappingPrecedentService.recordCorrection(data.companyId, entry))).catch(error => {
+      toast({
+        title: "Correction not remembered",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    });
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     setActiveId(null);
@@ -449,28 +366,23 @@ export function PdfUpload() {
     const draggedEntry = mappedData.entries.find(entry => entry.id === activeId);
     if (!draggedEntry) return;
 
-    // Handle drops on category containers (identified by '::' in the id)
-    if (overId.includes('::')) {
-      const [targetHighLevel, targetGrouping, targetCategory] = overId.split('::');
-
+    // Handle drops on category containers (identified by their taxonomy element)
+    const targetCategory = categoryById(overId);
+    if (targetCategory) {
       const updatedEntries = mappedData.entries.map(entry => 
         entry.id === activeId 
-          ? { 
-              ...entry, 
-              highLevelCategory: targetHighLevel as FinancialEntry['highLevelCategory'],
-              mainGrouping: targetGrouping,
-              ifrsCategory: targetCategory
-            }
+          ? { ...entry, ...manualCategoryFields(targetCategory) }
           : entry
       );
 
       const updatedData = { ...mappedData, entries: updatedEntries };
       setMappedData(updatedData);
       updateFileData(selectedFileId, updatedData);
+      rememberCorrections(mappedData, updatedEntries.filter(entry => entry.id === activeId));
 
       toast({
         title: "Item Remapped",
-        description: `${draggedEntry.description} moved to ${targetCategory}`,
+        description: `${draggedEntry.description} moved to ${targetCategory.name}`,
       });
     }
     // Handle swapping between entries
@@ -482,17 +394,23 @@ export function PdfUpload() {
         if (entry.id === activeId) {
           return {
             ...entry,
+            ifrsElementId: targetEntry.ifrsElementId,
             highLevelCategory: targetEntry.highLevelCategory,
             mainGrouping: targetEntry.mainGrouping,
-            ifrsCategory: targetEntry.ifrsCategory
+            ifrsCategory: targetEntry.ifrsCategory,
+            mappingConfidence: undefined,
+            mappingRule: undefined
           };
         }
         if (entry.id === overId) {
           return {
             ...entry,
+            ifrsElementId: draggedEntry.ifrsElementId,
             highLevelCategory: draggedEntry.highLevelCategory,
             mainGrouping: draggedEntry.mainGrouping,
-            ifrsCategory: draggedEntry.ifrsCategory
+            ifrsCategory: draggedEntry.ifrsCategory,
+            mappingConfidence: undefined,
+            mappingRule: undefined
           };
         }
         return entry;
@@ -501,6 +419,7 @@ export function PdfUpload() {
       const updatedData = { ...mappedData, entries: updatedEntries };
       setMappedData(updatedData);
       updateFileData(selectedFileId, updatedData);
+      rememberCorrections(mappedData, updatedEntries.filter(entry => entry.id === activeId || entry.id === overId));
 
       toast({
         title: "Items Swapped",
@@ -616,43 +535,31 @@ export function PdfUpload() {
       );
     }
 
-    const nonCurrentAssets = dataToUse.entries.filter(e => 
-      e.highLevelCategory === 'Assets' && e.mainGrouping === 'Non-current Assets'
-    );
-    const currentAssets = dataToUse.entries.filter(e => 
-      e.highLevelCategory === 'Assets' && e.mainGrouping === 'Current Assets'
-    );
-    const equity = dataToUse.entries.filter(e => e.highLevelCategory === 'Equity');
-    const nonCurrentLiabilities = dataToUse.entries.filter(e => 
-      e.highLevelCategory === 'Liabilities' && e.mainGrouping === 'Non-current Liabilities'
-    );
-    const currentLiabilities = dataToUse.entries.filter(e => 
-      e.highLevelCategory === 'Liabilities' && e.mainGrouping === 'Current Liabilities'
-    );
+    // Group entries by taxonomy element
+    const inElements = (...ids: string[]) => dataToUse.entries.filter(e => ids.includes(entryCategory(e)?.id || ''));
 
-    // Group entries by IFRS category
     const groupedAssets = {
-      ppe: nonCurrentAssets.filter(e => e.ifrsCategory === 'Property, Plant and Equipment'),
-      rou: nonCurrentAssets.filter(e => e.ifrsCategory === 'Right-of-Use Assets'),
-      intangible: nonCurrentAssets.filter(e => e.ifrsCategory === 'Intangible Assets'),
-      goodwill: nonCurrentAssets.filter(e => e.ifrsCategory === 'Goodwill'),
-      investment: nonCurrentAssets.filter(e => e.ifrsCategory === 'Investment Property'),
-      cash: currentAssets.filter(e => e.ifrsCategory === 'Cash and Cash Equivalents'),
-      receivables: currentAssets.filter(e => e.ifrsCategory === 'Trade and Other Receivables'),
-      inventory: currentAssets.filter(e => e.ifrsCategory === 'Inventories'),
+      ppe: inElements('ifrs-full:PropertyPlantAndEquipment'),
+      rou: inElements('ifrs-full:RightofuseAssets'),
+      intangible: inElements('ifrs-full:IntangibleAssetsOtherThanGoodwill'),
+      goodwill: inElements('ifrs-full:Goodwill'),
+      investment: inElements('ifrs-full:InvestmentProperty'),
+      cash: inElements('ifrs-full:CashAndCashEquivalents'),
+      receivables: inElements('ifrs-full:TradeAndOtherCurrentReceivables'),
+      inventory: inElements('ifrs-full:Inventories'),
     };
 
     const groupedEquityLiabilities = {
-      shareCapital: equity.filter(e => e.ifrsCategory === 'Share Capital'),
-      sharePremium: equity.filter(e => e.ifrsCategory === 'Share Premium'),
-      otherReserves: equity.filter(e => e.ifrsCategory === 'Other Reserves'),
-      retainedEarnings: equity.filter(e => e.ifrsCategory === 'Retained Earnings'),
-      nonControlling: equity.filter(e => e.ifrsCategory === 'Non-controlling Interests'),
-      borrowings: [...nonCurrentLiabilities, ...currentLiabilities].filter(e => e.ifrsCategory === 'Borrowings'),
-      leases: [...nonCurrentLiabilities, ...currentLiabilities].filter(e => e.ifrsCategory === 'Lease Liabilities'),
-      payables: currentLiabilities.filter(e => e.ifrsCategory === 'Trade and Other Payables'),
-      provisions: nonCurrentLiabilities.filter(e => e.ifrsCategory === 'Provisions'),
-      tax: currentLiabilities.filter(e => e.ifrsCategory === 'Tax Liabilities'),
+      shareCapital: inElements('ifrs-full:IssuedCapital'),
+      sharePremium: inElements('ifrs-full:SharePremium'),
+      otherReserves: inElements('ifrs-full:OtherReserves'),
+      retainedEarnings: inElements('ifrs-full:RetainedEarnings'),
+      nonControlling: inElements('ifrs-full:NoncontrollingInterests'),
+      borrowings: inElements('ifrs-full:LongtermBorrowings', 'ifrs-full:ShorttermBorrowings', 'ifrs-full:CurrentPortionOfLongtermBorrowings'),
+      leases: inElements('ifrs-full:NoncurrentLeaseLiabilities'),
+      payables: inElements('ifrs-full:TradeAndOtherCurrentPayables'),
+      provisions: inElements('ifrs-full:NoncurrentProvisions'),
+      tax: inElements('ifrs-full:CurrentTaxLiabilitiesCurrent'),
     };
 
     return (
@@ -704,27 +611,27 @@ export function PdfUpload() {
                     <IFRSCategory 
                       title="Property, Plant and Equipment" 
                       entries={groupedAssets.ppe}
-                      dropId="Assets::Non-current Assets::Property, Plant and Equipment"
+                      dropId="ifrs-full:PropertyPlantAndEquipment"
                     />
                     <IFRSCategory 
                       title="Right-of-Use Assets" 
                       entries={groupedAssets.rou}
-                      dropId="Assets::Non-current Assets::Right-of-Use Assets"
+                      dropId="ifrs-full:RightofuseAssets"
                     />
                     <IFRSCategory 
                       title="Investment Property" 
                       entries={groupedAssets.investment}
-                      dropId="Assets::Non-current Assets::Investment Property"
+                      dropId="ifrs-full:InvestmentProperty"
                     />
                     <IFRSCategory 
                       title="Intangible Assets" 
                       entries={groupedAssets.intangible}
-                      dropId="Assets::Non-current Assets::Intangible Assets"
+                      dropId="ifrs-full:IntangibleAssetsOtherThanGoodwill"
                     />
                     <IFRSCategory 
                       title="Goodwill" 
                       entries={groupedAssets.goodwill}
-                      dropId="Assets::Non-current Assets::Goodwill"
+                      dropId="ifrs-full:Goodwill"
                     />
                   </div>
 
@@ -736,17 +643,17 @@ export function PdfUpload() {
                     <IFRSCategory 
                       title="Cash and Cash Equivalents" 
                       entries={groupedAssets.cash}
-                      dropId="Assets::Current Assets::Cash and Cash Equivalents"
+                      dropId="ifrs-full:CashAndCashEquivalents"
                     />
                     <IFRSCategory 
                       title="Trade and Other Receivables" 
                       entries={groupedAssets.receivables}
-                      dropId="Assets::Current Assets::Trade and Other Receivables"
+                      dropId="ifrs-full:TradeAndOtherCurrentReceivables"
                     />
                     <IFRSCategory 
                       title="Inventories" 
                       entries={groupedAssets.inventory}
-                      dropId="Assets::Current Assets::Inventories"
+                      dropId="ifrs-full:Inventories"
                     />
                   </div>
                 </div>
@@ -762,27 +669,27 @@ export function PdfUpload() {
                     <IFRSCategory 
                       title="Share Capital" 
                       entries={groupedEquityLiabilities.shareCapital}
-                      dropId="Equity::Equity::Share Capital"
+                      dropId="ifrs-full:IssuedCapital"
                     />
                     <IFRSCategory 
                       title="Share Premium" 
                       entries={groupedEquityLiabilities.sharePremium}
-                      dropId="Equity::Equity::Share Premium"
+                      dropId="ifrs-full:SharePremium"
                     />
                     <IFRSCategory 
                       title="Other Reserves" 
                       entries={groupedEquityLiabilities.otherReserves}
-                      dropId="Equity::Equity::Other Reserves"
+                      dropId="ifrs-full:OtherReserves"
                     />
                     <IFRSCategory 
                       title="Retained Earnings" 
                       entries={groupedEquityLiabilities.retainedEarnings}
-                      dropId="Equity::Equity::Retained Earnings"
+                      dropId="ifrs-full:RetainedEarnings"
                     />
                     <IFRSCategory 
                       title="Non-controlling Interests" 
                       entries={groupedEquityLiabilities.nonControlling}
-                      dropId="Equity::Equity::Non-controlling Interests"
+                      dropId="ifrs-full:NoncontrollingInterests"
                     />
                   </div>
 
@@ -794,27 +701,27 @@ export function PdfUpload() {
                     <IFRSCategory 
                       title="Borrowings" 
                       entries={groupedEquityLiabilities.borrowings}
-                      dropId="Liabilities::Non-current Liabilities::Borrowings"
+                      dropId="ifrs-full:LongtermBorrowings"
                     />
                     <IFRSCategory 
                       title="Lease Liabilities" 
                       entries={groupedEquityLiabilities.leases}
-                      dropId="Liabilities::Non-current Liabilities::Lease Liabilities"
+                      dropId="ifrs-full:NoncurrentLeaseLiabilities"
                     />
                     <IFRSCategory 
                       title="Trade and Other Payables" 
                       entries={groupedEquityLiabilities.payables}
-                      dropId="Liabilities::Current Liabilities::Trade and Other Payables"
+                      dropId="ifrs-full:TradeAndOtherCurrentPayables"
                     />
                     <IFRSCategory 
                       title="Tax Liabilities" 
                       entries={groupedEquityLiabilities.tax}
-                      dropId="Liabilities::Current Liabilities::Tax Liabilities"
+                      dropId="ifrs-full:CurrentTaxLiabilitiesCurrent"
                     />
                     <IFRSCategory 
                       title="Provisions" 
                       entries={groupedEquityLiabilities.provisions}
-                      dropId="Liabilities::Non-current Liabilities::Provisions"
+                      dropId="ifrs-full:NoncurrentProvisions"
                     />
                   </div>
                 </div>
@@ -905,9 +812,33 @@ export function PdfUpload() {
               />
 
               {uploadedFile && !isProcessing && progress === 0 && (
-                <Button onClick={processStructuredPDF} className="w-full" size="lg">
-                  Process PDF with Backend Extraction
-                </Button>
+                <div className="space-y-4">
+                  <div className="flex flex-wrap items-end gap-3">
+                    <CompanyInput id="pdf-company" className="w-64" value={companyName} onChange={setCompanyName} />
+                    <div className="space-y-1">
+                      <Label htmlFor="pdf-period-end">Reporting period end</Label>
+                      <Input
+                        id="pdf-period-end"
+                        type="date"
+                        className="w-44"
+                        value={periodEnd || detectedPeriod?.endDate || ''}
+                        onChange={(e) => setPeriodEnd(e.target.value)}
+                      />
+                    </div>
+                    <p className="pb-2 text-xs text-muted-foreground">
+                      {periodEnd
+                        ? 'Set by hand.'
+                        : !detectedPeriod
+                          ? 'Reading the period from the document...'
+                          : detectedPeriod.evidence === 'assumed'
+                            ? 'Nothing in the document names a period, so the last year end is assumed. Check it before processing.'
+                            : `From the ${PERIOD_EVIDENCE_LABELS[detectedPeriod.evidence].toLowerCase()}: ${detectedPeriod.label}`}
+                    </p>
+                  </div>
+                  <Button onClick={processStructuredPDF} className="w-full" size="lg">
+                    Process PDF with Backend Extraction
+                  </Button>
+                </div>
               )}
 
               {isProcessing && (
@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PeriodOption } from '@/lib/periods';
+import { CalendarDays } from 'lucide-react';
+
+interface PeriodSelectorProps {
+  periods: PeriodOption[];
+  value: string | null;
+  onChange: (period: string) => void;
+}
+
+export function PeriodSelector({ periods, value, onChange }: PeriodSelectorProps) {
+  // Only comparative statements need a choice
+  if (periods.length <= 1) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <CalendarDays className="h-4 w-4 text-muted-foreground" />
+      <Select value={value || periods[0].label} onValueChange={onChange}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Select period" />
+        </SelectTrigger>
+        <SelectContent>
+          {periods.map(period => (
+            <SelectItem key={period.label} value={period.label}>
+              {period.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListOrdered, Plus, Trash2 } from 'lucide-react';
+import { AccountRangeRule, categoryById, categoryOptions, HighLevelCategory } from '../../../supabase/functions/_shared/ifrsMapping.ts';
+
+interface AccountRangeRulesDialogProps {
+  // Unset for uploads not filed under a company, which cannot keep ranges
+  companyName?: string;
+  rules: AccountRangeRule[];
+  onAdd: (rule: Omit<AccountRangeRule, 'id'>) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const HIGH_LEVEL_CATEGORIES: HighLevelCategory[] = ['Assets', 'Liabilities', 'Equity', 'Revenue', 'Expenses'];
+
+export function AccountRangeRulesDialog({ companyName, rules, onAdd, onDelete }: AccountRangeRulesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [category, setCategory] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rangeStart = parseInt(start, 10);
+  const rangeEnd = end.trim() === '' ? rangeStart : parseInt(end, 10);
+  const definition = categoryById(category);
+  const canAdd = !!companyName && !isNaN(rangeStart) && !isNaN(rangeEnd) && rangeStart <= rangeEnd && !!definition;
+
+  const handleAdd = async () => {
+    if (!canAdd || !definition) return;
+    setIsSaving(true);
+    try {
+      await onAdd({
+        start: rangeStart,
+        end: rangeEnd,
+        elementId: definition.id
+      });
+      setStart('');
+      setEnd('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setIsSaving(true);
+    try {
+      await onDelete(id);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ListOrdered className="h-4 w-4" />
+          Account ranges
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Chart of accounts rules</DialogTitle>
+          <DialogDescription>
+            {companyName
+              ? <>Accounts of {companyName} in a range are mapped to its category before any keyword matching.
+                When ranges overlap the narrowest one applies.</>
+              : 'This upload is not filed under a company. Upload it again with a company to keep account ranges.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No account ranges yet.</p>
+          ) : (
+            rules.map(rule => {
+              const ruleCategory = categoryById(rule.elementId);
+              return (
+                <div key={rule.id} className="flex items-center justify-between border border-border rounded-md p-2 text-sm">
+                  <span className="font-mono">{rule.start === rule.end ? rule.start : `${rule.start}–${rule.end}`}</span>
+                  <span className="flex-1 ml-4">
+                    {ruleCategory?.name || rule.elementId}
+                    <span className="ml-2 text-muted-foreground">{ruleCategory?.mainGrouping}</span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    disabled={isSaving}
+                    onClick={() => handleDelete(rule.id)}
+                    title="Delete range"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="range-start">From account</Label>
+            <Input id="range-start" inputMode="numeric" placeholder="1000" value={start} onChange={(event) => setStart(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="range-end">To account</Label>
+            <Input id="range-end" inputMode="numeric" placeholder="1099" value={end} onChange={(event) => setEnd(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>IFRS category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {HIGH_LEVEL_CATEGORIES.map(highLevelCategory => (
+                  <SelectGroup key={highLevelCategory}>
+                    <SelectLabel>{highLevelCategory}</SelectLabel>
+                    {categoryOptions(highLevelCategory).map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="icon" disabled={!canAdd || isSaving} onClick={handleAdd} title="Add range">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { ChevronDown } from 'lucide-react';
+import { ReconciliationBadge } from './ReconciliationBadge';
+import { IntegrityCheckResult, SkippedIntegrityCheck } from '@/services/integrityCheckService';
+
+interface IntegrityChecksPanelProps {
+  results: IntegrityCheckResult[];
+  skipped: SkippedIntegrityCheck[];
+  onReviewClick: (category: string) => void;
+}
+
+export const IntegrityChecksPanel = ({ results, skipped, onReviewClick }: IntegrityChecksPanelProps) => {
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0
+    }).format(amount);
+
+  if (results.length === 0 && skipped.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Integrity Checks</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {results.map(result => (
+          <Collapsible key={result.ruleId} className="border border-border rounded-md">
+            <div className="flex items-center justify-between p-3">
+              <div>
+                <div className="font-medium">{result.category}</div>
+                <div className="text-sm text-muted-foreground">
+                  {result.leftLabel} {formatCurrency(result.mappedTotal)} · {result.rightLabel} {formatCurrency(result.reportedTotal || 0)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <ReconciliationBadge result={result} onReviewClick={onReviewClick} />
+                <CollapsibleTrigger asChild>
+                  <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Show contributing entries">
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+            </div>
+            <CollapsibleContent>
+              <div className="border-t border-border p-3 space-y-1">
+                <p className="text-sm text-muted-foreground mb-2">{result.description}</p>
+                {result.entries.map(entry => (
+                  <div key={entry.id} className="flex justify-between text-sm">
+                    <span>
+                      {entry.description}
+                      <span className="ml-2 text-muted-foreground">{entry.ifrsCategory}{entry.period ? ` · ${entry.period}` : ''}</span>
+                    </span>
+                    <span className="font-mono">{formatCurrency(entry.amount || 0)}</span>
+                  </div>
+                ))}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        ))}
+
+        {skipped.map(check => (
+          <div key={check.ruleId} className="flex items-center justify-between p-3 text-sm text-muted-foreground">
+            <span>{check.name}</span>
+            <span>Not checked: {check.reason}</span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Sparkles } from 'lucide-react';
+import { FinancialEntry } from '@/types/financial';
+import { MappingSuggestion, MappingSuggestionService } from '@/services/mappingSuggestionService';
+import { isUncategorized } from '@/lib/classification';
+
+interface MappingSuggestionsDialogProps {
+  entries: FinancialEntry[];
+  onAccept: (suggestions: MappingSuggestion[]) => void;
+}
+
+export function MappingSuggestionsDialog({ entries, onAccept }: MappingSuggestionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MappingSuggestion[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const uncategorized = entries.filter(isUncategorized);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0
+    }).format(amount);
+
+  const handleSuggest = async () => {
+    setOpen(true);
+    setIsLoading(true);
+    setError(null);
+    setSuggestions([]);
+    try {
+      const result = await MappingSuggestionService.suggest(uncategorized);
+      setSuggestions(result);
+      // Confident suggestions start selected
+      setSelected(new Set(result.map((suggestion, index) => suggestion.confidence >= 0.7 ? index : -1).filter(index => index >= 0)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index); else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleAccept = () => {
+    onAccept(suggestions.filter((_, index) => selected.has(index)));
+    setOpen(false);
+  };
+
+  if (uncategorized.length === 0) return null;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2" onClick={handleSuggest}>
+        <Sparkles className="h-4 w-4" />
+        Suggest mappings ({uncategorized.length})
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Suggested mappings</DialogTitle>
+            <DialogDescription>
+              Proposed IFRS categories for uncategorized lines. Accepted suggestions are remembered like manual corrections.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Asking for suggestions...
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {!isLoading && !error && suggestions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No suggestions were returned.</p>
+          )}
+
+          {suggestions.length > 0 && (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {suggestions.map((suggestion, index) => (
+                <label key={suggestion.entryIds[0]} className="flex items-start gap-3 border border-border rounded-md p-3 cursor-pointer">
+                  <Checkbox
+                    checked={selected.has(index)}
+                    onCheckedChange={(checked) => toggle(index, checked === true)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">
+                        {suggestion.accountNumber && <span className="font-mono text-muted-foreground mr-2">{suggestion.accountNumber}</span>}
+                        {suggestion.description}
+                      </span>
+                      <span className="font-mono">{formatCurrency(suggestion.amount)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{suggestion.ifrsCategory}</Badge>
+                      <span className="text-xs text-muted-foreground">{suggestion.highLevelCategory} · {Math.round(suggestion.confidence * 100)}%</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{suggestion.rationale}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" disabled={suggestions.length === 0} onClick={() => setSelected(new Set(suggestions.map((_, index) => index)))}>
+              Select all
+            </Button>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Reject all
+            </Button>
+            <Button disabled={selected.size === 0} onClick={handleAccept}>
+              Accept {selected.size > 0 ? selected.size : ''} selected
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,9 @@
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { CheckCircle, AlertTriangle, XCircle, MessageSquare } from 'lucide-react';
+import { StatementSection } from '@/types/financial';
 
 export interface ReconciliationResult {
   category: string;
@@ -11,6 +13,10 @@ export interface ReconciliationResult {
   status: 'matched' | 'minor-mismatch' | 'mismatch' | 'no-total';
   contributingItems: string[];
   sourcePages: number[];
+  reportedSource?: 'extracted' | 'manual';
+  // Which tolerance threshold decided the status
+  thresholdNote?: string;
+  section?: StatementSection;
 }
 
 interface ReconciliationBadgeProps {
@@ -64,15 +70,22 @@ export const ReconciliationBadge = ({ result, onReviewClick }: ReconciliationBad
 
   return (
     <div className="flex items-center gap-2">
-      <Badge className={`${config.color} flex items-center gap-1`}>
-        {config.icon}
-        {config.label}
-        {result.reportedTotal && (
-          <span className="ml-1 text-xs">
-            ({formatCurrency(Math.abs(result.difference))})
-          </span>
-        )}
-      </Badge>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge className={`${config.color} flex items-center gap-1 cursor-default`}>
+            {config.icon}
+            {config.label}
+            {result.reportedTotal && (
+              <span className="ml-1 text-xs">
+                ({formatCurrency(Math.abs(result.difference))})
+              </span>
+            )}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {result.thresholdNote || 'No reported total to compare against'}
+        </TooltipContent>
+      </Tooltip>
       
       {needsReview && (
         <Button
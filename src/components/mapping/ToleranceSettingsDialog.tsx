@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToleranceMode, ToleranceSettings } from '@/types/financial';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ToleranceSettingsDialogProps {
+  tolerance: ToleranceSettings;
+  companyName?: string;
+  canSaveForUpload: boolean;
+  onSave: (tolerance: ToleranceSettings, scope: 'upload' | 'company') => Promise<void>;
+}
+
+const MODE_LABELS: Record<ToleranceMode, string> = {
+  percentage: 'Percentage of reported total',
+  absolute: 'Absolute amount',
+  materiality: 'Materiality'
+};
+
+const parseOptional = (value: string) => value.trim() === '' ? undefined : parseFloat(value.replace(/,/g, ''));
+
+export function ToleranceSettingsDialog({ tolerance, companyName, canSaveForUpload, onSave }: ToleranceSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ToleranceSettings>(tolerance);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(tolerance);
+  }, [open, tolerance]);
+
+  const numberField = (key: keyof ToleranceSettings, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`tolerance-${key}`}>{label}</Label>
+      <Input
+        id={`tolerance-${key}`}
+        inputMode="decimal"
+        value={draft[key] !== undefined ? String(draft[key]) : ''}
+        onChange={(event) => setDraft(prev => ({ ...prev, [key]: parseOptional(event.target.value) }))}
+      />
+    </div>
+  );
+
+  const handleSave = async (scope: 'upload' | 'company') => {
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, roundingTolerance: draft.roundingTolerance ?? 0, percentageTolerance: draft.percentageTolerance ?? 0 }, scope);
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Tolerances
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reconciliation tolerances</DialogTitle>
+          <DialogDescription>
+            {tolerance.scope === 'default'
+              ? 'Using the default tolerances.'
+              : `Using the tolerances saved for this ${tolerance.scope}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Mode</Label>
+            <Select value={draft.mode} onValueChange={(mode: ToleranceMode) => setDraft(prev => ({ ...prev, mode }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {numberField('roundingTolerance', 'Rounding tolerance (always matched below)')}
+          {draft.mode === 'percentage' && numberField('percentageTolerance', 'Minor mismatch up to (% of reported total)')}
+          {draft.mode === 'absolute' && numberField('absoluteTolerance', 'Minor mismatch up to (amount)')}
+          {draft.mode === 'materiality' && (
+            <>
+              {numberField('clearlyTrivial', 'Clearly trivial threshold')}
+              {numberField('materiality', 'Overall materiality')}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {companyName && (
+            <Button variant="outline" disabled={isSaving} onClick={() => handleSave('company')}>
+              Save for {companyName}
+            </Button>
+          )}
+          {canSaveForUpload && (
+            <Button disabled={isSaving} onClick={() => handleSave('upload')}>
+              Save for this upload
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { X, Send, Bot, User } from 'lucide-react';
 import { ReconciliationResult } from './ReconciliationBadge';
+import { STATEMENT_SECTION_LABELS } from '../../../supabase/functions/_shared/sections.ts';
 
 interface ValidationMessage {
   id: string;
@@ -45,9 +46,11 @@ export const ValidationChatAssistant = ({
         role: 'assistant',
         content: `For the ${reconciliationResult.category} category, I found a discrepancy:\n\n` +
           `• Mapped components total: ${formatCurrency(reconciliationResult.mappedTotal)}\n` +
-          `• Reported total: ${reconciliationResult.reportedTotal ? formatCurrency(reconciliationResult.reportedTotal) : 'Not available'}\n` +
+          `• Reported total: ${reconciliationResult.reportedTotal ? formatCurrency(reconciliationResult.reportedTotal) : 'Not available'}` +
+          `${reconciliationResult.reportedSource === 'manual' ? ' (entered manually)' : ''}\n` +
           `• Difference: ${formatCurrency(reconciliationResult.difference)}\n` +
-          `• Source pages: ${reconciliationResult.sourcePages.join(', ')}\n\n` +
+          `• Source pages: ${reconciliationResult.sourcePages.join(', ')}\n` +
+          (reconciliationResult.section ? `• Statement: ${STATEMENT_SECTION_LABELS[reconciliationResult.section]}\n\n` : '\n') +
           `Contributing items:\n${reconciliationResult.contributingItems.map(item => `• ${item}`).join('\n')}\n\n` +
           `Would you like to review and adjust the mapping?`,
         timestamp: new Date()
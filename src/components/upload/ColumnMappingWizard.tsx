@@ -0,0 +1,402 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertCircle } from 'lucide-react';
+import { excelService, SheetPreview } from '@/services/excelService';
+import { CompanyInput } from './CompanyInput';
+import {
+  AmountSign,
+  cellText,
+  COLUMN_ROLE_LABELS,
+  COLUMN_ROLES,
+  ColumnRole,
+  guessColumnRoles,
+  isLayoutUsable,
+  NumberLocale,
+  SheetLayout,
+  sheetWidth
+} from '../../../supabase/functions/_shared/sheetLayout.ts';
+import { DateOrder, PERIOD_EVIDENCE_LABELS } from '../../../supabase/functions/_shared/periods.ts';
+import {
+  AMOUNT_SIGN_LABELS,
+  DATE_ORDER_LABELS,
+  ImportSettings,
+  isTrialBalanceRole,
+  NUMBER_LOCALE_LABELS,
+  PERIOD_SOURCE_LABELS,
+  PeriodSource,
+  SHEET_ROLE_LABELS,
+  SHEET_ROLES,
+  SheetRole
+} from '../../../supabase/functions/_shared/importTemplates.ts';
+
+// Saving a sheet's settings as a named template
+export interface TemplateDraft {
+  save: boolean;
+  name: string;
+  sheetSelector: string;
+}
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  fileName: string;
+  sheets: SheetPreview[];
+  onCancel: () => void;
+  onConfirm: (
+    settings: Record<string, ImportSettings>,
+    drafts: Record<string, TemplateDraft>,
+    roles: Record<string, SheetRole>,
+    // Empty unless set by hand, so the detected period is stored as detected
+    periodEnd: string,
+    companyName: string
+  ) => void;
+}
+
+const NO_ROLE = 'none';
+
+export function ColumnMappingWizard({ open, fileName, sheets, onCancel, onConfirm }: ColumnMappingWizardProps) {
+  const [settings, setSettings] = useState<Record<string, ImportSettings>>({});
+  const [drafts, setDrafts] = useState<Record<string, TemplateDraft>>({});
+  const [roles, setRoles] = useState<Record<string, SheetRole>>({});
+  // Set when the user overrides the detected period end
+  const [periodEnd, setPeriodEnd] = useState('');
+  // Kept between files, as uploads usually come from the same company
+  const [companyName, setCompanyName] = useState('');
+
+  // Detected again as roles change, as only trial balance headers count
+  const detectedPeriod = useMemo(() => excelService.detectPeriod(fileName, sheets, roles), [fileName, sheets, roles]);
+
+  useEffect(() => {
+    setPeriodEnd('');
+    setSettings(Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.settings])));
+    setRoles(Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.role])));
+    setDrafts(Object.fromEntries(sheets.map(sheet => [sheet.name, {
+      save: !!sheet.template,
+      name: sheet.template?.name || '',
+      sheetSelector: sheet.template?.sheetSelector || ''
+    }])));
+  }, [sheets]);
+
+  const updateSettings = (sheetName: string, changes: Partial<ImportSettings>) =>
+    setSettings(prev => ({ ...prev, [sheetName]: { ...prev[sheetName], ...changes } }));
+
+  const updateDraft = (sheetName: string, changes: Partial<TemplateDraft>) =>
+    setDrafts(prev => ({ ...prev, [sheetName]: { ...prev[sheetName], ...changes } }));
+
+  const updateLayout = (sheetName: string, layout: SheetLayout) => updateSettings(sheetName, { layout });
+
+  // Choosing another header row re-reads the roles from it
+  const setHeaderRow = (sheet: SheetPreview, headerRow: number | null) =>
+    updateLayout(sheet.name, { headerRow, columns: guessColumnRoles(sheet.rows, headerRow) });
+
+  // A role belongs to one column; giving it to another column moves it
+  const setColumnRole = (sheetName: string, columnIndex: number, role: ColumnRole | typeof NO_ROLE) => {
+    const { layout } = settings[sheetName];
+    const columns = Object.fromEntries(
+      Object.entries(layout.columns).filter(([assigned, index]) => index !== columnIndex && assigned !== role)
+    ) as SheetLayout['columns'];
+    if (role !== NO_ROLE) columns[role] = columnIndex;
+    updateLayout(sheetName, { ...layout, columns });
+  };
+
+  const roleOf = (layout: SheetLayout, columnIndex: number) =>
+    COLUMN_ROLES.find(role => layout.columns[role] === columnIndex) || NO_ROLE;
+
+  const renderRoleSelect = (sheetName: string) => (
+    <Select
+      value={roles[sheetName]}
+      onValueChange={(role) => setRoles(prev => ({ ...prev, [sheetName]: role as SheetRole }))}
+    >
+      <SelectTrigger className="h-8 w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SHEET_ROLES.map(role => (
+          <SelectItem key={role} value={role}>{SHEET_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderSheet = (sheet: SheetPreview) => {
+    const sheetSettings = settings[sheet.name];
+    const draft = drafts[sheet.name];
+    if (!sheetSettings || !draft) return null;
+
+    const { layout } = sheetSettings;
+    const width = sheetWidth(sheet.rows);
+    const usable = isLayoutUsable(layout);
+    const isTrialBalance = !!roles[sheet.name] && isTrialBalanceRole(roles[sheet.name]);
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {sheet.rowCount} rows · showing the first {sheet.rows.length}. Click a row number to mark the header row.
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setHeaderRow(sheet, null)} disabled={layout.headerRow === null}>
+            No header row
+          </Button>
+        </div>
+
+        {isTrialBalance && !usable && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Assign a description or account column and at least one amount column, or this sheet is skipped.
+          </div>
+        )}
+
+        <div className="overflow-auto max-h-96 border border-border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-background">
+              <tr>
+                <th className="p-2 w-12" />
+                {Array.from({ length: width }, (_, columnIndex) => (
+                  <th key={columnIndex} className="p-1 min-w-32">
+                    <Select
+                      value={roleOf(layout, columnIndex)}
+                      onValueChange={(role) => setColumnRole(sheet.name, columnIndex, role as ColumnRole | typeof NO_ROLE)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROLE}>Ignore</SelectItem>
+                        {COLUMN_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{COLUMN_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.map((row, rowIndex) => {
+                const isHeader = rowIndex === layout.headerRow;
+                const isAboveHeader = layout.headerRow !== null && rowIndex < layout.headerRow;
+                return (
+                  <tr
+                    key={rowIndex}
+                    className={`border-t border-border ${isHeader ? 'bg-primary/10 font-semibold' : isAboveHeader ? 'text-muted-foreground/60' : ''}`}
+                  >
+                    <td className="p-2 text-right">
+                      <button
+                        type="button"
+                        className="font-mono text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => setHeaderRow(sheet, rowIndex)}
+                        title="Use as header row"
+                      >
+                        {rowIndex + 1}
+                      </button>
+                    </td>
+                    {Array.from({ length: width }, (_, columnIndex) => (
+                      <td key={columnIndex} className="p-2 truncate max-w-48">
+                        {cellText(row?.[columnIndex])}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label>Amounts</Label>
+            <Select
+              value={sheetSettings.amountSign}
+              onValueChange={(value) => updateSettings(sheet.name, { amountSign: value as AmountSign })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(AMOUNT_SIGN_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Number format</Label>
+            <Select
+              value={sheetSettings.numberLocale}
+              onValueChange={(value) => updateSettings(sheet.name, { numberLocale: value as NumberLocale })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(NUMBER_LOCALE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Date format</Label>
+            <Select
+              value={sheetSettings.dateOrder}
+              onValueChange={(value) => updateSettings(sheet.name, { dateOrder: value as DateOrder })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_ORDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`skip-rows-${sheet.name}`}>Rows to skip after header</Label>
+            <Input
+              id={`skip-rows-${sheet.name}`}
+              type="number"
+              min={0}
+              className="h-8"
+              value={sheetSettings.skipRows}
+              onChange={(e) => updateSettings(sheet.name, { skipRows: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Period from</Label>
+            <Select
+              value={sheetSettings.periodSource}
+              onValueChange={(value) => updateSettings(sheet.name, { periodSource: value as PeriodSource })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PERIOD_SOURCE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2 rounded-md border border-border p-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`save-template-${sheet.name}`}
+              checked={draft.save}
+              disabled={layout.headerRow === null}
+              onCheckedChange={(checked) => updateDraft(sheet.name, { save: checked === true })}
+            />
+            <Label htmlFor={`save-template-${sheet.name}`}>
+              Save as a template for exports with the same header row
+            </Label>
+          </div>
+          {draft.save && (
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Template name, e.g. SAP monthly TB"
+                value={draft.name}
+                onChange={(e) => updateDraft(sheet.name, { name: e.target.value })}
+              />
+              <Input
+                placeholder="Sheets it applies to, e.g. TB* (blank for any)"
+                value={draft.sheetSelector}
+                onChange={(e) => updateDraft(sheet.name, { sheetSelector: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Every sheet being saved needs a template name
+  const canImport = sheets.every(sheet => !drafts[sheet.name]?.save || drafts[sheet.name].name.trim());
+
+  const currentCount = sheets.filter(sheet => roles[sheet.name] === 'current_tb').length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+          <DialogDescription>
+            Confirm what each sheet of {fileName} is, its header row and what each column holds before it is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="rounded-md border border-border divide-y divide-border">
+            {sheets.map(sheet => (
+              <div key={sheet.name} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{sheet.name}</p>
+                  <p className="text-xs text-muted-foreground">{sheet.rowCount} rows</p>
+                </div>
+                {renderRoleSelect(sheet.name)}
+              </div>
+            ))}
+          </div>
+          {sheets.some(sheet => roles[sheet.name] === 'comparative_tb') && currentCount === 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <AlertCircle className="h-4 w-4" />
+              No sheet is the current TB, so comparatives are dated the year before the reporting period.
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <CompanyInput id="excel-company" className="h-8 w-64" value={companyName} onChange={setCompanyName} />
+          <div className="space-y-1">
+            <Label htmlFor="period-end">Reporting period end</Label>
+            <Input
+              id="period-end"
+              type="date"
+              className="h-8 w-44"
+              value={periodEnd || detectedPeriod.endDate}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+            />
+          </div>
+          <p className="pb-2 text-xs text-muted-foreground">
+            {periodEnd
+              ? 'Set by hand.'
+              : detectedPeriod.evidence === 'assumed'
+                ? 'Nothing in the file names a period, so the last year end is assumed. Check it before importing.'
+                : `From the ${PERIOD_EVIDENCE_LABELS[detectedPeriod.evidence].toLowerCase()}: ${detectedPeriod.label}`}
+          </p>
+        </div>
+
+        <Tabs defaultValue={sheets[0]?.name}>
+          <TabsList className="flex-wrap h-auto">
+            {sheets.map(sheet => (
+              <TabsTrigger key={sheet.name} value={sheet.name} className="gap-2">
+                {sheet.name}
+                {roles[sheet.name] && roles[sheet.name] !== 'current_tb' && (
+                  <Badge variant="outline" className="text-xs">{SHEET_ROLE_LABELS[roles[sheet.name]]}</Badge>
+                )}
+                {sheet.template && <Badge variant="secondary" className="text-xs">{sheet.template.name}</Badge>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {sheets.map(sheet => (
+            <TabsContent key={sheet.name} value={sheet.name}>
+              {renderSheet(sheet)}
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(settings, drafts, roles, periodEnd, companyName)} disabled={!canImport}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Company, CompanyService } from '@/services/companyService';
+
+interface CompanyInputProps {
+  id: string;
+  value: string;
+  onChange: (name: string) => void;
+  className?: string;
+}
+
+// Names an upload's company, suggesting the ones already on file. A new name
+// is added as a company when the upload is processed.
+export function CompanyInput({ id, value, onChange, className }: CompanyInputProps) {
+  const [companies, setCompanies] = useState<Company[]>([]);
+
+  useEffect(() => {
+    CompanyService.list().then(setCompanies);
+  }, []);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>Company</Label>
+      <Input
+        id={id}
+        list={`${id}-options`}
+        className={className}
+        placeholder="Company the file belongs to"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <datalist id={`${id}-options`}>
+        {companies.map(company => (
+          <option key={company.id} value={company.name} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
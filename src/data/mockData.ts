@@ -8,6 +8,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Cash and Cash Equivalents',
     amount: 125000,
     highLevelCategory: 'Assets',
+    ifrsElementId: 'ifrs-full:CashAndCashEquivalents',
     mainGrouping: 'Current Assets',
     ifrsCategory: 'Cash and Cash Equivalents',
     originalLine: 'Cash and bank balances'
@@ -18,6 +19,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Trade Receivables',
     amount: 85000,
     highLevelCategory: 'Assets',
+    ifrsElementId: 'ifrs-full:TradeAndOtherCurrentReceivables',
     mainGrouping: 'Current Assets',
     ifrsCategory: 'Trade and Other Receivables',
     originalLine: 'Accounts receivable - trade'
@@ -28,6 +30,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Property, Plant and Equipment',
     amount: 450000,
     highLevelCategory: 'Assets',
+    ifrsElementId: 'ifrs-full:PropertyPlantAndEquipment',
     mainGrouping: 'Non-current Assets',
     ifrsCategory: 'Property, Plant and Equipment',
     originalLine: 'Fixed assets - property and equipment'
@@ -38,6 +41,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Intangible Assets',
     amount: 75000,
     highLevelCategory: 'Assets',
+    ifrsElementId: 'ifrs-full:IntangibleAssetsOtherThanGoodwill',
     mainGrouping: 'Non-current Assets',
     ifrsCategory: 'Intangible Assets',
     originalLine: 'Goodwill and intangible assets'
@@ -49,6 +53,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Trade Payables',
     amount: 45000,
     highLevelCategory: 'Liabilities',
+    ifrsElementId: 'ifrs-full:TradeAndOtherCurrentPayables',
     mainGrouping: 'Current Liabilities',
     ifrsCategory: 'Trade and Other Payables',
     originalLine: 'Accounts payable - trade'
@@ -59,6 +64,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Long-term Debt',
     amount: 200000,
     highLevelCategory: 'Liabilities',
+    ifrsElementId: 'ifrs-full:LongtermBorrowings',
     mainGrouping: 'Non-current Liabilities',
     ifrsCategory: 'Borrowings',
     originalLine: 'Long-term bank loans'
@@ -70,6 +76,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Share Capital',
     amount: 100000,
     highLevelCategory: 'Equity',
+    ifrsElementId: 'ifrs-full:IssuedCapital',
     mainGrouping: 'Equity',
     ifrsCategory: 'Share Capital',
     originalLine: 'Issued share capital'
@@ -80,6 +87,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Retained Earnings',
     amount: 390000,
     highLevelCategory: 'Equity',
+    ifrsElementId: 'ifrs-full:RetainedEarnings',
     mainGrouping: 'Equity',
     ifrsCategory: 'Retained Earnings',
     originalLine: 'Accumulated profits'
@@ -91,6 +99,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Revenue from Sales',
     amount: 850000,
     highLevelCategory: 'Revenue',
+    ifrsElementId: 'ifrs-full:Revenue',
     mainGrouping: 'Revenue',
     ifrsCategory: 'Revenue',
     originalLine: 'Sales revenue'
@@ -102,6 +111,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Cost of Goods Sold',
     amount: 520000,
     highLevelCategory: 'Expenses',
+    ifrsElementId: 'ifrs-full:CostOfSales',
     mainGrouping: 'Cost of Sales',
     ifrsCategory: 'Cost of Sales',
     originalLine: 'Cost of goods sold'
@@ -112,6 +122,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Administrative Expenses',
     amount: 125000,
     highLevelCategory: 'Expenses',
+    ifrsElementId: 'ifrs-full:AdministrativeExpense',
     mainGrouping: 'Operating Expenses',
     ifrsCategory: 'Administrative Expenses',
     originalLine: 'General and administrative expenses'
@@ -122,6 +133,7 @@ export const mockFinancialEntries: FinancialEntry[] = [
     description: 'Selling Expenses',
     amount: 85000,
     highLevelCategory: 'Expenses',
+    ifrsElementId: 'ifrs-full:DistributionCosts',
     mainGrouping: 'Operating Expenses',
     ifrsCategory: 'Distribution Costs',
     originalLine: 'Sales and marketing expenses'
@@ -134,59 +146,3 @@ export const mockFinancialData: FinancialData = {
   entries: mockFinancialEntries,
   lastUpdated: new Date().toISOString()
 };
-
-export const ifrsCategories = {
-  assets: {
-    current: [
-      'Cash and Cash Equivalents',
-      'Trade and Other Receivables', 
-      'Inventories',
-      'Prepaid Expenses',
-      'Other Current Assets'
-    ],
-    nonCurrent: [
-      'Property, Plant and Equipment',
-      'Investment Property',
-      'Intangible Assets',
-      'Investments in Associates',
-      'Other Non-current Assets'
-    ]
-  },
-  liabilities: {
-    current: [
-      'Trade and Other Payables',
-      'Short-term Borrowings',
-      'Current Portion of Long-term Debt',
-      'Accrued Expenses',
-      'Other Current Liabilities'
-    ],
-    nonCurrent: [
-      'Borrowings',
-      'Deferred Tax Liabilities',
-      'Employee Benefits',
-      'Provisions',
-      'Other Non-current Liabilities'
-    ]
-  },
-  equity: [
-    'Share Capital',
-    'Share Premium',
-    'Retained Earnings',
-    'Other Comprehensive Income',
-    'Non-controlling Interests'
-  ],
-  income: [
-    'Revenue',
-    'Other Income',
-    'Finance Income',
-    'Share of Profit of Associates'
-  ],
-  expenses: [
-    'Cost of Sales',
-    'Distribution Costs',
-    'Administrative Expenses',
-    'Other Expenses',
-    'Finance Costs',
-    'Tax Expense'
-  ]
-};
\ No newline at end of file
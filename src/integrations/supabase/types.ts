@@ -14,36 +14,87 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_range_rules: {
+        Row: {
+          company_id: string
+          company_name: string | null
+          created_at: string
+          high_level_category: string
+          id: string
+          ifrs_category: string
+          ifrs_element_id: string | null
+          main_grouping: string
+          range_end: number
+          range_start: number
+        }
+        Insert: {
+          company_id: string
+          company_name?: string | null
+          created_at?: string
+          high_level_category: string
+          id?: string
+          ifrs_category: string
+          ifrs_element_id?: string | null
+          main_grouping: string
+          range_end: number
+          range_start: number
+        }
+        Update: {
+          company_id?: string
+          company_name?: string | null
+          created_at?: string
+          high_level_category?: string
+          id?: string
+          ifrs_category?: string
+          ifrs_element_id?: string | null
+          main_grouping?: string
+          range_end?: number
+          range_start?: number
+        }
+        Relationships: []
+      }
+      companies: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       excel_data: {
         Row: {
-          cell_value: string | null
-          column_name: string | null
+          cells: Json
           created_at: string
-          data_type: string | null
           id: string
           row_number: number
           sheet_name: string
-          upload_id: string | null
+          upload_id: string
         }
         Insert: {
-          cell_value?: string | null
-          column_name?: string | null
+          cells?: Json
           created_at?: string
-          data_type?: string | null
           id?: string
           row_number: number
           sheet_name: string
-          upload_id?: string | null
+          upload_id: string
         }
         Update: {
-          cell_value?: string | null
-          column_name?: string | null
+          cells?: Json
           created_at?: string
-          data_type?: string | null
           id?: string
           row_number?: number
           sheet_name?: string
-          upload_id?: string | null
+          upload_id?: string
         }
         Relationships: [
           {
@@ -57,45 +108,157 @@ export type Database = {
       }
       excel_uploads: {
         Row: {
+          company_id: string | null
           completed_at: string | null
           created_at: string
           error_message: string | null
           file_size: number | null
           filename: string
           id: string
+          period_end: string | null
+          period_evidence: string | null
+          processed_sheets: string[]
           processing_status: string | null
+          row_errors: Json
+          sheet_roles: Json
+          sheet_row_offset: number
           sheets_count: number | null
           storage_path: string | null
           total_records_count: number | null
         }
         Insert: {
+          company_id?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
           file_size?: number | null
           filename: string
           id?: string
+          period_end?: string | null
+          period_evidence?: string | null
+          processed_sheets?: string[]
           processing_status?: string | null
+          row_errors?: Json
+          sheet_roles?: Json
+          sheet_row_offset?: number
           sheets_count?: number | null
           storage_path?: string | null
           total_records_count?: number | null
         }
         Update: {
+          company_id?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
           file_size?: number | null
           filename?: string
           id?: string
+          period_end?: string | null
+          period_evidence?: string | null
+          processed_sheets?: string[]
           processing_status?: string | null
+          row_errors?: Json
+          sheet_roles?: Json
+          sheet_row_offset?: number
           sheets_count?: number | null
           storage_path?: string | null
           total_records_count?: number | null
         }
         Relationships: []
       }
+      import_templates: {
+        Row: {
+          column_roles: Json
+          created_at: string
+          date_order: string
+          header_fingerprint: string
+          header_row: number | null
+          id: string
+          name: string
+          number_locale: string
+          period_source: string
+          sheet_selector: string | null
+          sign_convention: string
+          skip_rows: number
+          updated_at: string
+        }
+        Insert: {
+          column_roles?: Json
+          created_at?: string
+          date_order?: string
+          header_fingerprint: string
+          header_row?: number | null
+          id?: string
+          name: string
+          number_locale?: string
+          period_source?: string
+          sheet_selector?: string | null
+          sign_convention?: string
+          skip_rows?: number
+          updated_at?: string
+        }
+        Update: {
+          column_roles?: Json
+          created_at?: string
+          date_order?: string
+          header_fingerprint?: string
+          header_row?: number | null
+          id?: string
+          name?: string
+          number_locale?: string
+          period_source?: string
+          sheet_selector?: string | null
+          sign_convention?: string
+          skip_rows?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mapping_precedents: {
+        Row: {
+          account_number: string
+          company_id: string
+          company_name: string | null
+          created_at: string
+          high_level_category: string
+          id: string
+          ifrs_category: string
+          ifrs_element_id: string | null
+          main_grouping: string
+          normalized_description: string
+          updated_at: string
+        }
+        Insert: {
+          account_number?: string
+          company_id: string
+          company_name?: string | null
+          created_at?: string
+          high_level_category: string
+          id?: string
+          ifrs_category: string
+          ifrs_element_id?: string | null
+          main_grouping: string
+          normalized_description: string
+          updated_at?: string
+        }
+        Update: {
+          account_number?: string
+          company_id?: string
+          company_name?: string | null
+          created_at?: string
+          high_level_category?: string
+          id?: string
+          ifrs_category?: string
+          ifrs_element_id?: string | null
+          main_grouping?: string
+          normalized_description?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       pdf_uploads: {
         Row: {
+          company_id: string | null
           completed_at: string | null
           created_at: string
           error_message: string | null
@@ -103,10 +266,13 @@ export type Database = {
           file_size: number
           filename: string
           id: string
+          period_end: string | null
+          period_evidence: string | null
           processing_status: string | null
           storage_path: string
         }
         Insert: {
+          company_id?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
@@ -114,10 +280,13 @@ export type Database = {
           file_size: number
           filename: string
           id?: string
+          period_end?: string | null
+          period_evidence?: string | null
           processing_status?: string | null
           storage_path: string
         }
         Update: {
+          company_id?: string | null
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
@@ -125,11 +294,115 @@ export type Database = {
           file_size?: number
           filename?: string
           id?: string
+          period_end?: string | null
+          period_evidence?: string | null
           processing_status?: string | null
           storage_path?: string
         }
         Relationships: []
       }
+      reconciliation_settings: {
+        Row: {
+          absolute_tolerance: number | null
+          clearly_trivial: number | null
+          company_id: string | null
+          company_name: string | null
+          created_at: string
+          id: string
+          materiality: number | null
+          mode: string
+          percentage_tolerance: number
+          rounding_tolerance: number
+          updated_at: string
+          upload_id: string | null
+        }
+        Insert: {
+          absolute_tolerance?: number | null
+          clearly_trivial?: number | null
+          company_id?: string | null
+          company_name?: string | null
+          created_at?: string
+          id?: string
+          materiality?: number | null
+          mode?: string
+          percentage_tolerance?: number
+          rounding_tolerance?: number
+          updated_at?: string
+          upload_id?: string | null
+        }
+        Update: {
+          absolute_tolerance?: number | null
+          clearly_trivial?: number | null
+          company_id?: string | null
+          company_name?: string | null
+          created_at?: string
+          id?: string
+          materiality?: number | null
+          mode?: string
+          percentage_tolerance?: number
+          rounding_tolerance?: number
+          updated_at?: string
+          upload_id?: string | null
+        }
+        Relationships: []
+      }
+      reported_totals: {
+        Row: {
+          amount: number
+          created_at: string
+          credit: number | null
+          debit: number | null
+          id: string
+          ifrs_category: string | null
+          label: string
+          page_number: number | null
+          period: string | null
+          period_label: string | null
+          raw_line: string | null
+          row_number: number | null
+          sheet_name: string | null
+          source: string
+          statement_section: string | null
+          upload_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credit?: number | null
+          debit?: number | null
+          id?: string
+          ifrs_category?: string | null
+          label: string
+          page_number?: number | null
+          period?: string | null
+          period_label?: string | null
+          raw_line?: string | null
+          row_number?: number | null
+          sheet_name?: string | null
+          source?: string
+          statement_section?: string | null
+          upload_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credit?: number | null
+          debit?: number | null
+          id?: string
+          ifrs_category?: string | null
+          label?: string
+          page_number?: number | null
+          period?: string | null
+          period_label?: string | null
+          raw_line?: string | null
+          row_number?: number | null
+          sheet_name?: string | null
+          source?: string
+          statement_section?: string | null
+          upload_id?: string
+        }
+        Relationships: []
+      }
       trial_balances: {
         Row: {
           account_description: string
@@ -139,9 +412,15 @@ export type Database = {
           created_at: string
           credit: number | null
           debit: number | null
+          entity: string | null
+          group_label: string | null
           id: string
           page_number: number | null
           period: string | null
+          period_label: string | null
+          row_number: number | null
+          sheet_name: string | null
+          statement_section: string | null
           upload_id: string | null
         }
         Insert: {
@@ -152,9 +431,15 @@ export type Database = {
           created_at?: string
           credit?: number | null
           debit?: number | null
+          entity?: string | null
+          group_label?: string | null
           id?: string
           page_number?: number | null
           period?: string | null
+          period_label?: string | null
+          row_number?: number | null
+          sheet_name?: string | null
+          statement_section?: string | null
           upload_id?: string | null
         }
         Update: {
@@ -165,20 +450,18 @@ export type Database = {
           created_at?: string
           credit?: number | null
           debit?: number | null
+          entity?: string | null
+          group_label?: string | null
           id?: string
           page_number?: number | null
           period?: string | null
+          period_label?: string | null
+          row_number?: number | null
+          sheet_name?: string | null
+          statement_section?: string | null
           upload_id?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "trial_balances_upload_id_fkey"
-            columns: ["upload_id"]
-            isOneToOne: false
-            referencedRelation: "excel_uploads"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
     }
     Views: {
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FinancialEntry } from '@/types/financial';
+import { classifyEntry, entryGrouping, isUncategorized } from './classification';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const entry = (description: string, changes: Partial<FinancialEntry> = {}): FinancialEntry => ({
+  id: description,
+  date: '2024-12-31',
+  description,
+  amount: 100,
+  ...classifyEntry(description),
+  ...changes
+});
+
+describe('entryGrouping', () => {
+  it('groups a classified line under its statement heading', () => {
+    expect(entryGrouping(entry('Trade receivables'))).toBe('ifrs-full:CurrentAssetsAbstract');
+  });
+
+  it('puts an uncategorized line under no heading', () => {
+    const sundry = entry('Sundry');
+
+    expect(isUncategorized(sundry)).toBe(true);
+    expect(entryGrouping(sundry)).toBeUndefined();
+    // Lines stored while uncategorized lines were filed under current assets
+    expect(entryGrouping({ ...sundry, mainGrouping: 'Current Assets' })).toBeUndefined();
+  });
+});
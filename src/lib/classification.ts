@@ -0,0 +1,88 @@
+import { FinancialEntry } from '@/types/financial';
+import {
+  classify,
+  groupingElementId,
+  IfrsCategoryDefinition,
+  MappingContext,
+  resolveCategory,
+  UNCATEGORIZED
+} from '../../supabase/functions/_shared/ifrsMapping.ts';
+import { AccountRangeService } from '@/services/accountRangeService';
+import { MappingPrecedentService } from '@/services/mappingPrecedentService';
+
+// Everything a company has taught the mapping; the section is per line
+export type CompanyMappingContext = Omit<MappingContext, 'section'>;
+
+// Uploads not filed under a company are mapped by the keyword rules alone
+export async function loadMappingContext(companyId?: string): Promise<CompanyMappingContext> {
+  if (!companyId) return {};
+  const [precedents, accountRanges] = await Promise.all([
+    MappingPrecedentService.getPrecedents(companyId),
+    AccountRangeService.getRules(companyId)
+  ]);
+  return { precedents, accountRanges };
+}
+
+export type ClassificationFields = Pick<
+  FinancialEntry,
+  'ifrsElementId' | 'highLevelCategory' | 'mainGrouping' | 'ifrsCategory' | 'mappingConfidence' | 'mappingRule' | 'contraAccount'
+>;
+
+// The taxonomy category of an entry. Entries saved before they carried an
+// element id are resolved by their category label.
+export const entryCategory = (entry: FinancialEntry): IfrsCategoryDefinition | undefined =>
+  resolveCategory(entry.ifrsElementId, entry.ifrsCategory, entry.highLevelCategory);
+
+// Lines the mapping could not place; they stay out of statement totals
+// until a category is accepted for them
+export const isUncategorized = (entry: FinancialEntry) =>
+  !entry.ifrsCategory || entry.ifrsCategory === UNCATEGORIZED;
+
+// Element id of the statement heading an entry is grouped under; none for
+// an uncategorized line, whatever grouping it was stored with
+export const entryGrouping = (entry: FinancialEntry): string | undefined =>
+  isUncategorized(entry)
+    ? undefined
+    : groupingElementId(entryCategory(entry), entry.mainGrouping, entry.highLevelCategory);
+
+// Fields to spread into an entry a user assigns to a category by hand
+export const manualCategoryFields = (category: IfrsCategoryDefinition): Partial<FinancialEntry> => ({
+  ifrsElementId: category.id,
+  ifrsCategory: category.name,
+  highLevelCategory: category.highLevelCategory,
+  mainGrouping: category.mainGrouping,
+  mappingConfidence: undefined,
+  mappingRule: undefined
+});
+
+// Classify a line and return the fields to spread into a FinancialEntry
+export function classifyEntry(
+  description: string,
+  accountNumber?: string | null,
+  context: MappingContext = {}
+): ClassificationFields {
+  const result = classify(description, accountNumber, context);
+
+  return {
+    ifrsElementId: result.ifrsElementId,
+    highLevelCategory: result.highLevelCategory,
+    mainGrouping: result.mainGrouping,
+    ifrsCategory: result.ifrsCategory,
+    mappingConfidence: result.confidence,
+    mappingRule: result.rule || undefined,
+    contraAccount: result.contra
+  };
+}
+
+// Run the mapping again after its rules changed. Lines a user classified by
+// hand carry no mapping confidence and are left alone.
+export function reclassifyEntries(entries: FinancialEntry[], context: CompanyMappingContext = {}): FinancialEntry[] {
+  return entries.map(entry => entry.mappingConfidence === undefined
+    ? entry
+    : { ...entry, ...classifyEntry(entry.description, entry.accountNumber, {
+      ...context,
+      section: entry.statementSection,
+      groupingHint: entry.groupingHint
+    }) }
+  );
+}
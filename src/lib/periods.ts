@@ -0,0 +1,28 @@
+import { FinancialEntry } from '@/types/financial';
+
+export interface PeriodOption {
+  label: string;
+  endDate: string;
+}
+
+// Distinct reporting periods in the data, latest first
+export function listPeriods(entries: FinancialEntry[]): PeriodOption[] {
+  const periods = new Map<string, string>();
+
+  entries.forEach(entry => {
+    if (!entry.period) return;
+    const endDate = periods.get(entry.period);
+    if (!endDate || entry.date > endDate) {
+      periods.set(entry.period, entry.date);
+    }
+  });
+
+  return Array.from(periods, ([label, endDate]) => ({ label, endDate }))
+    .sort((a, b) => b.endDate.localeCompare(a.endDate));
+}
+
+// Entries without a period (single-period uploads) belong to every period
+export function filterByPeriod<T extends { period?: string }>(entries: T[], period: string | null): T[] {
+  if (!period) return entries;
+  return entries.filter(entry => !entry.period || entry.period === period);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FinancialEntry } from '@/types/financial';
+import { detectSignConvention, expectedBalance, isBalanceException, presentedAmount, presentedTotal } from './presentation';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const entry = (
+  description: string,
+  amount: number,
+  highLevelCategory: FinancialEntry['highLevelCategory'],
+  ifrsElementId: string,
+  changes: Partial<FinancialEntry> = {}
+): FinancialEntry => ({
+  id: description,
+  date: '2024-12-31',
+  description,
+  amount,
+  highLevelCategory,
+  mainGrouping: '',
+  ifrsCategory: '',
+  ifrsElementId,
+  ...changes
+});
+
+const SIGNED = { signed: true, bracketedExpenses: false };
+const PRINTED = { signed: false, bracketedExpenses: false };
+
+const trialBalance = [
+  entry('Cash at bank', 1500, 'Assets', 'ifrs-full:CashAndCashEquivalents'),
+  entry('Accumulated depreciation', -400, 'Assets', 'ifrs-full:PropertyPlantAndEquipment', { contraAccount: true }),
+  entry('Trade payables', -300, 'Liabilities', 'ifrs-full:TradeAndOtherCurrentPayables'),
+  entry('Revenue', -5000, 'Revenue', 'ifrs-full:Revenue'),
+  entry('Sales returns', 200, 'Revenue', 'ifrs-full:Revenue', { contraAccount: true }),
+  entry('Rent', 1000, 'Expenses', 'ifrs-full:AdministrativeExpense')
+];
+
+describe('expectedBalance', () => {
+  it('reverses the normal balance for contra lines', () => {
+    expect(trialBalance.map(expectedBalance)).toEqual(['debit', 'credit', 'credit', 'credit', 'debit', 'debit']);
+  });
+});
+
+describe('detectSignConvention', () => {
+  it('recognises a signed trial balance from its credit-side lines', () => {
+    expect(detectSignConvention(trialBalance)).toEqual(SIGNED);
+  });
+
+  it('recognises statements printing expenses in brackets', () => {
+    expect(detectSignConvention([
+      entry('Revenue', 5000, 'Revenue', 'ifrs-full:Revenue'),
+      entry('Rent', -1000, 'Expenses', 'ifrs-full:AdministrativeExpense'),
+      entry('Wages', -2000, 'Expenses', 'ifrs-full:EmployeeBenefitsExpense')
+    ])).toEqual({ signed: false, bracketedExpenses: true });
+  });
+
+  it('takes positive balances as printed', () => {
+    expect(detectSignConvention([entry('Revenue', 5000, 'Revenue', 'ifrs-full:Revenue')])).toEqual(PRINTED);
+  });
+});
+
+describe('presentedAmount', () => {
+  it('shows signed balances on their category side', () => {
+    expect(trialBalance.map(line => presentedAmount(line, SIGNED))).toEqual([1500, -400, 300, 5000, -200, 1000]);
+    expect(presentedTotal(trialBalance.slice(3, 5), SIGNED)).toBe(4800);
+  });
+
+  it('turns bracketed expenses positive', () => {
+    const rent = entry('Rent', -1000, 'Expenses', 'ifrs-full:AdministrativeExpense');
+
+    expect(presentedAmount(rent, { signed: false, bracketedExpenses: true })).toBe(1000);
+    expect(presentedAmount(rent, PRINTED)).toBe(-1000);
+  });
+});
+
+describe('isBalanceException', () => {
+  it('flags balances on the unexpected side', () => {
+    expect(trialBalance.map(line => isBalanceException(line, SIGNED))).toEqual([false, false, false, false, false, false]);
+    expect(isBalanceException(entry('Bank overdrawn', -50, 'Assets', 'ifrs-full:CashAndCashEquivalents'), SIGNED)).toBe(true);
+    expect(isBalanceException(entry('Supplier on account', 80, 'Liabilities', 'ifrs-full:TradeAndOtherCurrentPayables'), SIGNED)).toBe(true);
+    expect(isBalanceException(entry('Accumulated depreciation', 400, 'Assets', 'ifrs-full:PropertyPlantAndEquipment', { contraAccount: true }), SIGNED))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { FinancialEntry } from '@/types/financial';
+import { HIGH_LEVEL_NORMAL_BALANCE, NormalBalance } from '../../supabase/functions/_shared/ifrsMapping.ts';
+import { entryCategory } from '@/lib/classification';
+
+// How the source shows amounts. A trial balance is signed: debits positive,
+// credits negative. Printed statements show balances positive, sometimes
+// with expenses in brackets.
+export interface SignConvention {
+  signed: boolean;
+  bracketedExpenses: boolean;
+}
+
+// The side a line is expected on: its category's normal balance, reversed
+// for contra lines
+export const expectedBalance = (entry: FinancialEntry): NormalBalance => {
+  const normal = entryCategory(entry)?.normalBalance ?? HIGH_LEVEL_NORMAL_BALANCE[entry.highLevelCategory];
+  if (!entry.contraAccount) return normal;
+  return normal === 'debit' ? 'credit' : 'debit';
+};
+
+const isMostlyNegative = (entries: FinancialEntry[]) => {
+  const nonZero = entries.filter(entry => entry.amount);
+  return nonZero.length > 0 && nonZero.filter(entry => entry.amount < 0).length > nonZero.length / 2;
+};
+
+// Credit-side lines that are mostly negative mean signed data
+export function detectSignConvention(entries: FinancialEntry[]): SignConvention {
+  const signed = isMostlyNegative(entries.filter(entry => expectedBalance(entry) === 'credit'));
+  const bracketedExpenses = !signed && isMostlyNegative(entries.filter(entry =>
+    entry.highLevelCategory === 'Expenses' && expectedBalance(entry) === 'debit'
+  ));
+  return { signed, bracketedExpenses };
+}
+
+// The amount as it adds up on a statement: positive on the high level
+// category's own side, negative when it reduces it (accumulated
+// depreciation, treasury shares, sales returns)
+export function presentedAmount(entry: FinancialEntry, convention: SignConvention): number {
+  const amount = entry.amount || 0;
+  if (convention.signed) {
+    return HIGH_LEVEL_NORMAL_BALANCE[entry.highLevelCategory] === 'credit' ? -amount : amount;
+  }
+  if (convention.bracketedExpenses && entry.highLevelCategory === 'Expenses') {
+    return -amount;
+  }
+  return amount;
+}
+
+export const presentedTotal = (entries: FinancialEntry[], convention: SignConvention) =>
+  entries.reduce((sum, entry) => sum + presentedAmount(entry, convention), 0);
+
+// A balance on the unexpected side, e.g. a debit balance in payables or a
+// credit balance in a bank account
+export function isBalanceException(entry: FinancialEntry, convention: SignConvention): boolean {
+  const amount = presentedAmount(entry, convention);
+  const reducesCategory = expectedBalance(entry) !== HIGH_LEVEL_NORMAL_BALANCE[entry.highLevelCategory];
+  return reducesCategory ? amount > 0 : amount < 0;
+}
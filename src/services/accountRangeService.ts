@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AccountRangeRule, categoryById, findCategory, HighLevelCategory } from '../../supabase/functions/_shared/ifrsMapping.ts';
+
+type AccountRangeRuleRow = {
+  id: string;
+  range_start: number;
+  range_end: number;
+  ifrs_element_id: string | null;
+  ifrs_category: string;
+  high_level_category: string;
+  main_grouping: string;
+};
+
+const toAccountRangeRule = (row: AccountRangeRuleRow): AccountRangeRule => ({
+  id: row.id,
+  start: row.range_start,
+  end: row.range_end,
+  // Rules saved before element ids were stored are resolved by label
+  elementId: row.ifrs_element_id || findCategory(row.ifrs_category, row.high_level_category as HighLevelCategory)?.id || ''
+});
+
+export class AccountRangeService {
+  // A company's chart-of-accounts rules, in account order
+  static async getRules(companyId: string): Promise<AccountRangeRule[]> {
+    const { data, error } = await supabase
+      .from('account_range_rules')
+      .select('*')
+      .eq('company_id', companyId)
+      .order('range_start');
+
+    if (error) {
+      console.error('Error fetching account range rules:', error);
+      return [];
+    }
+
+    return (data || []).map(toAccountRangeRule);
+  }
+
+  static async saveRule(companyId: string, rule: Omit<AccountRangeRule, 'id'>): Promise<AccountRangeRule> {
+    if (rule.start > rule.end) {
+      throw new Error('The first account number must not be greater than the last');
+    }
+    const category = categoryById(rule.elementId);
+    if (!category) {
+      throw new Error(`Unknown IFRS category: ${rule.elementId}`);
+    }
+
+    const { data, error } = await supabase
+      .from('account_range_rules')
+      .insert({
+        company_id: companyId,
+        range_start: rule.start,
+        range_end: rule.end,
+        ifrs_element_id: category.id,
+        ifrs_category: category.name,
+        high_level_category: category.highLevelCategory,
+        main_grouping: category.mainGrouping
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save account range: ${error.message}`);
+    }
+
+    return toAccountRangeRule(data);
+  }
+
+  static async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('account_range_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete account range: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// The company an upload belongs to. Mapping rules, precedents and tolerances
+// are kept under its id, which stays the same from one month's file to the
+// next.
+export interface Company {
+  id: string;
+  name: string;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class CompanyService {
+  static async list(): Promise<Company[]> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching companies:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async get(id: string): Promise<Company | null> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching company:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // The company with this name, created the first time it is used. Names
+  // match regardless of case and surrounding spaces.
+  static async findOrCreate(name: string): Promise<Company> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('A company needs a name');
+    }
+
+    const existing = (await this.list()).find(company => sameName(company.name, trimmed));
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({ name: trimmed })
+      .select('id, name')
+      .single();
+
+    if (error) {
+      // Created by someone else since the list was read
+      const created = (await this.list()).find(company => sameName(company.name, trimmed));
+      if (created) return created;
+      throw new Error(`Failed to save company: ${error.message}`);
+    }
+
+    return data;
+  }
+}
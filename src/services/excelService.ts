@@ -1,15 +1,134 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import { ImportTemplateService } from '@/services/importTemplateService';
+import { Cell, RowError } from '../../supabase/functions/_shared/sheetLayout.ts';
+import { CSV_SHEET_NAME, readCsvSample } from '../../supabase/functions/_shared/csv.ts';
+import { readWorksheet } from '../../supabase/functions/_shared/xlsxSheet.ts';
+import {
+  detectImportSettings,
+  detectUploadPeriod,
+  guessSheetRole,
+  ImportSettings,
+  ImportTemplate,
+  matchTemplate,
+  SheetRole
+} from '../../supabase/functions/_shared/importTemplates.ts';
+import { DetectedPeriod } from '../../supabase/functions/_shared/periods.ts';
 
 export interface UploadResult {
   success: boolean;
   error?: string;
   records_count?: number;
   sheets_count?: number;
+  // Names of the saved templates the file was read with
+  templates_used?: string[];
+  // Rows that could not be read, up to the number the upload keeps
+  row_errors?: RowError[];
+  row_errors_count?: number;
 }
 
+export interface SheetPreview {
+  name: string;
+  // The top of the sheet, for the column mapping step
+  rows: Cell[][];
+  rowCount: number;
+  settings: ImportSettings;
+  // The saved template whose header the sheet matches
+  template?: ImportTemplate;
+  // Guessed from the sheet name for the user to confirm
+  role: SheetRole;
+}
+
+// What the upload wizard confirmed, by sheet name
+export interface UploadChoices {
+  sheets?: Record<string, ImportSettings>;
+  roles?: Record<string, SheetRole>;
+  // Period end of the current trial balance, as confirmed
+  periodEnd?: string;
+  // Company the upload is filed under
+  companyId?: string;
+}
+
+// Enough rows to find a header under a title block and see some data
+const PREVIEW_ROWS = 25;
+
+// process-excel stops between sheets, or between slices of a large sheet,
+// when its time runs low; it is invoked again until every sheet is done. process-csv always finishes in one round.
+const MAX_PROCESSING_ROUNDS = 50;
+
+export type ProcessingProgress = (processedSheets: number, sheetsCount: number) => void;
+
 class ExcelService {
-  async uploadExcelFile(file: File): Promise<UploadResult> {
+  // Read a workbook or CSV file in the browser and propose settings for each
+  // sheet: the saved template its header matches, else a detected layout
+  async previewWorkbook(file: File): Promise<SheetPreview[]> {
+    const sheets = await this.readSheets(file);
+    const templates = await ImportTemplateService.list();
+
+    return sheets.map(({ name, rows, rowCount }) => {
+      // CSV files have no sheet name for a selector to match
+      const isCsv = this.isCsvFile(file);
+      const template = matchTemplate(templates, rows, isCsv ? undefined : name);
+      const settings = template || detectImportSettings(rows);
+
+      return {
+        name,
+        rows: rows.slice(0, PREVIEW_ROWS),
+        rowCount,
+        settings,
+        template,
+        role: isCsv ? 'current_tb' : guessSheetRole(name, settings.layout)
+      };
+    });
+  }
+
+  // The period the previewed sheets report, for the wizard to confirm.
+  // process-csv and process-excel detect it the same way when none is given.
+  detectPeriod(filename: string, sheets: SheetPreview[], roles?: Record<string, SheetRole>): DetectedPeriod {
+    return detectUploadPeriod(filename, sheets.map(sheet => ({
+      name: this.isCsvName(filename) ? undefined : sheet.name,
+      rows: sheet.rows,
+      settings: sheet.settings,
+      role: roles?.[sheet.name] || sheet.role
+    })));
+  }
+
+  // Files are read the way process-csv and process-excel read them, so the
+  // header row is found on the same record. Only the first records of a CSV
+  // file are kept, as process-csv settles its layout from the same ones.
+  private async readSheets(file: File): Promise<Array<{ name: string; rows: Cell[][]; rowCount: number }>> {
+    if (this.isCsvFile(file)) {
+      const { rows, recordCount } = await readCsvSample(file.stream());
+      return [{ name: CSV_SHEET_NAME, rows, rowCount: recordCount }];
+    }
+
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellStyles: true, cellNF: true });
+    return workbook.SheetNames.map(name => {
+      const { rows } = readWorksheet(workbook.Sheets[name]);
+      return { name, rows, rowCount: rows.length };
+    });
+  }
+
+  private isCsvFile(file: File) {
+    return this.isCsvName(file.name) ||
+      file.type === 'text/csv' ||
+      file.type === 'application/csv';
+  }
+
+  // Stored uploads are only known by name
+  private isCsvName(filename: string) {
+    return filename.toLowerCase().endsWith('.csv');
+  }
+
+  // Settings and roles are passed by sheet name; sheets without settings are
+  // read with the template their header matches, or detected, and sheets
+  // without a role get a guess
+  async uploadExcelFile(
+    file: File,
+    choices: UploadChoices = {},
+    onProgress?: ProcessingProgress
+  ): Promise<UploadResult> {
     try {
       console.log('Starting Excel file upload:', file.name, 'Size:', file.size);
 
@@ -20,7 +139,8 @@ class ExcelService {
         .insert({
           filename: file.name,
           file_size: file.size,
-          processing_status: 'uploading'
+          processing_status: 'uploading',
+          company_id: choices.companyId || null
         })
         .select()
         .single();
@@ -59,37 +179,10 @@ class ExcelService {
         })
         .eq('id', upload.id);
 
-      // Determine if this is a CSV file or Excel file
-      const isCSV = file.name.toLowerCase().endsWith('.csv') || 
-                   file.type === 'text/csv' || 
-                   file.type === 'application/csv';
-
       console.log('Processing file with upload_id:', upload.id);
-      console.log('File type detected:', isCSV ? 'CSV' : 'Excel');
-
-      // Choose the appropriate function based on file type
-      const functionName = isCSV ? 'process-csv' : 'process-excel';
-      console.log('Invoking', functionName, 'function...');
-
-      let result;
-      if (isCSV) {
-        // For CSV files, send the file directly to process-csv function
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const { data, error } = await supabase.functions.invoke('process-csv', {
-          body: formData
-        });
-        
-        result = { data, error };
-      } else {
-        // For Excel files, send upload_id to process-excel function
-        const { data, error } = await supabase.functions.invoke('process-excel', {
-          body: { upload_id: upload.id }
-        });
-        
-        result = { data, error };
-      }
+
+      // Both file types are read from storage by their edge function
+      const result = await this.processUpload(upload.id, file.name, choices, onProgress);
 
       console.log('Function invocation completed');
       console.log('Function response data:', result.data);
@@ -111,7 +204,10 @@ class ExcelService {
       return {
         success: true,
         records_count: result.data?.total_records_count || result.data?.rowCount || 0,
-        sheets_count: result.data?.sheets_count || 1
+        sheets_count: result.data?.sheets_count || 1,
+        templates_used: result.data?.templates_used || [],
+        row_errors: result.data?.row_errors || [],
+        row_errors_count: result.data?.row_errors_count ?? result.data?.row_errors?.length ?? 0
       };
 
     } catch (error) {
@@ -120,6 +216,48 @@ class ExcelService {
     }
   }
 
+  // Run process-csv or process-excel until it has worked through every sheet.
+  // Each round continues after the sheets the last one finished.
+  async processUpload(
+    uploadId: string,
+    filename: string,
+    { sheets, roles, periodEnd }: UploadChoices = {},
+    onProgress?: ProcessingProgress
+  ) {
+    const functionName = this.isCsvName(filename) ? 'process-csv' : 'process-excel';
+    const templatesUsed = new Set<string>();
+    // Sheets finished and rows of the next one stored after the last round
+    let processedBefore = { sheets: -1, rows: 0 };
+
+    console.log('Invoking', functionName, 'function...');
+
+    for (let round = 0; round < MAX_PROCESSING_ROUNDS; round++) {
+      const { data, error } = await supabase.functions.invoke(functionName, {
+        body: { upload_id: uploadId, sheets, roles, period_end: periodEnd }
+      });
+
+      if (error || data?.error) {
+        return { data, error };
+      }
+
+      (data?.templates_used || []).forEach((name: string) => templatesUsed.add(name));
+      onProgress?.(data?.processed_sheets_count || 0, data?.sheets_count || 0);
+
+      if (data?.complete !== false) {
+        return { data: { ...data, templates_used: [...templatesUsed] }, error: null };
+      }
+
+      const processed = { sheets: data.processed_sheets_count, rows: data.sheet_row_offset || 0 };
+      if (processed.sheets < processedBefore.sheets ||
+        (processed.sheets === processedBefore.sheets && processed.rows <= processedBefore.rows)) {
+        return { data: { error: 'Processing stopped making progress' }, error: null };
+      }
+      processedBefore = processed;
+    }
+
+    return { data: { error: 'Processing did not finish' }, error: null };
+  }
+
   private async updateUploadStatus(uploadId: string, status: string, errorMessage?: string) {
     try {
       const updateData: any = {
@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ImportSettings,
+  ImportTemplate,
+  toImportTemplate
+} from '../../supabase/functions/_shared/importTemplates.ts';
+
+export interface TemplateToSave extends ImportSettings {
+  name: string;
+  fingerprint: string;
+  sheetSelector: string | null;
+}
+
+export class ImportTemplateService {
+  static async list(): Promise<ImportTemplate[]> {
+    const { data, error } = await supabase
+      .from('import_templates')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching import templates:', error);
+      return [];
+    }
+
+    return (data || []).map(toImportTemplate);
+  }
+
+  // Save a template under its header fingerprint; saving again for the same
+  // header replaces it
+  static async save(template: TemplateToSave): Promise<ImportTemplate> {
+    if (!template.fingerprint) {
+      throw new Error('A template needs a header row to be recognised');
+    }
+
+    const { data, error } = await supabase
+      .from('import_templates')
+      .upsert({
+        name: template.name,
+        header_fingerprint: template.fingerprint,
+        sheet_selector: template.sheetSelector,
+        header_row: template.layout.headerRow,
+        column_roles: template.layout.columns,
+        sign_convention: template.amountSign,
+        number_locale: template.numberLocale,
+        date_order: template.dateOrder,
+        skip_rows: template.skipRows,
+        period_source: template.periodSource,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'header_fingerprint' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save import template: ${error.message}`);
+    }
+
+    return toImportTemplate(data);
+  }
+}
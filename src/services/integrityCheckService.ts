@@ -0,0 +1,203 @@
+import { FinancialEntry, ToleranceSettings } from '@/types/financial';
+import { ReconciliationResult } from '@/components/mapping/ReconciliationBadge';
+import { listPeriods, filterByPeriod } from '@/lib/periods';
+import { ReconciliationService, DEFAULT_TOLERANCE } from './reconciliationService';
+import { detectSignConvention, presentedTotal, SignConvention } from '@/lib/presentation';
+import { entryCategory } from '@/lib/classification';
+
+// A cross-statement check. Both sides are compared with the reconciliation
+// tolerances, so the result reuses ReconciliationResult: `category` is the
+// check name, `mappedTotal` the left side and `reportedTotal` the right side.
+export interface IntegrityCheckResult extends ReconciliationResult {
+  ruleId: string;
+  description: string;
+  leftLabel: string;
+  rightLabel: string;
+  entries: FinancialEntry[];
+}
+
+export interface IntegrityCheckContext {
+  // All periods; rules pick the ones they need
+  entries: FinancialEntry[];
+  period: string | null;
+  tolerance: ToleranceSettings;
+}
+
+interface RuleOutcome {
+  left: number;
+  right: number;
+  entries: FinancialEntry[];
+}
+
+export interface IntegrityRule {
+  id: string;
+  name: string;
+  description: string;
+  leftLabel: string;
+  rightLabel: string;
+  // Returns a reason string when the data cannot support the check
+  evaluate: (context: IntegrityCheckContext) => RuleOutcome | string;
+}
+
+export interface SkippedIntegrityCheck {
+  ruleId: string;
+  name: string;
+  reason: string;
+}
+
+const sum = (entries: FinancialEntry[]) => entries.reduce((total, entry) => total + (entry.amount || 0), 0);
+
+const inSection = (entry: FinancialEntry, ...sections: FinancialEntry['statementSection'][]) =>
+  !entry.statementSection || sections.includes(entry.statementSection);
+
+const isRetainedEarnings = (entry: FinancialEntry) =>
+  entryCategory(entry)?.id === 'ifrs-full:RetainedEarnings' || /retained (earnings|profits?)|accumulated (profits?|losses)/i.test(entry.description);
+
+const isClosingCashLine = (entry: FinancialEntry) =>
+  /cash(?: and cash equivalents)?,? at (?:the )?end of (?:the )?(?:year|period)/i.test(entry.description);
+
+const profitFor = (entries: FinancialEntry[], convention: SignConvention) => {
+  const revenue = entries.filter(entry => entry.highLevelCategory === 'Revenue');
+  const expenses = entries.filter(entry => entry.highLevelCategory === 'Expenses');
+  return {
+    profit: presentedTotal(revenue, convention) - presentedTotal(expenses, convention),
+    entries: [...revenue, ...expenses]
+  };
+};
+
+const formatCurrency = (amount: number) => 
+  new Intl.NumberFormat('en-US', { 
+    style: 'currency', 
+    currency: 'USD',
+    minimumFractionDigits: 0 
+  }).format(amount);
+
+export const INTEGRITY_RULES: IntegrityRule[] = [
+  {
+    id: 'balance-sheet-equation',
+    name: 'Assets = Liabilities + Equity',
+    description: 'Total assets agree to total liabilities and equity. For a trial balance the current period result is added to equity.',
+    leftLabel: 'Total assets',
+    rightLabel: 'Liabilities + equity',
+    evaluate: ({ entries, period }) => {
+      const current = filterByPeriod(entries, period).filter(entry => inSection(entry, 'financial_position'));
+      const assets = current.filter(entry => entry.highLevelCategory === 'Assets');
+      const liabilitiesAndEquity = current.filter(entry => entry.highLevelCategory === 'Liabilities' || entry.highLevelCategory === 'Equity');
+      if (assets.length === 0 || liabilitiesAndEquity.length === 0) return 'No balance sheet lines for this period';
+
+      const convention = detectSignConvention(current);
+      // Unclosed P&L accounts only appear in a trial balance
+      const unclosed = convention.signed && current.some(entry => !entry.statementSection)
+        ? profitFor(current.filter(entry => !entry.statementSection), convention)
+        : { profit: 0, entries: [] };
+
+      return {
+        left: presentedTotal(assets, convention),
+        right: presentedTotal(liabilitiesAndEquity, convention) + unclosed.profit,
+        entries: [...assets, ...liabilitiesAndEquity, ...unclosed.entries]
+      };
+    }
+  },
+  {
+    id: 'profit-to-retained-earnings',
+    name: 'Profit = movement in retained earnings',
+    description: 'Profit for the period agrees to the change in retained earnings from the prior period. Dividends and transfers show up as a difference.',
+    leftLabel: 'Profit for the period',
+    rightLabel: 'Movement in retained earnings',
+    evaluate: ({ entries, period }) => {
+      const periods = listPeriods(entries);
+      const index = periods.findIndex(option => option.label === period);
+      if (periods.length < 2 || index < 0 || index === periods.length - 1) return 'Needs a comparative period';
+
+      const current = filterByPeriod(entries, period);
+      const prior = filterByPeriod(entries, periods[index + 1].label);
+      const convention = detectSignConvention(current);
+      const result = profitFor(current.filter(entry => inSection(entry, 'profit_or_loss')), convention);
+      const closing = current.filter(entry => inSection(entry, 'financial_position') && isRetainedEarnings(entry));
+      const opening = prior.filter(entry => inSection(entry, 'financial_position') && isRetainedEarnings(entry));
+      if (result.entries.length === 0) return 'No profit or loss lines for this period';
+      if (closing.length === 0 || opening.length === 0) return 'No retained earnings line in both periods';
+
+      return {
+        left: result.profit,
+        right: presentedTotal(closing, convention) - presentedTotal(opening, detectSignConvention(prior)),
+        entries: [...result.entries, ...closing, ...opening]
+      };
+    }
+  },
+  {
+    id: 'cash-flow-to-balance-sheet',
+    name: 'Cash flow closing cash = balance sheet cash',
+    description: 'Cash at the end of the period in the statement of cash flows agrees to cash and cash equivalents on the balance sheet.',
+    leftLabel: 'Closing cash (cash flows)',
+    rightLabel: 'Cash (balance sheet)',
+    evaluate: ({ entries, period }) => {
+      const current = filterByPeriod(entries, period);
+      const closingCash = current.filter(entry => entry.statementSection === 'cash_flows' && isClosingCashLine(entry));
+      const balanceSheetCash = current.filter(entry =>
+        inSection(entry, 'financial_position') && entryCategory(entry)?.id === 'ifrs-full:CashAndCashEquivalents'
+      );
+      if (closingCash.length === 0) return 'No closing cash line in a statement of cash flows';
+      if (balanceSheetCash.length === 0) return 'No cash and cash equivalents on the balance sheet';
+
+      return { left: sum(closingCash), right: sum(balanceSheetCash), entries: [...closingCash, ...balanceSheetCash] };
+    }
+  },
+  {
+    id: 'trial-balance-debits-credits',
+    name: 'Trial balance debits = credits',
+    description: 'The debit balances of the trial balance agree to its credit balances.',
+    leftLabel: 'Debits',
+    rightLabel: 'Credits',
+    evaluate: ({ entries, period }) => {
+      const current = filterByPeriod(entries, period).filter(entry => !entry.statementSection);
+      if (current.length === 0 || !detectSignConvention(current).signed) return 'Not a trial balance with debit and credit balances';
+
+      const debits = current.filter(entry => entry.amount > 0);
+      const credits = current.filter(entry => entry.amount < 0);
+      return { left: sum(debits), right: -sum(credits), entries: current };
+    }
+  }
+];
+
+export class IntegrityCheckService {
+  static runChecks(
+    entries: FinancialEntry[],
+    period: string | null,
+    tolerance: ToleranceSettings = DEFAULT_TOLERANCE,
+    rules: IntegrityRule[] = INTEGRITY_RULES
+  ): { results: IntegrityCheckResult[]; skipped: SkippedIntegrityCheck[] } {
+    const context: IntegrityCheckContext = { entries, period, tolerance };
+    const results: IntegrityCheckResult[] = [];
+    const skipped: SkippedIntegrityCheck[] = [];
+
+    rules.forEach(rule => {
+      const outcome = rule.evaluate(context);
+      if (typeof outcome === 'string') {
+        skipped.push({ ruleId: rule.id, name: rule.name, reason: outcome });
+        return;
+      }
+
+      const difference = outcome.left - outcome.right;
+      const { status, note } = ReconciliationService.assessDifference(difference, outcome.right, tolerance);
+
+      results.push({
+        ruleId: rule.id,
+        category: rule.name,
+        description: rule.description,
+        leftLabel: rule.leftLabel,
+        rightLabel: rule.rightLabel,
+        mappedTotal: outcome.left,
+        reportedTotal: outcome.right,
+        difference,
+        status,
+        thresholdNote: note,
+        contributingItems: outcome.entries.map(entry => `${entry.description} - ${formatCurrency(entry.amount)}`),
+        sourcePages: [],
+        entries: outcome.entries
+      });
+    });
+
+    return { results, skipped };
+  }
+}
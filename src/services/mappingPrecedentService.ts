@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FinancialEntry } from '@/types/financial';
+import {
+  findCategory,
+  HighLevelCategory,
+  MappingPrecedent,
+  normalizeDescription,
+  resolveCategory
+} from '../../supabase/functions/_shared/ifrsMapping.ts';
+
+type MappingPrecedentRow = {
+  id: string;
+  normalized_description: string;
+  account_number: string;
+  ifrs_element_id: string | null;
+  ifrs_category: string;
+  high_level_category: string;
+  main_grouping: string;
+};
+
+const toMappingPrecedent = (row: MappingPrecedentRow): MappingPrecedent => ({
+  id: row.id,
+  description: row.normalized_description,
+  accountNumber: row.account_number,
+  // Corrections saved before element ids were stored are resolved by label
+  elementId: row.ifrs_element_id || findCategory(row.ifrs_category, row.high_level_category as HighLevelCategory)?.id || ''
+});
+
+export class MappingPrecedentService {
+  static async getPrecedents(companyId: string): Promise<MappingPrecedent[]> {
+    const { data, error } = await supabase
+      .from('mapping_precedents')
+      .select('*')
+      .eq('company_id', companyId);
+
+    if (error) {
+      console.error('Error fetching mapping precedents:', error);
+      return [];
+    }
+
+    return (data || []).map(toMappingPrecedent);
+  }
+
+  // Remember a manual reclassification. A later correction of the same line
+  // replaces the earlier one.
+  static async recordCorrection(
+    companyId: string,
+    entry: Pick<FinancialEntry, 'description' | 'accountNumber' | 'ifrsElementId' | 'highLevelCategory' | 'mainGrouping' | 'ifrsCategory'>
+  ): Promise<void> {
+    const category = resolveCategory(entry.ifrsElementId, entry.ifrsCategory, entry.highLevelCategory);
+    if (!category) {
+      throw new Error(`Unknown IFRS category: ${entry.ifrsCategory}`);
+    }
+
+    const { error } = await supabase
+      .from('mapping_precedents')
+      .upsert({
+        company_id: companyId,
+        normalized_description: normalizeDescription(entry.description),
+        account_number: (entry.accountNumber || '').trim(),
+        ifrs_element_id: category.id,
+        ifrs_category: category.name,
+        high_level_category: category.highLevelCategory,
+        main_grouping: category.mainGrouping,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'company_id,normalized_description,account_number' });
+
+    if (error) {
+      throw new Error(`Failed to save mapping precedent: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FinancialEntry } from '@/types/financial';
+import { MappingSuggestionService } from './mappingSuggestionService';
+
+const invoke = vi.hoisted(() => vi.fn());
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke } }
+}));
+
+const ENDPOINT = 'http://localhost:54321/functions/v1/chat-with-groq';
+
+const entry = (id: string, description: string, amount: number, changes: Partial<FinancialEntry> = {}): FinancialEntry => ({
+  id,
+  date: '2024-12-31',
+  description,
+  amount,
+  highLevelCategory: 'Assets',
+  mainGrouping: 'Uncategorized',
+  ifrsCategory: 'Uncategorized',
+  ...changes
+});
+
+// Stands in for chat-with-groq: answers each request with the completion
+// built from the lines it was asked about
+const stubEndpoint = (reply: (lines: { id: string; description: string }[]) => unknown, status = 200) => {
+  const requests: Record<string, unknown>[] = [];
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    requests.push(body);
+    const lines = JSON.parse(body.prompt.slice(body.prompt.indexOf('Lines:\n') + 'Lines:\n'.length));
+    const completion = reply(lines);
+    return new Response(JSON.stringify({ completion: typeof completion === 'string' ? completion : JSON.stringify(completion) }), {
+      status,
+      statusText: status === 200 ? 'OK' : 'Internal Server Error'
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { requests, fetchMock };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  invoke.mockReset();
+});
+
+describe('MappingSuggestionService.suggest', () => {
+  it('asks about each uncategorized line once and maps the reply to categories', async () => {
+    const { requests, fetchMock } = stubEndpoint(lines => ({
+      suggestions: lines.map(line => line.description.startsWith('Trade creditors')
+        ? { id: line.id, category: 'Trade and Other Payables', high_level_category: 'Liabilities', rationale: 'Amounts owed to suppliers', confidence: 0.9 }
+        : { id: line.id, category: 'Revenue', high_level_category: 'Revenue', rationale: 'Sales', confidence: 1.4 })
+    }));
+
+    const suggestions = await MappingSuggestionService.suggest([
+      entry('1', 'Trade creditors', -1200, { period: '2024' }),
+      entry('2', 'Trade creditors', -900, { period: '2023' }),
+      entry('3', 'Sales of goods', -5000),
+      entry('4', 'Cash at bank', 300, { ifrsCategory: 'Cash and Cash Equivalents', ifrsElementId: 'ifrs-full:CashAndCashEquivalents' })
+    ], { endpoint: ENDPOINT });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(ENDPOINT);
+    expect(requests[0]).toMatchObject({ temperature: 0, response_format: { type: 'json_object' } });
+    expect(requests[0].prompt).not.toContain('Cash at bank');
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({
+        entryIds: ['1', '2'],
+        ifrsElementId: 'ifrs-full:TradeAndOtherCurrentPayables',
+        highLevelCategory: 'Liabilities',
+        rationale: 'Amounts owed to suppliers',
+        confidence: 0.9
+      }),
+      expect.objectContaining({
+        entryIds: ['3'],
+        ifrsElementId: 'ifrs-full:Revenue',
+        confidence: 1
+      })
+    ]);
+  });
+
+  it('sends lines in batches', async () => {
+    const { fetchMock } = stubEndpoint(() => ({ suggestions: [] }));
+
+    await MappingSuggestionService.suggest(
+      ['Rent', 'Rates', 'Insurance'].map((description, index) => entry(String(index), description, 100)),
+      { endpoint: ENDPOINT, batchSize: 2 }
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores a reply that is not JSON', async () => {
+    stubEndpoint(() => 'I am not sure how to classify these lines.');
+
+    await expect(MappingSuggestionService.suggest([entry('1', 'Sundry', 10)], { endpoint: ENDPOINT })).resolves.toEqual([]);
+  });
+
+  it('drops suggestions for unknown lines and categories', async () => {
+    stubEndpoint(lines => '```json\n' + JSON.stringify({
+      suggestions: [
+        { id: 'L99', category: 'Revenue' },
+        { id: lines[0].id, category: 'Made-up Category' },
+        { id: lines[1].id, category: 'Finance Costs', confidence: 'high' }
+      ]
+    }) + '\n```');
+
+    const suggestions = await MappingSuggestionService.suggest(
+      [entry('1', 'Sundry', 10), entry('2', 'Bank interest', 25)],
+      { endpoint: ENDPOINT }
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ entryIds: ['2'], ifrsElementId: 'ifrs-full:FinanceCosts', confidence: 0.5, rationale: '' });
+  });
+
+  it('throws when the endpoint fails', async () => {
+    stubEndpoint(() => '', 500);
+
+    await expect(MappingSuggestionService.suggest([entry('1', 'Sundry', 10)], { endpoint: ENDPOINT }))
+      .rejects.toThrow('Suggestion request failed: 500 Internal Server Error');
+  });
+
+  it('calls chat-with-groq without an endpoint and reports its errors', async () => {
+    invoke.mockResolvedValue({ data: { error: 'rate limited' }, error: null });
+
+    await expect(MappingSuggestionService.suggest([entry('1', 'Sundry', 10)]))
+      .rejects.toThrow('Groq API error: rate limited');
+    expect(invoke).toHaveBeenCalledWith('chat-with-groq', expect.objectContaining({ body: expect.any(Object) }));
+  });
+});
@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FinancialEntry } from '@/types/financial';
+import {
+  findCategory,
+  HighLevelCategory,
+  IFRS_CATEGORIES,
+  normalizeDescription
+} from '../../supabase/functions/_shared/ifrsMapping.ts';
+import { isUncategorized } from '@/lib/classification';
+
+export interface MappingSuggestion {
+  // Every entry with the same description and account number
+  entryIds: string[];
+  description: string;
+  accountNumber?: string;
+  amount: number;
+  ifrsElementId: string;
+  ifrsCategory: string;
+  highLevelCategory: HighLevelCategory;
+  mainGrouping: string;
+  rationale: string;
+  confidence: number;
+}
+
+export interface SuggestionOptions {
+  // Posts straight to this URL instead of the chat-with-groq edge function,
+  // e.g. a local stub during development
+  endpoint?: string;
+  model?: string;
+  batchSize?: number;
+}
+
+// One item of the model's reply, before validation
+interface RawSuggestion {
+  id?: unknown;
+  category?: unknown;
+  high_level_category?: unknown;
+  rationale?: unknown;
+  confidence?: unknown;
+}
+
+interface SuggestionLine {
+  key: string;
+  description: string;
+  accountNumber?: string;
+  amount: number;
+  entryIds: string[];
+}
+
+const DEFAULT_MODEL = 'llama-3.1-70b-versatile';
+const DEFAULT_BATCH_SIZE = 40;
+const CHAT_FUNCTION_URL = import.meta.env.VITE_CHAT_FUNCTION_URL as string | undefined;
+
+const SYSTEM_PROMPT = `You classify trial balance and financial statement lines under IFRS.
+Pick exactly one category for each line from the list you are given, using the exact category and high level names.
+Use the sign: in a trial balance debits are positive and credits negative, so a credit balance is rarely an asset.
+Reply with JSON only, in this shape:
+{"suggestions":[{"id":"L1","category":"Trade and Other Payables","high_level_category":"Liabilities","rationale":"one short sentence","confidence":0.8}]}
+Confidence is between 0 and 1. Leave out a line rather than guess.`;
+
+// One line per distinct description and account number; the comparative
+// period of a line is classified together with it
+export const groupSuggestionLines = (entries: FinancialEntry[]): SuggestionLine[] => {
+  const lines = new Map<string, SuggestionLine>();
+
+  entries.forEach(entry => {
+    const id = `${normalizeDescription(entry.description)}|${entry.accountNumber || ''}`;
+    const line = lines.get(id);
+    if (line) {
+      line.entryIds.push(entry.id);
+      return;
+    }
+    lines.set(id, {
+      key: `L${lines.size + 1}`,
+      description: entry.description,
+      accountNumber: entry.accountNumber,
+      amount: entry.amount,
+      entryIds: [entry.id]
+    });
+  });
+
+  return Array.from(lines.values());
+};
+
+export const buildSuggestionPrompt = (lines: SuggestionLine[]): string => {
+  const categories = IFRS_CATEGORIES.map(category => `${category.highLevelCategory}: ${category.name}`).join('\n');
+  const rows = lines.map(line => ({
+    id: line.key,
+    description: line.description,
+    account_number: line.accountNumber || null,
+    amount: Math.abs(line.amount),
+    sign: line.amount < 0 ? 'negative' : 'positive'
+  }));
+
+  return `Categories:\n${categories}\n\nLines:\n${JSON.stringify(rows, null, 2)}`;
+};
+
+// Models wrap JSON in code fences or add a sentence before it; take the
+// outermost object
+const extractJson = (completion: string): unknown => {
+  const start = completion.indexOf('{');
+  const end = completion.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(completion.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+// Keep suggestions for lines that were asked about and categories that exist
+export const parseSuggestions = (completion: string, lines: SuggestionLine[]): MappingSuggestion[] => {
+  const parsed = extractJson(completion) as { suggestions?: unknown } | null;
+  if (!parsed || !Array.isArray(parsed.suggestions)) return [];
+
+  const byKey = new Map(lines.map(line => [line.key, line]));
+  const suggestions: MappingSuggestion[] = [];
+
+  parsed.suggestions.forEach((item: RawSuggestion) => {
+    const line = byKey.get(String(item?.id));
+    const name = String(item?.category || '');
+    const category = findCategory(name, item?.high_level_category as HighLevelCategory) || findCategory(name);
+    if (!line || !category) return;
+
+    byKey.delete(line.key);
+    const confidence = Number(item.confidence);
+    suggestions.push({
+      entryIds: line.entryIds,
+      description: line.description,
+      accountNumber: line.accountNumber,
+      amount: line.amount,
+      ifrsElementId: category.id,
+      ifrsCategory: category.name,
+      highLevelCategory: category.highLevelCategory,
+      mainGrouping: category.mainGrouping,
+      rationale: String(item.rationale || ''),
+      confidence: isNaN(confidence) ? 0.5 : Math.min(Math.max(confidence, 0), 1)
+    });
+  });
+
+  return suggestions;
+};
+
+const requestCompletion = async (body: Record<string, unknown>, endpoint?: string): Promise<string> => {
+  const url = endpoint || CHAT_FUNCTION_URL;
+
+  if (url) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`Suggestion request failed: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (data?.error) throw new Error(data.error);
+    return data?.completion || '';
+  }
+
+  const { data, error } = await supabase.functions.invoke('chat-with-groq', { body });
+  if (error) {
+    throw new Error(`Chat function error: ${error.message}`);
+  }
+  if (data?.error) {
+    throw new Error(`Groq API error: ${data.error}`);
+  }
+  return data?.completion || '';
+};
+
+export class MappingSuggestionService {
+  // Ask the model for a category for every uncategorized line
+  static async suggest(entries: FinancialEntry[], options: SuggestionOptions = {}): Promise<MappingSuggestion[]> {
+    const lines = groupSuggestionLines(entries.filter(isUncategorized));
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const suggestions: MappingSuggestion[] = [];
+
+    for (let start = 0; start < lines.length; start += batchSize) {
+      const batch = lines.slice(start, start + batchSize);
+      const completion = await requestCompletion({
+        model: options.model || DEFAULT_MODEL,
+        system: SYSTEM_PROMPT,
+        prompt: buildSuggestionPrompt(batch),
+        response_format: { type: 'json_object' },
+        temperature: 0,
+        top_p: 1,
+        max_tokens: 4096
+      }, options.endpoint);
+
+      suggestions.push(...parseSuggestions(completion, batch));
+    }
+
+    return suggestions;
+  }
+}
@@ -0,0 +1,83 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import { TextItem } from '../../supabase/functions/_shared/pdfTable.ts';
+
+// Minimal view of a pdfjs page, so the legacy and modern builds both fit
+interface RenderablePage {
+  getViewport: (params: { scale: number }) => { width: number; height: number };
+  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: unknown; canvas: HTMLCanvasElement }) => { promise: Promise<void> };
+}
+
+export interface OcrPageResult {
+  textItems: TextItem[];
+  // Mean word confidence between 0 and 1
+  confidence: number;
+}
+
+// Render at 2x (about 144 dpi), enough for Tesseract to read statement print
+const OCR_SCALE = 2;
+
+// A text layer with fewer characters than this is taken to be a scan
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Upper bound on confidence_score for entries read by OCR
+export const OCR_MAX_CONFIDENCE = 0.6;
+
+export const needsOcr = (textItems: TextItem[]): boolean =>
+  textItems.reduce((count, item) => count + item.text.trim().length, 0) < MIN_TEXT_LAYER_CHARS;
+
+// Worker, core and language data are served by the app itself (see
+// tesseractAssets in vite.config.ts), so OCR never fetches from a CDN
+const TESSERACT_PATH = `${import.meta.env.BASE_URL}tesseract`;
+
+// Tesseract's WASM build runs inside its own web worker. It is only loaded
+// when a document actually has scanned pages.
+export const createOcrWorker = async (): Promise<TesseractWorker> => {
+  const { createWorker, OEM } = await import('tesseract.js');
+  return createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: `${TESSERACT_PATH}/worker.min.js`,
+    corePath: `${TESSERACT_PATH}/core`,
+    langPath: `${TESSERACT_PATH}/lang`,
+    // A worker started from a blob could not resolve the paths above
+    workerBlobURL: false
+  });
+};
+
+// Rasterise a page with pdfjs and OCR it. Tesseract reports word boxes in
+// canvas pixels from the top left; they are converted to PDF user space
+// (points from the bottom left) so they match getTextContent() items.
+export const ocrPage = async (page: RenderablePage, worker: TesseractWorker): Promise<OcrPageResult> => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available for OCR');
+  }
+
+  await page.render({ canvasContext: context, viewport, canvas }).promise;
+  const { data } = await worker.recognize(canvas);
+
+  const pageHeight = viewport.height / OCR_SCALE;
+  const words = (data.words || []).filter(word => word.text.trim() !== '');
+
+  const textItems: TextItem[] = words.map(word => ({
+    text: word.text,
+    x: word.bbox.x0 / OCR_SCALE,
+    y: pageHeight - word.bbox.y1 / OCR_SCALE,
+    width: (word.bbox.x1 - word.bbox.x0) / OCR_SCALE,
+    height: (word.bbox.y1 - word.bbox.y0) / OCR_SCALE
+  }));
+
+  const confidence = words.length > 0
+    ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length / 100
+    : 0;
+
+  return { textItems, confidence };
+};
+
+// OCR entries are never scored above OCR_MAX_CONFIDENCE and are scaled down
+// further by how sure Tesseract was about the page
+export const ocrConfidence = (score: number | undefined, pageConfidence: number): number =>
+  Math.round(Math.min(score ?? 0.8, OCR_MAX_CONFIDENCE) * pageConfidence * 100) / 100;
@@ -1,119 +1,70 @@
 import { FinancialEntry, FinancialData } from '@/types/financial';
-
-export interface RawFinancialEntry {
-  account_number: string;
-  description: string;
-  date: string;
-  debit?: number;
-  credit?: number;
-  balance: number;
-  direction: 'debit' | 'credit';
-  raw_line?: string;
-}
+import { classifyEntry, CompanyMappingContext } from '@/lib/classification';
+import {
+  assignSections,
+  buildPageTable,
+  detectPdfPeriod,
+  parseReportedTotals,
+  parseTableData,
+  PageTable,
+  RawFinancialEntry,
+  ReportedTotal,
+  TextItem
+} from '../../supabase/functions/_shared/pdfTable.ts';
+import { confirmedPeriod, type DetectedPeriod } from '../../supabase/functions/_shared/periods.ts';
+import { createOcrWorker, needsOcr, ocrConfidence, ocrPage } from './ocrService';
+
+export type { RawFinancialEntry, ReportedTotal };
 
 export interface ExtractionResult {
   success: boolean;
   entries: RawFinancialEntry[];
+  reported_totals: ReportedTotal[];
   errors: string[];
+  // Pages read with OCR because they had no usable text layer
+  ocr_pages: number[];
+  // The period the document reports, or the one confirmed for it
+  period?: DetectedPeriod;
   raw_tables?: any[];
   debug_info?: any;
 }
 
-// Enhanced IFRS Category Mapping Dictionary
-const IFRS_MAPPING_DICTIONARY: Record<string, { ifrsCategory: string; highLevelCategory: FinancialEntry['highLevelCategory']; mainGrouping: string }> = {
-  // Assets - Non-current
-  'land': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'building': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'property': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'plant': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'machinery': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'equipment': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'vehicle': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'furniture': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'fixture': { ifrsCategory: 'Property, Plant and Equipment', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'software': { ifrsCategory: 'Intangible Assets', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  'goodwill': { ifrsCategory: 'Goodwill', highLevelCategory: 'Assets', mainGrouping: 'Non-current Assets' },
-  
-  // Assets - Current
-  'cash': { ifrsCategory: 'Cash and Cash Equivalents', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'bank': { ifrsCategory: 'Cash and Cash Equivalents', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'receivable': { ifrsCategory: 'Trade and Other Receivables', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'inventory': { ifrsCategory: 'Inventories', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  'stock': { ifrsCategory: 'Inventories', highLevelCategory: 'Assets', mainGrouping: 'Current Assets' },
-  
-  // Equity
-  'capital': { ifrsCategory: 'Share Capital', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'retained earnings': { ifrsCategory: 'Retained Earnings', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  'reserves': { ifrsCategory: 'Other Reserves', highLevelCategory: 'Equity', mainGrouping: 'Equity' },
-  
-  // Liabilities
-  'payable': { ifrsCategory: 'Trade and Other Payables', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  'loan': { ifrsCategory: 'Borrowings', highLevelCategory: 'Liabilities', mainGrouping: 'Non-current Liabilities' },
-  'tax': { ifrsCategory: 'Tax Liabilities', highLevelCategory: 'Liabilities', mainGrouping: 'Current Liabilities' },
-  
-  // Revenue & Expenses
-  'revenue': { ifrsCategory: 'Revenue', highLevelCategory: 'Revenue', mainGrouping: 'Revenue' },
-  'sales': { ifrsCategory: 'Revenue', highLevelCategory: 'Revenue', mainGrouping: 'Revenue' },
-  'expense': { ifrsCategory: 'General and Administrative Expenses', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'cost': { ifrsCategory: 'Cost of Sales', highLevelCategory: 'Expenses', mainGrouping: 'Cost of Sales' },
-  'salary': { ifrsCategory: 'Employee Benefits', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'rent': { ifrsCategory: 'General and Administrative Expenses', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'depreciation': { ifrsCategory: 'Depreciation and Amortisation', highLevelCategory: 'Expenses', mainGrouping: 'Operating Expenses' },
-  'interest': { ifrsCategory: 'Finance Costs', highLevelCategory: 'Expenses', mainGrouping: 'Financial Costs' },
-};
-
-// Normalize currency values
-const normalizeAmount = (value: string | number): number => {
-  if (typeof value === 'number') return value;
-  if (!value || value === '') return 0;
-  
-  let cleanValue = String(value).trim();
-  
-  // Handle parentheses as negative (3,000) → -3000
-  const isNegative = cleanValue.includes('(') && cleanValue.includes(')');
-  
-  // Remove currency symbols, commas, parentheses
-  cleanValue = cleanValue.replace(/[\$£€¥₹,()]/g, '');
-  
-  // Parse the number
-  const parsed = parseFloat(cleanValue);
-  if (isNaN(parsed)) return 0;
-  
-  return isNegative ? -parsed : parsed;
-};
-
-// Map description to IFRS category
-const mapDescriptionToIFRS = (description: string) => {
-  const lowerDesc = description.toLowerCase();
-  const sortedEntries = Object.entries(IFRS_MAPPING_DICTIONARY).sort(
-    ([a], [b]) => b.length - a.length
-  );
-
-  for (const [keyword, mapping] of sortedEntries) {
-    if (lowerDesc.includes(keyword)) {
-      return mapping;
-    }
-  }
-  
-  return {
-    ifrsCategory: 'Uncategorized',
-    highLevelCategory: 'Assets' as const,
-    mainGrouping: 'Current Assets'
-  };
-};
+export interface ExtractionOptions {
+  // 'auto' runs OCR on pages without a text layer, 'never' skips them
+  ocr?: 'auto' | 'never';
+  // Period end confirmed at upload, used instead of the detected one
+  periodEnd?: string;
+}
 
-// Extract structured data from PDF using pdfjs (temporary until Supabase backend)
-export const extractStructuredPDFData = async (file: File, debugMode: boolean = false): Promise<ExtractionResult> => {
+const toTextItems = (items: any[]): TextItem[] => items.map(item => ({
+  text: item.str,
+  x: item.transform[4],
+  y: item.transform[5],
+  width: item.width,
+  height: item.height
+}));
+
+// Extract structured data from PDF using pdfjs. Scanned pages fall back to OCR.
+export const extractStructuredPDFData = async (
+  file: File,
+  debugMode: boolean = false,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> => {
   console.log('Starting basic PDF extraction for:', file.name);
   
   const result: ExtractionResult = {
     success: false,
     entries: [],
+    reported_totals: [],
     errors: [],
+    ocr_pages: [],
     raw_tables: [],
     debug_info: {}
   };
 
+  let ocrWorker: Awaited<ReturnType<typeof createOcrWorker>> | null = null;
+  const ocrPageConfidence = new Map<number, number>();
+
   try {
     const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
     const worker = await import('pdfjs-dist/build/pdf.worker?worker');
@@ -123,42 +74,66 @@ export const extractStructuredPDFData = async (file: File, debugMode: boolean =
     const doc = await pdfjs.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
     
     let allText = '';
-    const extractedTables: any[] = [];
+    const pages: TextItem[][] = [];
+    const entries: RawFinancialEntry[] = [];
     
     for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
       const page = await doc.getPage(pageNum);
       const textContent = await page.getTextContent();
       
-      const textItems = textContent.items.map((item: any) => ({
-        text: item.str,
-        x: item.transform[4],
-        y: item.transform[5],
-        width: item.width,
-        height: item.height
-      }));
+      let textItems = toTextItems(textContent.items);
+
+      if (options.ocr !== 'never' && needsOcr(textItems)) {
+        ocrWorker = ocrWorker || await createOcrWorker();
+        const ocr = await ocrPage(page, ocrWorker);
+        textItems = ocr.textItems;
+        ocrPageConfidence.set(pageNum, ocr.confidence);
+        result.ocr_pages.push(pageNum);
+        console.log(`Page ${pageNum}: no text layer, OCR read ${textItems.length} words`);
+      }
       
-      const rows = groupTextItemsByRows(textItems);
-      extractedTables.push(...rows);
+      pages.push(textItems);
       
-      allText += textContent.items.map((item: any) => item.str).join(' ') + '\n';
+      allText += textItems.map(item => item.text).join(' ') + '\n';
     }
 
+    // Tables are built once the period is known, as bare years in their
+    // headers end on its year end
+    result.period = options.periodEnd ? confirmedPeriod(options.periodEnd) : detectPdfPeriod(pages, file.name);
+    const defaultDate = result.period.endDate;
+    const pageTables: PageTable[] = pages.map(textItems => buildPageTable(textItems, defaultDate));
+
+    assignSections(pageTables);
+    pageTables.forEach((table, index) => {
+      const pageConfidence = ocrPageConfidence.get(index + 1);
+      entries.push(...parseTableData(table, defaultDate).map(entry => ({
+        ...entry,
+        page_number: index + 1,
+        confidence_score: pageConfidence === undefined
+          ? entry.confidence_score
+          : ocrConfidence(entry.confidence_score, pageConfidence)
+      })));
+      result.reported_totals.push(...parseReportedTotals(table, defaultDate).map(total => ({ ...total, page_number: index + 1 })));
+    });
+
     if (debugMode) {
-      result.raw_tables = extractedTables;
+      result.raw_tables = pageTables;
       result.debug_info = { 
         totalPages: doc.numPages,
-        extractedRows: extractedTables.length,
+        extractedRows: pageTables.reduce((sum, table) => sum + table.rows.length, 0),
+        columns: pageTables.map(table => table.columns.map(column => column.role)),
+        ocrPages: result.ocr_pages,
         rawTextLength: allText.length
       };
     }
 
-    const entries = parseTableData(extractedTables, file.name);
-    
     result.entries = entries;
     result.success = entries.length > 0;
     
     if (entries.length === 0) {
-      result.errors.push('No structured financial data found in PDF. Connect Supabase for advanced extraction.');
+      result.errors.push(result.ocr_pages.length > 0
+        ? 'No structured financial data could be read from the scanned pages.'
+        : 'No structured financial data found in PDF. Connect Supabase for advanced extraction.');
     }
 
     console.log(`Extracted ${entries.length} entries from ${file.name}`);
@@ -168,168 +143,65 @@ export const extractStructuredPDFData = async (file: File, debugMode: boolean =
     console.error('PDF extraction error:', error);
     result.errors.push(`Extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     return result;
+  } finally {
+    await ocrWorker?.terminate();
   }
 };
 
-// Group text items by rows based on Y coordinates
-const groupTextItemsByRows = (textItems: any[]): any[] => {
-  const tolerance = 5;
-  const rows: any[] = [];
-  
-  textItems.sort((a, b) => b.y - a.y);
-  
-  for (const item of textItems) {
-    let foundRow = rows.find(row => Math.abs(row.y - item.y) <= tolerance);
-    
-    if (foundRow) {
-      foundRow.items.push(item);
-    } else {
-      rows.push({
-        y: item.y,
-        items: [item]
-      });
-    }
-  }
-  
-  rows.forEach(row => {
-    row.items.sort((a: any, b: any) => a.x - b.x);
-    row.text = row.items.map((item: any) => item.text).join(' ').trim();
-  });
-  
-  return rows.filter(row => row.text.length > 0);
-};
+// The period a PDF reports, read from its text layer for the user to confirm
+// before upload. Scanned pages have no text to read, so those fall back to
+// the file name.
+export const detectPdfFilePeriod = async (file: File): Promise<DetectedPeriod> => {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+  const worker = await import('pdfjs-dist/build/pdf.worker?worker');
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
 
-// Parse table data into structured financial entries
-const parseTableData = (tableRows: any[], filename: string): RawFinancialEntry[] => {
-  const entries: RawFinancialEntry[] = [];
-  const currentDate = new Date().toISOString().split('T')[0];
-  
-  const periodMatch = filename.match(/(\d{4})/);
-  const period = periodMatch ? `${periodMatch[1]}-12-31` : currentDate;
-  
-  for (const row of tableRows) {
-    const text = row.text;
-    if (!text || text.length < 10) continue;
-    
-    const parsedEntry = parseFinancialLine(text, period);
-    if (parsedEntry) {
-      entries.push(parsedEntry);
-    }
-  }
-  
-  return entries;
-};
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: TextItem[][] = [];
 
-// Parse individual financial statement line
-const parseFinancialLine = (line: string, defaultDate: string): RawFinancialEntry | null => {
-  if (isHeaderLine(line)) return null;
-  
-  // Pattern 1: Account# Description Amount
-  let match = line.match(/^(\d+)\s+(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, accountNumber, description, amountStr] = match;
-    const amount = normalizeAmount(amountStr);
-    
-    return {
-      account_number: accountNumber.trim(),
-      description: description.trim(),
-      date: defaultDate,
-      balance: amount,
-      direction: amount >= 0 ? 'debit' : 'credit',
-      raw_line: line
-    };
-  }
-  
-  // Pattern 2: Description Debit Credit
-  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, description, debitStr, creditStr] = match;
-    const debit = normalizeAmount(debitStr);
-    const credit = normalizeAmount(creditStr);
-    const balance = debit - credit;
-    
-    return {
-      account_number: extractAccountNumber(description) || '',
-      description: cleanDescription(description),
-      date: defaultDate,
-      debit,
-      credit,
-      balance,
-      direction: balance >= 0 ? 'debit' : 'credit',
-      raw_line: line
-    };
-  }
-  
-  // Pattern 3: Simple Description Amount
-  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, description, amountStr] = match;
-    const amount = normalizeAmount(amountStr);
-    
-    if (Math.abs(amount) > 100) {
-      return {
-        account_number: extractAccountNumber(description) || '',
-        description: cleanDescription(description),
-        date: defaultDate,
-        balance: amount,
-        direction: amount >= 0 ? 'debit' : 'credit',
-        raw_line: line
-      };
-    }
+  for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
+    const textContent = await (await doc.getPage(pageNum)).getTextContent();
+    pages.push(toTextItems(textContent.items));
   }
-  
-  return null;
-};
-
-// Check if line is a header/non-data line
-const isHeaderLine = (line: string): boolean => {
-  const lowerLine = line.toLowerCase();
-  const headerKeywords = [
-    'trial balance', 'balance sheet', 'income statement', 'profit and loss',
-    'account number', 'description', 'debit', 'credit', 'balance',
-    'total', 'subtotal', 'page', 'date:', 'period:', 'company'
-  ];
-  
-  return headerKeywords.some(keyword => lowerLine.includes(keyword)) ||
-         line.trim().length < 5 ||
-         /^[\s\-_=]+$/.test(line);
-};
-
-// Extract account number from description if embedded
-const extractAccountNumber = (description: string): string | null => {
-  const match = description.match(/^(\d{3,6})\s*/);
-  return match ? match[1] : null;
-};
 
-// Clean description by removing account numbers and extra whitespace
-const cleanDescription = (description: string): string => {
-  return description
-    .replace(/^\d{3,6}\s*/, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+  return detectPdfPeriod(pages, file.name);
 };
 
 // Convert raw entries to Lovable format
-export const convertToLovableFormat = (rawEntries: RawFinancialEntry[], filename: string): FinancialData => {
+export const convertToLovableFormat = (
+  rawEntries: RawFinancialEntry[],
+  filename: string,
+  rawTotals: ReportedTotal[] = [],
+  mappingContext: CompanyMappingContext = {}
+): FinancialData => {
   const entries: FinancialEntry[] = rawEntries.map((raw, index) => {
-    const mapping = mapDescriptionToIFRS(raw.description);
-    
     return {
-      id: `${raw.account_number || index + 1}`,
+      id: raw.period ? `${raw.account_number || index + 1}-${raw.period}` : `${raw.account_number || index + 1}`,
       date: raw.date,
       description: raw.description,
+      accountNumber: raw.account_number || undefined,
       amount: raw.balance,
-      highLevelCategory: mapping.highLevelCategory,
-      mainGrouping: mapping.mainGrouping,
-      ifrsCategory: mapping.ifrsCategory,
-      originalLine: raw.raw_line
+      ...classifyEntry(raw.description, raw.account_number, { ...mappingContext, section: raw.section }),
+      originalLine: raw.raw_line,
+      period: raw.period,
+      statementSection: raw.section
     };
   });
 
   return {
     companyName: filename.replace(/\.pdf$/i, ''),
-    reportPeriod: rawEntries[0]?.date || new Date().toISOString().split('T')[0],
+    reportPeriod: rawEntries.map(raw => raw.date).sort().pop() || '',
     lastUpdated: new Date().toISOString(),
-    entries
+    entries,
+    reportedTotals: rawTotals.map((total, index) => ({
+      id: `total-${index + 1}`,
+      label: total.label,
+      amount: total.amount,
+      date: total.date,
+      period: total.period,
+      statementSection: total.section,
+      pageNumber: total.page_number,
+      source: 'extracted' as const
+    }))
   };
 };
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FinancialEntry, ReportedTotal } from '@/types/financial';
+import { ReconciliationService } from './reconciliationService';
+import { UNCATEGORIZED } from '../../supabase/functions/_shared/ifrsMapping.ts';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const entry = (description: string, amount: number, changes: Partial<FinancialEntry>): FinancialEntry => ({
+  id: description,
+  date: '2024-12-31',
+  description,
+  amount,
+  highLevelCategory: 'Assets',
+  mainGrouping: '',
+  ifrsCategory: '',
+  ...changes
+});
+
+const reported = (label: string, amount: number): ReportedTotal => ({
+  id: label,
+  label,
+  amount,
+  date: '2024-12-31',
+  statementSection: 'financial_position',
+  source: 'extracted'
+});
+
+const entries = [
+  entry('Cash at bank', 1500, { ifrsCategory: 'Cash and Cash Equivalents', ifrsElementId: 'ifrs-full:CashAndCashEquivalents' }),
+  entry('Trade receivables', 400, { ifrsCategory: 'Trade and Other Receivables', ifrsElementId: 'ifrs-full:TradeAndOtherCurrentReceivables' }),
+  // Stored before uncategorized lines lost their grouping
+  entry('Suspense', 250, { ifrsCategory: UNCATEGORIZED, mainGrouping: 'Current Assets' })
+];
+
+describe('performReconciliation', () => {
+  it('leaves uncategorized lines out of grouping totals', () => {
+    const results = ReconciliationService.performReconciliation(entries, [
+      reported('Total current assets', 1900),
+      reported('Total assets', 1900)
+    ]);
+    const byTotal = results.filter(result => result.reportedTotal !== undefined);
+
+    expect(byTotal.map(result => [result.mappedTotal, result.status, result.contributingItems.some(item => item.startsWith('Suspense'))])).toEqual([
+      [1900, 'matched', false],
+      [1900, 'matched', false]
+    ]);
+  });
+
+  it('still reports the uncategorized lines as a category of their own', () => {
+    const results = ReconciliationService.performReconciliation(entries);
+
+    expect(results.find(result => result.category === UNCATEGORIZED)).toMatchObject({ mappedTotal: 250, status: 'no-total' });
+  });
+});
@@ -1,80 +1,266 @@
-
-import { FinancialEntry } from '@/types/financial';
+import { supabase } from '@/integrations/supabase/client';
+import { FinancialEntry, ReportedTotal, StatementSection, ToleranceMode, ToleranceSettings } from '@/types/financial';
 import { ReconciliationResult } from '@/components/mapping/ReconciliationBadge';
+import { entryCategory, entryGrouping, isUncategorized } from '@/lib/classification';
+import { findElement } from '../../supabase/functions/_shared/ifrsTaxonomy.ts';
+import { detectSignConvention, presentedAmount, presentedTotal, SignConvention } from '@/lib/presentation';
 
-// Mock reported totals that would typically be extracted from PDF
-const MOCK_REPORTED_TOTALS: Record<string, { amount: number, pages: number[] }> = {
-  'Cash and Cash Equivalents': { amount: 755000, pages: [3] },
-  'Trade and Other Receivables': { amount: 980000, pages: [3] },
-  'Inventories': { amount: 900000, pages: [3] },
-  'Property, Plant and Equipment': { amount: 4750000, pages: [3] },
-  'Intangible Assets': { amount: 120000, pages: [3] },
-  'Goodwill': { amount: 800000, pages: [3] },
-  'Right-of-Use Assets': { amount: 350000, pages: [3] },
-  'Share Capital': { amount: 1000000, pages: [4] },
-  'Share Premium': { amount: 500000, pages: [4] },
-  'Retained Earnings': { amount: 2180000, pages: [4] },
-  'Other Reserves': { amount: 150000, pages: [4] },
-  'Borrowings': { amount: 1450000, pages: [4] },
-  'Trade and Other Payables': { amount: 600000, pages: [4] },
-  'Lease Liabilities': { amount: 280000, pages: [4] },
-  'Tax Liabilities': { amount: 125000, pages: [4] },
-  'Provisions': { amount: 95000, pages: [4] },
+// Under 1 currency unit matches, up to 1% is a minor mismatch
+export const DEFAULT_TOLERANCE: ToleranceSettings = {
+  mode: 'percentage',
+  roundingTolerance: 1,
+  percentageTolerance: 1,
+  scope: 'default'
 };
 
+// The notes, cash flow statement and equity statement restate figures from
+// the primary statements, so their lines would be counted twice
+const RECONCILED_SECTIONS: StatementSection[] = ['financial_position', 'profit_or_loss', 'other_comprehensive_income'];
+
+interface ReportedFigure {
+  amount: number;
+  pages: number[];
+  source: ReportedTotal['source'];
+}
+
+// "Total current assets" and "Current Assets" compare equal
+const normalizeLabel = (label: string) => label
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/\b(?:sub-?)?totals?\b/g, ' ')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { 
+  style: 'currency', 
+  currency: 'USD',
+  minimumFractionDigits: 0 
+}).format(amount);
+
 export class ReconciliationService {
-  static performReconciliation(entries: FinancialEntry[]): ReconciliationResult[] {
+  // Compare mapped sums against the stored reported totals. Every IFRS
+  // category gets a result; main groupings and high level categories only
+  // when a total is reported for them, and only from classified lines.
+  static performReconciliation(
+    entries: FinancialEntry[],
+    reportedTotals: ReportedTotal[] = [],
+    tolerance: ToleranceSettings = DEFAULT_TOLERANCE
+  ): ReconciliationResult[] {
     const results: ReconciliationResult[] = [];
     
-    // Group entries by IFRS category
-    const groupedEntries = entries.reduce((acc, entry) => {
-      if (!acc[entry.ifrsCategory]) {
-        acc[entry.ifrsCategory] = [];
+    const reconciledEntries = entries.filter(entry =>
+      !entry.statementSection || RECONCILED_SECTIONS.includes(entry.statementSection)
+    );
+    const classifiedEntries = reconciledEntries.filter(entry => !isUncategorized(entry));
+    // Reported totals are printed positive, so mapped sums are compared as presented
+    const convention = detectSignConvention(classifiedEntries);
+    
+    // Group entries by IFRS category, named by the taxonomy so spelling
+    // variants of stored labels fall together
+    const groupedEntries = reconciledEntries.reduce((acc, entry) => {
+      const category = entryCategory(entry)?.name || entry.ifrsCategory;
+      if (!acc[category]) {
+        acc[category] = [];
       }
-      acc[entry.ifrsCategory].push(entry);
+      acc[category].push(entry);
       return acc;
     }, {} as Record<string, FinancialEntry[]>);
 
     // Process each category
     Object.entries(groupedEntries).forEach(([category, categoryEntries]) => {
-      const mappedTotal = categoryEntries.reduce((sum, entry) => sum + entry.amount, 0);
-      const reportedData = MOCK_REPORTED_TOTALS[category];
-      const reportedTotal = reportedData?.amount;
-      const sourcePages = reportedData?.pages || [];
-      
-      let status: ReconciliationResult['status'] = 'no-total';
-      let difference = 0;
-      
-      if (reportedTotal !== undefined) {
-        difference = mappedTotal - reportedTotal;
-        const percentageDiff = Math.abs(difference / reportedTotal) * 100;
-        
-        if (Math.abs(difference) < 1) {
-          status = 'matched';
-        } else if (percentageDiff <= 1) {
-          status = 'minor-mismatch';
-        } else {
-          status = 'mismatch';
-        }
-      }
-      
-      results.push({
-        category,
-        mappedTotal,
-        reportedTotal,
-        difference,
-        status,
-        contributingItems: categoryEntries.map(entry => 
-          `${entry.description} - ${new Intl.NumberFormat('en-US', { 
-            style: 'currency', 
-            currency: 'USD',
-            minimumFractionDigits: 0 
-          }).format(entry.amount)}`
-        ),
-        sourcePages
+      const reported = this.findReportedTotal(category, reportedTotals);
+      results.push(this.reconcile(category, categoryEntries, tolerance, convention, reported));
+    });
+
+    const groupings = new Map<string, FinancialEntry[]>();
+    classifiedEntries.forEach(entry => {
+      const grouping = findElement(entryGrouping(entry))?.label || entry.mainGrouping;
+      [grouping, entry.highLevelCategory].forEach(name => {
+        if (!name || groupedEntries[name]) return;
+        groupings.set(name, [...(groupings.get(name) || []), entry]);
       });
     });
+
+    groupings.forEach((groupEntries, name) => {
+      const reported = this.findReportedTotal(name, reportedTotals);
+      if (reported) {
+        results.push(this.reconcile(name, groupEntries, tolerance, convention, reported));
+      }
+    });
     
     return results;
   }
+
+  // A manually entered total wins, then one stored against the category, then
+  // extracted totals whose printed label names it. Totals on the primary
+  // statements win over those repeated in the notes; every page that prints
+  // the figure is listed as a source.
+  private static findReportedTotal(name: string, reportedTotals: ReportedTotal[]): ReportedFigure | undefined {
+    const manual = reportedTotals.find(total => total.source === 'manual' && total.ifrsCategory === name);
+    if (manual) {
+      return { amount: manual.amount, pages: [], source: 'manual' };
+    }
+
+    const key = normalizeLabel(name);
+    const matches = reportedTotals.filter(total =>
+      total.ifrsCategory ? total.ifrsCategory === name : normalizeLabel(total.label) === key
+    );
+    if (matches.length === 0) return undefined;
+
+    const primary = matches.find(total => total.statementSection && RECONCILED_SECTIONS.includes(total.statementSection)) || matches[0];
+    const pages = Array.from(new Set(matches.map(total => total.pageNumber).filter((page): page is number => page !== undefined)));
+
+    return { amount: primary.amount, pages, source: 'extracted' };
+  }
+
+  private static reconcile(
+    category: string,
+    categoryEntries: FinancialEntry[],
+    tolerance: ToleranceSettings,
+    convention: SignConvention,
+    reportedData?: ReportedFigure
+  ): ReconciliationResult {
+    const mappedTotal = presentedTotal(categoryEntries, convention);
+    const reportedTotal = reportedData?.amount;
+    const sourcePages = reportedData?.pages || [];
+    
+    let status: ReconciliationResult['status'] = 'no-total';
+    let difference = 0;
+    let thresholdNote: string | undefined;
+    
+    if (reportedTotal !== undefined) {
+      difference = mappedTotal - reportedTotal;
+      ({ status, note: thresholdNote } = this.assessDifference(difference, reportedTotal, tolerance));
+    }
+    
+    return {
+      category,
+      mappedTotal,
+      reportedTotal,
+      difference,
+      status,
+      contributingItems: categoryEntries.map(entry => 
+        `${entry.description} - ${formatCurrency(presentedAmount(entry, convention))}`
+      ),
+      sourcePages,
+      reportedSource: reportedData?.source,
+      thresholdNote,
+      section: categoryEntries.find(entry => entry.statementSection)?.statementSection
+    };
+  }
+
+  // Status for a difference under the tolerance settings, with a sentence
+  // naming the threshold that decided it
+  static assessDifference(
+    difference: number,
+    reportedTotal: number,
+    tolerance: ToleranceSettings
+  ): { status: ReconciliationResult['status'], note: string } {
+    const absolute = Math.abs(difference);
+    const amount = formatCurrency(absolute);
+
+    if (absolute < tolerance.roundingTolerance) {
+      return { status: 'matched', note: `Difference of ${amount} is within the rounding tolerance of ${formatCurrency(tolerance.roundingTolerance)}` };
+    }
+
+    if (tolerance.mode === 'absolute') {
+      const limit = tolerance.absoluteTolerance ?? tolerance.roundingTolerance;
+      return absolute <= limit
+        ? { status: 'minor-mismatch', note: `Difference of ${amount} exceeds rounding but is within the absolute tolerance of ${formatCurrency(limit)}` }
+        : { status: 'mismatch', note: `Difference of ${amount} exceeds the absolute tolerance of ${formatCurrency(limit)}` };
+    }
+
+    if (tolerance.mode === 'materiality') {
+      if (tolerance.clearlyTrivial !== undefined && absolute < tolerance.clearlyTrivial) {
+        return { status: 'matched', note: `Difference of ${amount} is below the clearly trivial threshold of ${formatCurrency(tolerance.clearlyTrivial)}` };
+      }
+      if (tolerance.materiality === undefined) {
+        return { status: 'mismatch', note: `Difference of ${amount} exceeds the clearly trivial threshold and no materiality is set` };
+      }
+      return absolute < tolerance.materiality
+        ? { status: 'minor-mismatch', note: `Difference of ${amount} exceeds the clearly trivial threshold but is below materiality of ${formatCurrency(tolerance.materiality)}` }
+        : { status: 'mismatch', note: `Difference of ${amount} reaches overall materiality of ${formatCurrency(tolerance.materiality)}` };
+    }
+
+    if (reportedTotal === 0) {
+      return { status: 'mismatch', note: `Difference of ${amount} against a reported total of zero` };
+    }
+
+    const percentage = (absolute / Math.abs(reportedTotal)) * 100;
+    return percentage <= tolerance.percentageTolerance
+      ? { status: 'minor-mismatch', note: `Difference of ${amount} (${percentage.toFixed(2)}%) is within the ${tolerance.percentageTolerance}% tolerance` }
+      : { status: 'mismatch', note: `Difference of ${amount} (${percentage.toFixed(2)}%) exceeds the ${tolerance.percentageTolerance}% tolerance` };
+  }
+
+  // Settings stored for the upload win over those stored for the company
+  static async loadTolerance(uploadId: string | null, companyId?: string): Promise<ToleranceSettings> {
+    let row = null;
+
+    if (uploadId) {
+      const { data, error } = await supabase
+        .from('reconciliation_settings')
+        .select('*')
+        .eq('upload_id', uploadId)
+        .maybeSingle();
+      if (error) console.error('Error fetching reconciliation settings:', error);
+      row = data;
+    }
+
+    if (!row && companyId) {
+      const { data, error } = await supabase
+        .from('reconciliation_settings')
+        .select('*')
+        .is('upload_id', null)
+        .eq('company_id', companyId)
+        .maybeSingle();
+      if (error) console.error('Error fetching reconciliation settings:', error);
+      row = data;
+    }
+
+    if (!row) return DEFAULT_TOLERANCE;
+
+    return {
+      mode: (['absolute', 'percentage', 'materiality'].includes(row.mode) ? row.mode : 'percentage') as ToleranceMode,
+      roundingTolerance: row.rounding_tolerance,
+      absoluteTolerance: row.absolute_tolerance ?? undefined,
+      percentageTolerance: row.percentage_tolerance,
+      materiality: row.materiality ?? undefined,
+      clearlyTrivial: row.clearly_trivial ?? undefined,
+      scope: row.upload_id ? 'upload' : 'company'
+    };
+  }
+
+  static async saveTolerance(
+    tolerance: ToleranceSettings,
+    target: { uploadId?: string, companyId?: string }
+  ): Promise<ToleranceSettings> {
+    const scope = target.uploadId ? 'upload' : 'company';
+    const record = {
+      upload_id: target.uploadId || null,
+      company_id: target.companyId || null,
+      mode: tolerance.mode,
+      rounding_tolerance: tolerance.roundingTolerance,
+      absolute_tolerance: tolerance.absoluteTolerance ?? null,
+      percentage_tolerance: tolerance.percentageTolerance,
+      materiality: tolerance.materiality ?? null,
+      clearly_trivial: tolerance.clearlyTrivial ?? null,
+      updated_at: new Date().toISOString()
+    };
+
+    // Replace the existing row for the same scope
+    const existing = supabase.from('reconciliation_settings').delete();
+    const { error: deleteError } = target.uploadId
+      ? await existing.eq('upload_id', target.uploadId)
+      : await existing.is('upload_id', null).eq('company_id', target.companyId || '');
+    if (deleteError) {
+      throw new Error(`Failed to update reconciliation settings: ${deleteError.message}`);
+    }
+
+    const { error } = await supabase.from('reconciliation_settings').insert(record);
+    if (error) {
+      throw new Error(`Failed to save reconciliation settings: ${error.message}`);
+    }
+
+    return { ...tolerance, scope };
+  }
 }
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ReportedTotal, StatementSection } from '@/types/financial';
+
+type ReportedTotalRow = {
+  id: string;
+  label: string;
+  amount: number;
+  period: string | null;
+  period_label: string | null;
+  statement_section: string | null;
+  page_number: number | null;
+  ifrs_category: string | null;
+  source: string;
+  created_at: string;
+};
+
+const toReportedTotal = (row: ReportedTotalRow): ReportedTotal => ({
+  id: row.id,
+  label: row.label,
+  amount: row.amount,
+  date: row.period || row.created_at.split('T')[0],
+  period: row.period_label || undefined,
+  statementSection: (row.statement_section || undefined) as StatementSection | undefined,
+  pageNumber: row.page_number || undefined,
+  ifrsCategory: row.ifrs_category || undefined,
+  source: row.source === 'manual' ? 'manual' : 'extracted'
+});
+
+export class ReportedTotalsService {
+  // Extracted and manually entered totals for an upload, in page order
+  static async getReportedTotals(uploadId: string): Promise<ReportedTotal[]> {
+    const { data, error } = await supabase
+      .from('reported_totals')
+      .select('*')
+      .eq('upload_id', uploadId)
+      .order('page_number');
+
+    if (error) {
+      console.error('Error fetching reported totals:', error);
+      return [];
+    }
+
+    return (data || []).map(toReportedTotal);
+  }
+
+  // Record the reported figure for an IFRS category, replacing an earlier
+  // manual entry for the same upload and period
+  static async saveManualTotal(
+    uploadId: string,
+    ifrsCategory: string,
+    amount: number,
+    period: { label?: string; date: string }
+  ): Promise<ReportedTotal> {
+    await this.deleteManualTotal(uploadId, ifrsCategory, period.label);
+
+    const { data, error } = await supabase
+      .from('reported_totals')
+      .insert({
+        upload_id: uploadId,
+        label: ifrsCategory,
+        amount,
+        period: period.date,
+        period_label: period.label || null,
+        ifrs_category: ifrsCategory,
+        source: 'manual'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save reported total: ${error.message}`);
+    }
+
+    return toReportedTotal(data);
+  }
+
+  static async deleteManualTotal(uploadId: string, ifrsCategory: string, periodLabel?: string): Promise<void> {
+    let query = supabase
+      .from('reported_totals')
+      .delete()
+      .eq('upload_id', uploadId)
+      .eq('ifrs_category', ifrsCategory)
+      .eq('source', 'manual');
+
+    query = periodLabel ? query.eq('period_label', periodLabel) : query.is('period_label', null);
+
+    const { error } = await query;
+    if (error) {
+      throw new Error(`Failed to remove reported total: ${error.message}`);
+    }
+  }
+}
@@ -1,5 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
-import { FinancialData } from '@/types/financial';
+import { FinancialData, StatementSection } from '@/types/financial';
+import { ReportedTotalsService } from './reportedTotalsService';
+import { classifyEntry, loadMappingContext } from '@/lib/classification';
+import { CompanyService } from './companyService';
+import type { ExtractionResult } from './pdfExtractionService';
 
 export interface UploadResult {
   success: boolean;
@@ -16,7 +20,9 @@ export interface ProcessingStatus {
 
 export class SupabasePdfService {
   
-  async uploadPdf(file: File): Promise<UploadResult> {
+  // A period end confirmed at upload is stored with it and used instead of
+  // the one extract-pdf would detect
+  async uploadPdf(file: File, periodEnd?: string, companyId?: string): Promise<UploadResult> {
     try {
       // Generate unique filename
       const timestamp = Date.now();
@@ -39,7 +45,10 @@ export class SupabasePdfService {
           filename: file.name,
           storage_path: storagePath,
           file_size: file.size,
-          processing_status: 'pending'
+          processing_status: 'pending',
+          company_id: companyId || null,
+          period_end: periodEnd || null,
+          period_evidence: periodEnd ? 'confirmed' : null
         })
         .select()
         .single();
@@ -104,7 +113,7 @@ export class SupabasePdfService {
       // Get upload info
       const { data: upload, error: uploadError } = await supabase
         .from('pdf_uploads')
-        .select('filename, created_at')
+        .select('filename, created_at, period_end, company_id')
         .eq('id', uploadId)
         .single();
 
@@ -127,23 +136,33 @@ export class SupabasePdfService {
         return null;
       }
 
+      const company = upload.company_id ? await CompanyService.get(upload.company_id) : null;
+      const mappingContext = await loadMappingContext(company?.id);
+
       // Convert to FinancialData format
-      const entries = trialBalances.map((tb, index) => ({
-        id: tb.id,
-        date: tb.period || tb.created_at.split('T')[0],
-        description: tb.account_description,
-        amount: tb.balance,
-        highLevelCategory: this.categorizeEntry(tb.account_description).highLevelCategory,
-        mainGrouping: this.categorizeEntry(tb.account_description).mainGrouping,
-        ifrsCategory: this.categorizeEntry(tb.account_description).ifrsCategory,
-        originalLine: `${tb.account_number || ''} ${tb.account_description} ${tb.balance}`
-      }));
+      const entries = trialBalances.map((tb, index) => {
+        const section = (tb.statement_section || undefined) as StatementSection | undefined;
+
+        return {
+          id: tb.id,
+          date: tb.period || upload.period_end || '',
+          description: tb.account_description,
+          accountNumber: tb.account_number || undefined,
+          amount: tb.balance,
+          ...classifyEntry(tb.account_description, tb.account_number, { ...mappingContext, section }),
+          originalLine: `${tb.account_number || ''} ${tb.account_description} ${tb.balance}`,
+          period: tb.period_label || undefined,
+          statementSection: section
+        };
+      });
 
       return {
-        companyName: upload.filename.replace(/\.pdf$/i, ''),
-        reportPeriod: trialBalances[0]?.period || upload.created_at.split('T')[0],
+        companyName: company?.name || upload.filename.replace(/\.pdf$/i, ''),
+        companyId: company?.id,
+        reportPeriod: trialBalances.map(tb => tb.period).filter(Boolean).sort().pop() || upload.period_end || '',
         lastUpdated: new Date().toISOString(),
-        entries
+        entries,
+        reportedTotals: await ReportedTotalsService.getReportedTotals(uploadId)
       };
 
     } catch (error) {
@@ -152,6 +171,74 @@ export class SupabasePdfService {
     }
   }
 
+  // Store entries extracted in the browser (the OCR fallback) the same way
+  // extract-pdf stores its own, so getExtractedData can read them back
+  async saveLocalExtraction(uploadId: string, result: ExtractionResult): Promise<void> {
+    await supabase
+      .from('trial_balances')
+      .delete()
+      .eq('upload_id', uploadId);
+
+    if (result.entries.length > 0) {
+      const { error } = await supabase
+        .from('trial_balances')
+        .insert(result.entries.map(entry => ({
+          upload_id: uploadId,
+          account_number: entry.account_number || null,
+          account_description: entry.description,
+          debit: entry.debit || null,
+          credit: entry.credit || null,
+          balance: entry.balance,
+          period: entry.date || null,
+          period_label: entry.period || null,
+          statement_section: entry.section || null,
+          page_number: entry.page_number || null,
+          confidence_score: entry.confidence_score ?? 0.5
+        })));
+
+      if (error) {
+        throw new Error(`Failed to insert records: ${error.message}`);
+      }
+    }
+
+    // Totals typed in by hand are kept
+    await supabase
+      .from('reported_totals')
+      .delete()
+      .eq('upload_id', uploadId)
+      .eq('source', 'extracted');
+
+    if (result.reported_totals.length > 0) {
+      const { error } = await supabase
+        .from('reported_totals')
+        .insert(result.reported_totals.map(total => ({
+          upload_id: uploadId,
+          label: total.label,
+          amount: total.amount,
+          debit: total.debit ?? null,
+          credit: total.credit ?? null,
+          period: total.date || null,
+          period_label: total.period || null,
+          statement_section: total.section || null,
+          page_number: total.page_number || null,
+          raw_line: total.raw_line || null
+        })));
+
+      if (error) {
+        throw new Error(`Failed to insert reported totals: ${error.message}`);
+      }
+    }
+
+    await supabase
+      .from('pdf_uploads')
+      .update({
+        extracted_records_count: result.entries.length,
+        ...(result.period && { period_end: result.period.endDate, period_evidence: result.period.evidence }),
+        error_message: result.entries.length === 0 ? result.errors[0] || 'No structured financial data found in PDF' : null
+      })
+      .eq('id', uploadId);
+  }
+
   async getAllUploads() {
     try {
       const { data, error } = await supabase
@@ -170,47 +257,4 @@ export class SupabasePdfService {
       return [];
     }
   }
-
-  private categorizeEntry(description: string) {
-    const lowerDesc = description.toLowerCase();
-    
-    // Enhanced IFRS mapping
-    const mappings = [
-      // Assets
-      { keywords: ['cash', 'bank'], category: 'Cash and Cash Equivalents', level: 'Assets', group: 'Current Assets' },
-      { keywords: ['receivable', 'debtors'], category: 'Trade and Other Receivables', level: 'Assets', group: 'Current Assets' },
-      { keywords: ['inventory', 'stock'], category: 'Inventories', level: 'Assets', group: 'Current Assets' },
-      { keywords: ['property', 'plant', 'equipment', 'building', 'land'], category: 'Property, Plant and Equipment', level: 'Assets', group: 'Non-current Assets' },
-      
-      // Liabilities
-      { keywords: ['payable', 'creditors'], category: 'Trade and Other Payables', level: 'Liabilities', group: 'Current Liabilities' },
-      { keywords: ['loan', 'borrowing'], category: 'Borrowings', level: 'Liabilities', group: 'Non-current Liabilities' },
-      { keywords: ['tax'], category: 'Tax Liabilities', level: 'Liabilities', group: 'Current Liabilities' },
-      
-      // Equity
-      { keywords: ['capital', 'share'], category: 'Share Capital', level: 'Equity', group: 'Equity' },
-      { keywords: ['retained', 'earnings'], category: 'Retained Earnings', level: 'Equity', group: 'Equity' },
-      
-      // Revenue & Expenses
-      { keywords: ['revenue', 'sales', 'income'], category: 'Revenue', level: 'Revenue', group: 'Revenue' },
-      { keywords: ['expense', 'cost'], category: 'General and Administrative Expenses', level: 'Expenses', group: 'Operating Expenses' },
-      { keywords: ['salary', 'wage'], category: 'Employee Benefits', level: 'Expenses', group: 'Operating Expenses' }
-    ];
-
-    for (const mapping of mappings) {
-      if (mapping.keywords.some(keyword => lowerDesc.includes(keyword))) {
-        return {
-          ifrsCategory: mapping.category,
-          highLevelCategory: mapping.level as any,
-          mainGrouping: mapping.group
-        };
-      }
-    }
-
-    return {
-      ifrsCategory: 'Uncategorized',
-      highLevelCategory: 'Assets' as const,
-      mainGrouping: 'Current Assets'
-    };
-  }
-}
\ No newline at end of file
+}
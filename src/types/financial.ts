@@ -1,12 +1,66 @@
+import type { StatementSection } from '../../supabase/functions/_shared/sections.ts';
+import type { MatchedRule } from '../../supabase/functions/_shared/ifrsMapping.ts';
+
+export type { StatementSection, MatchedRule };
+
 export interface FinancialEntry {
   id: string;
   date: string;
   description: string;
+  accountNumber?: string;
   amount: number;
   highLevelCategory: 'Assets' | 'Liabilities' | 'Equity' | 'Revenue' | 'Expenses';
+  // IFRS taxonomy element the line is assigned to. The category, grouping
+  // and high level labels are its labels, kept for display and for data
+  // saved before elements existed.
+  ifrsElementId?: string;
   mainGrouping: string;
   ifrsCategory: string;
   originalLine?: string;
+  // Column heading of the reporting period for comparative statements
+  period?: string;
+  // Statement the line was read from, for PDF sources
+  statementSection?: StatementSection;
+  // Merged heading the line sat under, for Excel sources
+  groupingHint?: string;
+  // How the IFRS category was assigned; unset once a user picks one
+  mappingConfidence?: number;
+  mappingRule?: MatchedRule;
+  // Offsets its category (accumulated depreciation, loss allowances), so
+  // its balance is expected on the other side
+  contraAccount?: boolean;
+}
+
+// A subtotal or total printed in the source document
+export interface ReportedTotal {
+  id: string;
+  label: string;
+  amount: number;
+  date: string;
+  period?: string;
+  statementSection?: StatementSection;
+  pageNumber?: number;
+  // Set for totals typed in on the Mapping page
+  ifrsCategory?: string;
+  source: 'extracted' | 'manual';
+}
+
+export type ToleranceMode = 'absolute' | 'percentage' | 'materiality';
+
+// How far a mapped total may differ from the reported one. Differences under
+// the rounding tolerance always match. Beyond that the mode decides:
+// absolute - minor mismatch up to absoluteTolerance
+// percentage - minor mismatch up to percentageTolerance % of the reported total
+// materiality - matched below clearlyTrivial, minor mismatch below materiality
+export interface ToleranceSettings {
+  mode: ToleranceMode;
+  roundingTolerance: number;
+  absoluteTolerance?: number;
+  percentageTolerance: number;
+  materiality?: number;
+  clearlyTrivial?: number;
+  // Where the settings came from
+  scope: 'default' | 'upload' | 'company';
 }
 
 export interface FinancialStatement {
@@ -22,7 +76,10 @@ export interface MappingCategory {
 
 export interface FinancialData {
   companyName: string;
+  // Set for uploads filed under a company; company-wide rules need it
+  companyId?: string;
   reportPeriod: string;
   entries: FinancialEntry[];
+  reportedTotals?: ReportedTotal[];
   lastUpdated: string;
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, detectEncoding, parseCsvText, readCsvSample, sniffDelimiter } from './csv.ts';
+
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/csv/${name}`, import.meta.url)));
+
+// A few bytes at a time, so records and characters are split across chunks
+const streamOf = (bytes: Uint8Array, chunkSize = 7) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    for (let start = 0; start < bytes.length; start += chunkSize) {
+      controller.enqueue(bytes.slice(start, start + chunkSize));
+    }
+    controller.close();
+  }
+});
+
+const readFixture = (name: string) => readCsvSample(streamOf(fixture(name)));
+
+describe('readCsvSample', () => {
+  it('keeps newlines inside quoted fields', async () => {
+    const { rows, format, errors } = await readFixture('quoted-newlines.csv');
+
+    expect(format).toEqual({ encoding: 'utf-8', delimiter: ',' });
+    expect(rows).toEqual([
+      ['Account', 'Description', 'Balance'],
+      ['1000', 'Cash at bank\r\nmain account', '1500.00'],
+      ['1100', 'Petty cash\nfloat', '25.00']
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('reads "" as a quote inside a quoted field', async () => {
+    const { rows } = await readFixture('escaped-quotes.csv');
+
+    expect(rows.slice(1)).toEqual([
+      ['2000', 'Trade payables, "EUR" suppliers', '-300.00'],
+      ['2100', '"Accrued" wages', '-120.50']
+    ]);
+  });
+
+  it('detects semicolons with decimal commas', async () => {
+    const { rows, format } = await readFixture('semicolon.csv');
+
+    expect(format.delimiter).toBe(';');
+    expect(rows).toEqual([
+      ['Konto', 'Bezeichnung', 'Saldo'],
+      ['1000', 'Kasse', '1.234,56'],
+      ['1200', 'Bank; Girokonto', '-78,90']
+    ]);
+  });
+
+  it('detects tabs', async () => {
+    const { rows, format } = await readFixture('tab-delimited.csv');
+
+    expect(format.delimiter).toBe('\t');
+    expect(rows[1]).toEqual(['4000', 'Revenue, services', '-5000']);
+  });
+
+  it('decodes UTF-16 with a byte order mark', async () => {
+    const { rows, format } = await readFixture('utf16le-bom.csv');
+
+    expect(format).toEqual({ encoding: 'utf-16le', delimiter: ',' });
+    expect(rows[0][0]).toBe('Account');
+    expect(rows[1]).toEqual(['1400', 'Débiteurs – clients', '980.00']);
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', async () => {
+    const { rows, format } = await readFixture('windows-1252.csv');
+
+    expect(format).toEqual({ encoding: 'windows-1252', delimiter: ';' });
+    expect(rows[1]).toEqual(['1500', 'Créances diverses € TVA', '410,00']);
+  });
+
+  it('keeps the first records and counts the rest', async () => {
+    const text = ['Account,Balance', ...Array.from({ length: 5_000 }, (_, index) => `${index},1.00`)].join('\n');
+    const { rows, recordCount } = await readCsvSample(streamOf(new TextEncoder().encode(text), 4096), 10);
+
+    expect(rows).toHaveLength(10);
+    expect(rows[9]).toEqual(['8', '1.00']);
+    expect(recordCount).toBe(5_001);
+  });
+
+  it('reports a quote left open at the end of the file', async () => {
+    const { rows, errors } = await readFixture('unclosed-quote.csv');
+
+    expect(rows[1]).toEqual(['3000', 'Share capital', '-1000']);
+    expect(rows[2]).toEqual(['3100', 'Retained earnings,-250\n']);
+    expect(errors).toEqual([{ row_number: 3, message: 'Quoted field is not closed before the end of the file' }]);
+  });
+});
+
+describe('createCsvParser', () => {
+  it('completes records across pushes', () => {
+    const parser = createCsvParser(',');
+
+    expect(parser.push('a,"b\r')).toEqual([]);
+    expect(parser.push('\nc",d\r')).toEqual([['a', 'b\r\nc', 'd']]);
+    expect(parser.push('\ne,f')).toEqual([]);
+    expect(parser.end()).toEqual([['e', 'f']]);
+  });
+
+  it('keeps blank lines as empty records', () => {
+    expect(parseCsvText('a,b\n\nc,d\n', ',')).toEqual([['a', 'b'], [], ['c', 'd']]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('prefers the delimiter that splits every record the same way', () => {
+    expect(sniffDelimiter('a|b|c\n1|2,5|3\n')).toBe('|');
+    expect(sniffDelimiter('single column\nvalue\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('recognises UTF-16 without a byte order mark', () => {
+    const bytes = new Uint8Array([...'a,b\n'].flatMap(char => [char.charCodeAt(0), 0]));
+    expect(detectEncoding(bytes)).toBe('utf-16le');
+  });
+
+  it('recognises a UTF-8 byte order mark', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+  });
+});
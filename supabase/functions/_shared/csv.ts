@@ -0,0 +1,256 @@
+import type { RowError } from './sheetLayout.ts';
+
+// RFC 4180 CSV reading shared by process-csv and the upload wizard: quoted
+// fields with embedded delimiters, newlines and "" escapes, any of the usual
+// delimiters, and the encodings ERP exports come in. Only uses APIs both
+// Deno and browsers have (streams and TextDecoder).
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvFormat {
+  delimiter: string;
+  encoding: CsvEncoding;
+}
+
+export interface CsvParser {
+  // Feed the next piece of text; returns the records it completed
+  push: (text: string) => string[][];
+  // Flush the last record
+  end: () => string[][];
+}
+
+// Sheet name CSV rows are stored under
+export const CSV_SHEET_NAME = 'CSV_Data';
+
+// Records the layout, header and period of a CSV file are settled from, in
+// the upload wizard and in process-csv
+export const CSV_SAMPLE_RECORDS = 200;
+
+// Tried in this order, so a tie goes to the earlier one
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Bytes looked at before deciding on the encoding and delimiter
+const SNIFF_BYTES = 64 * 1024;
+
+// Records compared when sniffing the delimiter
+const SNIFF_RECORDS = 20;
+
+// Blank lines are kept as empty records so record numbers match the file's
+// line numbers for simple files. A quote left open at the end of the file is
+// passed to onError.
+export const createCsvParser = (delimiter: string, onError?: (error: RowError) => void): CsvParser => {
+  let recordCount = 0;
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  // A quote inside a quoted field: either the first of "" or the closing one
+  let quoteSeen = false;
+  let fieldQuoted = false;
+  let skipLineFeed = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRecord = (records: string[][]) => {
+    endField();
+    records.push(record.length === 1 && record[0] === '' ? [] : record);
+    record = [];
+    recordCount++;
+  };
+
+  const push = (text: string) => {
+    const records: string[][] = [];
+
+    for (const char of text) {
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          quoteSeen = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '' && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endRecord(records);
+        skipLineFeed = char === '\r';
+      } else {
+        field += char;
+      }
+    }
+
+    return records;
+  };
+
+  const end = () => {
+    const records: string[][] = [];
+    if (inQuotes && !quoteSeen) {
+      onError?.({ row_number: recordCount + 1, message: 'Quoted field is not closed before the end of the file' });
+    }
+    inQuotes = false;
+    quoteSeen = false;
+    if (field !== '' || record.length > 0 || fieldQuoted) endRecord(records);
+    return records;
+  };
+
+  return { push, end };
+};
+
+export const parseCsvText = (text: string, delimiter: string): string[][] => {
+  const parser = createCsvParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+// The delimiter that splits the first records into the same number of
+// fields, more than one. A header without decimal commas usually settles
+// "1,5" against "1;5".
+export const sniffDelimiter = (sample: string): string => {
+  let best = { delimiter: ',', score: 0 };
+
+  for (const delimiter of DELIMITERS) {
+    const parser = createCsvParser(delimiter);
+    const records = parser.push(sample).filter(record => record.length > 0).slice(0, SNIFF_RECORDS);
+    if (records.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.length, (counts.get(record.length) || 0) + 1));
+    const [fields, frequency] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (fields < 2) continue;
+
+    const score = (frequency / records.length) * Math.log2(fields + 1);
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+};
+
+// Byte order marks first, then UTF-16 without one (every other byte of
+// plain text is zero), then UTF-8 if the bytes are valid UTF-8. Anything
+// else is taken as Windows-1252, which is what older ERPs export.
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, Math.min(bytes.length, 2000));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenZeros++;
+    else oddZeros++;
+  });
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (half > 0 && evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, SNIFF_BYTES), { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// What Windows-1252 has at 0x80-0x9f. Node decodes the encoding as Latin-1,
+// which leaves control characters there instead.
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+const createDecoder = (encoding: CsvEncoding) => {
+  const decoder = new TextDecoder(encoding);
+  if (encoding !== 'windows-1252') return decoder;
+  return {
+    decode: (bytes?: Uint8Array, options?: TextDecodeOptions) => decoder.decode(bytes, options)
+      .replace(/[\u0080-\u009f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80])
+  };
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+// Read a CSV stream record by record. The encoding and delimiter are decided
+// from the first bytes; records are handed to onRecords as each chunk
+// completes them, so the whole file is never held as text.
+export async function readCsv(
+  stream: ReadableStream<Uint8Array>,
+  onRecords: (records: string[][]) => void | Promise<void>,
+  onError?: (error: RowError) => void
+): Promise<CsvFormat> {
+  const reader = stream.getReader();
+  let head = new Uint8Array(0);
+  let decoder: Pick<TextDecoder, 'decode'> | undefined;
+  let parser: CsvParser | undefined;
+  let format: CsvFormat | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    let text = '';
+
+    if (!decoder) {
+      if (value) head = concatBytes(head, value);
+      if (!done && head.length < SNIFF_BYTES) continue;
+
+      const encoding = detectEncoding(head);
+      decoder = createDecoder(encoding);
+      text = decoder.decode(head, { stream: !done }).replace(/^\uFEFF/, '');
+      format = { encoding, delimiter: sniffDelimiter(text) };
+      parser = createCsvParser(format.delimiter, onError);
+    } else if (value) {
+      text = decoder.decode(value, { stream: true });
+    }
+
+    if (done) {
+      text += decoder.decode();
+      const records = [...parser!.push(text), ...parser!.end()];
+      if (records.length > 0) await onRecords(records);
+      break;
+    }
+
+    const records = parser!.push(text);
+    if (records.length > 0) await onRecords(records);
+  }
+
+  return format!;
+}
+
+// The first records of a CSV file and how many it has. The rest of the file
+// is parsed to count it but not kept.
+export async function readCsvSample(
+  stream: ReadableStream<Uint8Array>,
+  limit = CSV_SAMPLE_RECORDS
+): Promise<{ rows: string[][]; recordCount: number; format: CsvFormat; errors: RowError[] }> {
+  let rows: string[][] = [];
+  let recordCount = 0;
+  const errors: RowError[] = [];
+  const format = await readCsv(stream, records => {
+    if (rows.length < limit) rows = rows.concat(records.slice(0, limit - rows.length));
+    recordCount += records.length;
+  }, error => errors.push(error));
+  return { rows, recordCount, format, errors };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accountNumberValue,
+  classify,
+  findAccountRange,
+  findCategory,
+  MAPPING_RULES_VERSION,
+  normalizeDescription,
+  UNCATEGORIZED
+} from './ifrsMapping.ts';
+
+describe('classify by keyword', () => {
+  it('takes the longest keyword found', () => {
+    const result = classify('Accumulated depreciation - motor vehicles');
+
+    expect(result).toMatchObject({
+      ifrsElementId: 'ifrs-full:PropertyPlantAndEquipment',
+      highLevelCategory: 'Assets',
+      contra: true,
+      confidence: 0.9,
+      rule: { id: 'accumulated-depreciation', source: 'keyword', label: '"accumulated depreciation"', version: MAPPING_RULES_VERSION }
+    });
+  });
+
+  it('matches keywords at the start of a word only', () => {
+    expect(classify('Trade receivables').ifrsElementId).toBe('ifrs-full:TradeAndOtherCurrentReceivables');
+    expect(classify('Recurrent grants')).toMatchObject({ ifrsCategory: UNCATEGORIZED, confidence: 0, rule: null });
+  });
+
+  it('skips rules for categories the statement cannot hold', () => {
+    expect(classify('Tax', null, { section: 'financial_position' }).ifrsElementId).toBe('ifrs-full:CurrentTaxLiabilitiesCurrent');
+    expect(classify('Tax', null, { section: 'profit_or_loss' })).toMatchObject({
+      ifrsElementId: 'ifrs-full:IncomeTaxExpenseContinuingOperations',
+      confidence: 0.8
+    });
+  });
+
+  it('leaves unmatched profit or loss lines under expenses', () => {
+    expect(classify('Sundry', null, { section: 'profit_or_loss' })).toMatchObject({
+      ifrsCategory: UNCATEGORIZED,
+      highLevelCategory: 'Expenses',
+      mainGrouping: UNCATEGORIZED
+    });
+  });
+});
+
+describe('classify by company knowledge', () => {
+  const precedents = [{ id: 'p1', description: 'director s loan', accountNumber: '2500', elementId: 'ifrs-full:TradeAndOtherCurrentPayables' }];
+  const accountRanges = [
+    { id: 'r1', start: 2000, end: 2999, elementId: 'ifrs-full:ShorttermBorrowings' },
+    { id: 'r2', start: 2400, end: 2599, elementId: 'ifrs-full:CurrentAccruedExpensesAndOtherCurrentLiabilities' }
+  ];
+
+  it('prefers an earlier correction for the same line and account', () => {
+    expect(classify("Director's  LOAN", '2500', { precedents, accountRanges })).toMatchObject({
+      ifrsElementId: 'ifrs-full:TradeAndOtherCurrentPayables',
+      confidence: 0.98,
+      rule: { id: 'p1', source: 'precedent' }
+    });
+  });
+
+  it('then the narrowest account range', () => {
+    expect(classify("Director's loan", '2510', { precedents, accountRanges })).toMatchObject({
+      ifrsElementId: 'ifrs-full:CurrentAccruedExpensesAndOtherCurrentLiabilities',
+      rule: { id: 'r2', source: 'account_range', label: 'accounts 2400–2599' }
+    });
+  });
+
+  it('then the keyword rules', () => {
+    expect(classify("Director's loan", 'DL-1', { precedents, accountRanges }).rule?.source).toBe('keyword');
+  });
+});
+
+describe('classify by heading', () => {
+  it('trusts a keyword in the heading less than one in the line', () => {
+    expect(classify('Customer A', null, { groupingHint: 'Trade receivables' })).toMatchObject({
+      ifrsElementId: 'ifrs-full:TradeAndOtherCurrentReceivables',
+      confidence: 0.54,
+      rule: { label: 'heading "Trade receivables"' }
+    });
+  });
+
+  it('only sets the grouping for a heading that names one', () => {
+    const result = classify('Customer A', null, { groupingHint: 'Non-current liabilities' });
+
+    expect(result).toMatchObject({ ifrsCategory: UNCATEGORIZED, highLevelCategory: 'Liabilities' });
+    expect(result.mainGrouping).toMatch(/non-current liabilities/i);
+  });
+});
+
+describe('lookups', () => {
+  it('reads the leading digits of an account number', () => {
+    expect(accountNumberValue('1010-02')).toBe(1010);
+    expect(accountNumberValue('A100')).toBeNull();
+    expect(findAccountRange(undefined, [{ id: 'r', start: 0, end: 10, elementId: 'x' }])).toBeUndefined();
+  });
+
+  it('normalizes descriptions for precedent keys', () => {
+    expect(normalizeDescription('  Trade-Payables (EUR) ')).toBe('trade payables eur');
+  });
+
+  it('finds categories by label', () => {
+    expect(findCategory('Trade and Other Payables')?.id).toBe('ifrs-full:TradeAndOtherCurrentPayables');
+    expect(findCategory('Not a category')).toBeUndefined();
+  });
+});
@@ -0,0 +1,353 @@
+// IFRS classification of account lines, shared by every upload path and the
+// mapping views. Keep this module free of Deno and DOM APIs so both runtimes
+// can import it.
+
+import { sectionAllowsCategory, type StatementSection } from './sections.ts';
+import {
+  assignableElements,
+  findElementByLabel,
+  highLevelCategoryOf,
+  mainGroupingOf,
+  type HighLevelCategory,
+  type NormalBalance
+} from './ifrsTaxonomy.ts';
+
+export type { HighLevelCategory, NormalBalance };
+
+// Bump when rules are added, removed or retargeted so stored classifications
+// can be traced back to the rule set that produced them
+export const MAPPING_RULES_VERSION = '2025.07.2';
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const HIGH_LEVEL_NORMAL_BALANCE: Record<HighLevelCategory, NormalBalance> = {
+  Assets: 'debit',
+  Liabilities: 'credit',
+  Equity: 'credit',
+  Revenue: 'credit',
+  Expenses: 'debit'
+};
+
+// A taxonomy element a line can be assigned to, with the labels stored on
+// entries
+export interface IfrsCategoryDefinition {
+  id: string;
+  name: string;
+  highLevelCategory: HighLevelCategory;
+  mainGrouping: string;
+  // Side a balance in this category normally sits on
+  normalBalance: NormalBalance;
+}
+
+// Categories offered on the Mapping page, in display order
+export const IFRS_CATEGORIES: IfrsCategoryDefinition[] = assignableElements().map(element => ({
+  id: element.id,
+  name: element.label,
+  highLevelCategory: highLevelCategoryOf(element.id) as HighLevelCategory,
+  mainGrouping: mainGroupingOf(element.id)?.label || element.label,
+  normalBalance: element.balance
+}));
+
+export interface MappingRule {
+  id: string;
+  keywords: string[];
+  // Taxonomy element the lines are assigned to
+  element: string;
+  // Lines that offset their category, e.g. accumulated depreciation within
+  // PPE, and so carry the opposite of its normal balance
+  contra?: boolean;
+}
+
+// Keywords match at the start of a word, so "receivable" also matches
+// "receivables" but "rent" does not match "current". Across all rules the
+// longest matching keyword wins; ties go to the earlier rule.
+export const MAPPING_RULES: MappingRule[] = [
+  // Assets - Non-current
+  { id: 'ppe', keywords: ['land', 'building', 'property', 'plant', 'machinery', 'equipment', 'vehicle', 'furniture', 'fixture'], element: 'ifrs-full:PropertyPlantAndEquipment' },
+  { id: 'accumulated-depreciation', keywords: ['accumulated depreciation', 'accumulated amortisation', 'accumulated amortization', 'accumulated impairment'], element: 'ifrs-full:PropertyPlantAndEquipment', contra: true },
+  { id: 'right-of-use', keywords: ['right-of-use', 'right of use', 'lease asset'], element: 'ifrs-full:RightofuseAssets' },
+  { id: 'investment-property', keywords: ['investment property'], element: 'ifrs-full:InvestmentProperty' },
+  { id: 'intangibles', keywords: ['intangible', 'software', 'patent', 'trademark', 'license', 'licence'], element: 'ifrs-full:IntangibleAssetsOtherThanGoodwill' },
+  { id: 'goodwill', keywords: ['goodwill'], element: 'ifrs-full:Goodwill' },
+  { id: 'associates', keywords: ['investment in associate', 'investments in associate'], element: 'ifrs-full:InvestmentsInAssociatesAccountedForUsingEquityMethod' },
+  { id: 'deferred-tax-asset', keywords: ['deferred tax asset'], element: 'ifrs-full:DeferredTaxAssets' },
+
+  // Assets - Current
+  { id: 'cash', keywords: ['cash', 'bank', 'petty cash'], element: 'ifrs-full:CashAndCashEquivalents' },
+  { id: 'receivables', keywords: ['receivable', 'debtors', 'accounts receivable', 'trade receivable'], element: 'ifrs-full:TradeAndOtherCurrentReceivables' },
+  { id: 'doubtful-debts', keywords: ['allowance for doubtful', 'provision for doubtful', 'bad debt provision', 'expected credit loss allowance', 'loss allowance'], element: 'ifrs-full:TradeAndOtherCurrentReceivables', contra: true },
+  { id: 'inventories', keywords: ['inventory', 'inventories', 'stock'], element: 'ifrs-full:Inventories' },
+  { id: 'prepayments', keywords: ['prepaid', 'prepayment'], element: 'ifrs-full:CurrentPrepayments' },
+
+  // Equity
+  { id: 'share-capital', keywords: ['capital', 'share capital', 'ordinary shares'], element: 'ifrs-full:IssuedCapital' },
+  { id: 'share-premium', keywords: ['share premium'], element: 'ifrs-full:SharePremium' },
+  { id: 'retained-earnings', keywords: ['retained earnings', 'retained profit', 'accumulated profit', 'accumulated loss'], element: 'ifrs-full:RetainedEarnings' },
+  { id: 'reserves', keywords: ['reserves', 'other reserves'], element: 'ifrs-full:OtherReserves' },
+  { id: 'other-comprehensive-income', keywords: ['other comprehensive income', 'revaluation surplus', 'translation reserve'], element: 'ifrs-full:AccumulatedOtherComprehensiveIncome' },
+  { id: 'treasury-shares', keywords: ['treasury shares', 'own shares held'], element: 'ifrs-full:TreasuryShares' },
+  { id: 'non-controlling', keywords: ['non-controlling', 'minority interest'], element: 'ifrs-full:NoncontrollingInterests' },
+
+  // Liabilities - Non-current
+  { id: 'borrowings', keywords: ['loan', 'borrowing', 'bank loan', 'long term loan', 'term loan'], element: 'ifrs-full:LongtermBorrowings' },
+  { id: 'lease-liabilities', keywords: ['lease liability', 'lease liabilities'], element: 'ifrs-full:NoncurrentLeaseLiabilities' },
+  { id: 'deferred-tax-liability', keywords: ['deferred tax liability', 'deferred tax liabilities'], element: 'ifrs-full:DeferredTaxLiabilities' },
+  { id: 'provisions', keywords: ['provision'], element: 'ifrs-full:NoncurrentProvisions' },
+
+  // Liabilities - Current
+  { id: 'payables', keywords: ['payable', 'creditors', 'accounts payable', 'trade payable'], element: 'ifrs-full:TradeAndOtherCurrentPayables' },
+  { id: 'accruals', keywords: ['accrual', 'accrued'], element: 'ifrs-full:CurrentAccruedExpensesAndOtherCurrentLiabilities' },
+  { id: 'short-term-borrowings', keywords: ['short term loan', 'overdraft'], element: 'ifrs-full:ShorttermBorrowings' },
+  { id: 'tax-liabilities', keywords: ['tax', 'tax payable', 'vat', 'income tax payable'], element: 'ifrs-full:CurrentTaxLiabilitiesCurrent' },
+
+  // Revenue
+  { id: 'revenue', keywords: ['revenue', 'sales', 'turnover', 'income'], element: 'ifrs-full:Revenue' },
+  { id: 'sales-returns', keywords: ['sales returns', 'returns inwards', 'discounts allowed', 'sales discounts'], element: 'ifrs-full:Revenue', contra: true },
+  { id: 'other-income', keywords: ['other income', 'sundry income', 'gain on'], element: 'ifrs-full:OtherIncome' },
+  { id: 'finance-income', keywords: ['interest income', 'interest received', 'finance income'], element: 'ifrs-full:FinanceIncome' },
+
+  // Expenses
+  { id: 'cost-of-sales', keywords: ['cost', 'cost of sales', 'cost of goods sold', 'purchases'], element: 'ifrs-full:CostOfSales' },
+  { id: 'distribution', keywords: ['distribution', 'selling expense', 'marketing', 'advertising'], element: 'ifrs-full:DistributionCosts' },
+  { id: 'administrative', keywords: ['expense', 'rent', 'administrative', 'utilities', 'insurance', 'professional fees'], element: 'ifrs-full:AdministrativeExpense' },
+  { id: 'employee-benefits', keywords: ['salary', 'salaries', 'wage', 'payroll', 'staff cost', 'employee benefit'], element: 'ifrs-full:EmployeeBenefitsExpense' },
+  { id: 'depreciation', keywords: ['depreciation', 'amortisation', 'amortization'], element: 'ifrs-full:DepreciationAndAmortisationExpense' },
+  { id: 'finance-costs', keywords: ['interest', 'interest expense', 'finance cost', 'bank charges'], element: 'ifrs-full:FinanceCosts' },
+  { id: 'tax-expense', keywords: ['tax', 'income tax', 'income tax expense', 'taxation'], element: 'ifrs-full:IncomeTaxExpenseContinuingOperations' }
+];
+
+// A company's chart of accounts: account numbers from start to end
+// (inclusive) belong to one category
+export interface AccountRangeRule {
+  id: string;
+  start: number;
+  end: number;
+  elementId: string;
+}
+
+// A manual reclassification remembered for a company
+export interface MappingPrecedent {
+  id: string;
+  // As returned by normalizeDescription
+  description: string;
+  // Empty when the line had no account number
+  accountNumber: string;
+  elementId: string;
+}
+
+export interface MappingContext {
+  // Statement the line was printed on; keyword rules for other statements
+  // are skipped
+  section?: StatementSection;
+  rules?: MappingRule[];
+  // Checked first, then account ranges, then the keyword rules
+  precedents?: MappingPrecedent[];
+  accountRanges?: AccountRangeRule[];
+  // Heading the line sat under in its sheet ("Current assets"), tried when
+  // the description matches no rule
+  groupingHint?: string;
+}
+
+export interface MatchedRule {
+  id: string;
+  source: 'keyword' | 'account_range' | 'precedent';
+  // What matched, for display on the Mapping page
+  label: string;
+  // Version of the keyword rule set
+  version?: string;
+}
+
+export interface Classification {
+  // Unset when no rule matched
+  ifrsElementId?: string;
+  ifrsCategory: string;
+  highLevelCategory: HighLevelCategory;
+  mainGrouping: string;
+  // 0 to 1; how much the Mapping page should trust the classification
+  confidence: number;
+  rule: MatchedRule | null;
+  // Set when the matched rule marks a contra line
+  contra?: boolean;
+}
+
+export const categoryById = (id: string | null | undefined): IfrsCategoryDefinition | undefined =>
+  id ? IFRS_CATEGORIES.find(category => category.id === id) : undefined;
+
+// Look a category up by its label, for data stored before entries carried
+// element ids and for model replies
+export const findCategory = (name: string, highLevelCategory?: HighLevelCategory): IfrsCategoryDefinition | undefined =>
+  categoryById(findElementByLabel(name, highLevelCategory)?.id);
+
+// The category an entry is assigned to: its element, else its stored label
+export const resolveCategory = (
+  elementId: string | null | undefined,
+  name: string,
+  highLevelCategory?: HighLevelCategory
+): IfrsCategoryDefinition | undefined =>
+  categoryById(elementId) || findCategory(name, highLevelCategory);
+
+export const categoryOptions = (highLevelCategory: HighLevelCategory): IfrsCategoryDefinition[] =>
+  IFRS_CATEGORIES.filter(category => category.highLevelCategory === highLevelCategory);
+
+// The statement heading an entry falls under. Stored groupings are matched
+// by label so spelling variants resolve to the same heading.
+export const groupingElementId = (
+  category: IfrsCategoryDefinition | undefined,
+  mainGrouping: string,
+  highLevelCategory?: HighLevelCategory
+): string | undefined =>
+  category
+    ? mainGroupingOf(category.id)?.id
+    : findElementByLabel(mainGrouping, highLevelCategory, { abstract: true })?.id;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const keywordPatterns = new Map<string, RegExp>();
+
+const matchesKeyword = (description: string, keyword: string) => {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    pattern = new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(keyword)}`);
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern.test(description);
+};
+
+const normalizeText = (description: string) => description.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Key used to recognise the same line on a later upload: case, punctuation
+// and spacing are ignored
+export const normalizeDescription = (description: string) =>
+  normalizeText(description || '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const findPrecedent = (
+  description: string,
+  accountNumber: string | null | undefined,
+  precedents: MappingPrecedent[]
+): MappingPrecedent | undefined => {
+  const key = normalizeDescription(description);
+  const account = (accountNumber || '').trim();
+  return precedents.find(precedent => precedent.description === key && precedent.accountNumber === account);
+};
+
+// A single generic word ("tax", "cost") is weaker evidence than a phrase
+const keywordConfidence = (keyword: string, section?: StatementSection) =>
+  (keyword.includes(' ') ? 0.9 : 0.75) + (section && section !== 'notes' ? 0.05 : 0);
+
+// An unmatched line keeps a high level category for its sign but is put
+// under no statement grouping, so it is not counted in one until accepted
+const uncategorized = (section?: StatementSection): Classification => ({
+  ifrsCategory: UNCATEGORIZED,
+  highLevelCategory: section === 'profit_or_loss' ? 'Expenses' : 'Assets',
+  mainGrouping: UNCATEGORIZED,
+  confidence: 0,
+  rule: null
+});
+
+const categoryFields = (category: IfrsCategoryDefinition) => ({
+  ifrsElementId: category.id,
+  ifrsCategory: category.name,
+  highLevelCategory: category.highLevelCategory,
+  mainGrouping: category.mainGrouping
+});
+
+// Leading digits of an account number ("1010", "1010-02", "1010.1")
+export const accountNumberValue = (accountNumber?: string | null): number | null => {
+  const match = (accountNumber || '').trim().match(/^\d+/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+// The narrowest range containing the account wins, so a specific range can
+// carve an exception out of a broad one
+export const findAccountRange = (accountNumber: string | null | undefined, ranges: AccountRangeRule[]): AccountRangeRule | undefined => {
+  const value = accountNumberValue(accountNumber);
+  if (value === null) return undefined;
+
+  return ranges
+    .filter(range => value >= range.start && value <= range.end)
+    .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+};
+
+// Classify an account line: earlier corrections first, then account ranges,
+// then the keyword rules
+export const classify = (
+  description: string,
+  accountNumber?: string | null,
+  context: MappingContext = {}
+): Classification => {
+  const precedent = findPrecedent(description, accountNumber, context.precedents || []);
+  const precedentCategory = categoryById(precedent?.elementId);
+  if (precedent && precedentCategory) {
+    return {
+      ...categoryFields(precedentCategory),
+      confidence: 0.98,
+      rule: { id: precedent.id, source: 'precedent', label: 'an earlier manual correction' }
+    };
+  }
+
+  const range = findAccountRange(accountNumber, context.accountRanges || []);
+  const rangeCategory = categoryById(range?.elementId);
+  if (range && rangeCategory) {
+    return {
+      ...categoryFields(rangeCategory),
+      confidence: 0.95,
+      rule: { id: range.id, source: 'account_range', label: `accounts ${range.start}–${range.end}` }
+    };
+  }
+
+  const rules = context.rules || MAPPING_RULES;
+  const best = findKeywordRule(normalizeText(description || ''), rules, context.section);
+
+  if (best) {
+    const { rule, category, keyword } = best;
+    return {
+      ...categoryFields(category),
+      confidence: Math.round(Math.min(keywordConfidence(keyword, context.section), 1) * 100) / 100,
+      rule: { id: rule.id, source: 'keyword', label: `"${keyword}"`, version: MAPPING_RULES_VERSION },
+      contra: rule.contra || undefined
+    };
+  }
+
+  return context.groupingHint
+    ? classifyByGrouping(context.groupingHint, rules, context.section)
+    : uncategorized(context.section);
+};
+
+// The longest keyword found in the text wins
+const findKeywordRule = (text: string, rules: MappingRule[], section?: StatementSection) => {
+  let best: { rule: MappingRule; category: IfrsCategoryDefinition; keyword: string } | null = null;
+
+  for (const rule of rules) {
+    const category = categoryById(rule.element);
+    if (!category || !sectionAllowsCategory(section, category.highLevelCategory)) continue;
+
+    for (const keyword of rule.keywords) {
+      if ((!best || keyword.length > best.keyword.length) && matchesKeyword(text, keyword)) {
+        best = { rule, category, keyword };
+      }
+    }
+  }
+
+  return best;
+};
+
+// A heading says less about a line than its own description: a keyword in
+// it is trusted less, and a heading that only names a statement grouping
+// ("Current liabilities") sets the grouping and leaves the line
+// uncategorized
+const classifyByGrouping = (hint: string, rules: MappingRule[], section?: StatementSection): Classification => {
+  const match = findKeywordRule(normalizeText(hint), rules, section);
+  if (match) {
+    return {
+      ...categoryFields(match.category),
+      confidence: Math.round(keywordConfidence(match.keyword, section) * 0.6 * 100) / 100,
+      rule: { id: match.rule.id, source: 'keyword', label: `heading "${hint}"`, version: MAPPING_RULES_VERSION }
+    };
+  }
+
+  const grouping = findElementByLabel(hint, undefined, { abstract: true });
+  const highLevelCategory = grouping && highLevelCategoryOf(grouping.id);
+  if (!grouping || !highLevelCategory || !sectionAllowsCategory(section, highLevelCategory)) return uncategorized(section);
+
+  return { ...uncategorized(section), highLevelCategory, mainGrouping: grouping.label };
+};
@@ -0,0 +1,149 @@
+// Category hierarchy modelled on the IFRS Accounting Taxonomy. Element ids
+// follow the taxonomy's ifrs-full names; headings the taxonomy has no
+// element for use the app prefix. Keep this module free of Deno and DOM APIs
+// so both runtimes can import it.
+
+export type HighLevelCategory = 'Assets' | 'Liabilities' | 'Equity' | 'Revenue' | 'Expenses';
+
+export type NormalBalance = 'debit' | 'credit';
+
+export type TaxonomyStatement = 'financial_position' | 'profit_or_loss';
+
+export interface TaxonomyElement {
+  id: string;
+  label: string;
+  statement: TaxonomyStatement;
+  // Unset for the five high level headings
+  parent?: string;
+  balance: NormalBalance;
+  // Headings group other elements and are never assigned to a line
+  abstract?: boolean;
+}
+
+// Top level headings, one per high level category
+export const HIGH_LEVEL_ELEMENTS: Record<HighLevelCategory, string> = {
+  Assets: 'ifrs-full:AssetsAbstract',
+  Liabilities: 'ifrs-full:LiabilitiesAbstract',
+  Equity: 'ifrs-full:EquityAbstract',
+  Revenue: 'app:IncomeAbstract',
+  Expenses: 'app:ExpensesAbstract'
+};
+
+// In presentation order: every heading comes before its children
+export const IFRS_TAXONOMY: TaxonomyElement[] = [
+  { id: 'ifrs-full:AssetsAbstract', label: 'Assets', statement: 'financial_position', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:CurrentAssetsAbstract', label: 'Current Assets', statement: 'financial_position', parent: 'ifrs-full:AssetsAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:CashAndCashEquivalents', label: 'Cash and Cash Equivalents', statement: 'financial_position', parent: 'ifrs-full:CurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:TradeAndOtherCurrentReceivables', label: 'Trade and Other Receivables', statement: 'financial_position', parent: 'ifrs-full:CurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:Inventories', label: 'Inventories', statement: 'financial_position', parent: 'ifrs-full:CurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:CurrentPrepayments', label: 'Prepaid Expenses', statement: 'financial_position', parent: 'ifrs-full:CurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:OtherCurrentAssets', label: 'Other Current Assets', statement: 'financial_position', parent: 'ifrs-full:CurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:NoncurrentAssetsAbstract', label: 'Non-current Assets', statement: 'financial_position', parent: 'ifrs-full:AssetsAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:PropertyPlantAndEquipment', label: 'Property, Plant and Equipment', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:RightofuseAssets', label: 'Right-of-Use Assets', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:InvestmentProperty', label: 'Investment Property', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:IntangibleAssetsOtherThanGoodwill', label: 'Intangible Assets', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:Goodwill', label: 'Goodwill', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:InvestmentsInAssociatesAccountedForUsingEquityMethod', label: 'Investments in Associates', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:DeferredTaxAssets', label: 'Deferred Tax Assets', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+  { id: 'ifrs-full:OtherNoncurrentAssets', label: 'Other Non-current Assets', statement: 'financial_position', parent: 'ifrs-full:NoncurrentAssetsAbstract', balance: 'debit' },
+
+  { id: 'ifrs-full:LiabilitiesAbstract', label: 'Liabilities', statement: 'financial_position', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:CurrentLiabilitiesAbstract', label: 'Current Liabilities', statement: 'financial_position', parent: 'ifrs-full:LiabilitiesAbstract', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:TradeAndOtherCurrentPayables', label: 'Trade and Other Payables', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:CurrentAccruedExpensesAndOtherCurrentLiabilities', label: 'Accrued Expenses', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:ShorttermBorrowings', label: 'Short-term Borrowings', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:CurrentPortionOfLongtermBorrowings', label: 'Current Portion of Long-term Debt', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:CurrentTaxLiabilitiesCurrent', label: 'Tax Liabilities', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:OtherCurrentLiabilities', label: 'Other Current Liabilities', statement: 'financial_position', parent: 'ifrs-full:CurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:NoncurrentLiabilitiesAbstract', label: 'Non-current Liabilities', statement: 'financial_position', parent: 'ifrs-full:LiabilitiesAbstract', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:LongtermBorrowings', label: 'Borrowings', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:NoncurrentLeaseLiabilities', label: 'Lease Liabilities', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:DeferredTaxLiabilities', label: 'Deferred Tax Liabilities', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:NoncurrentProvisionsForEmployeeBenefits', label: 'Employee Benefit Obligations', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:NoncurrentProvisions', label: 'Provisions', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+  { id: 'ifrs-full:OtherNoncurrentLiabilities', label: 'Other Non-current Liabilities', statement: 'financial_position', parent: 'ifrs-full:NoncurrentLiabilitiesAbstract', balance: 'credit' },
+
+  { id: 'ifrs-full:EquityAbstract', label: 'Equity', statement: 'financial_position', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:IssuedCapital', label: 'Share Capital', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:SharePremium', label: 'Share Premium', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:RetainedEarnings', label: 'Retained Earnings', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:OtherReserves', label: 'Other Reserves', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:AccumulatedOtherComprehensiveIncome', label: 'Other Comprehensive Income', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:NoncontrollingInterests', label: 'Non-controlling Interests', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'credit' },
+  { id: 'ifrs-full:TreasuryShares', label: 'Treasury Shares', statement: 'financial_position', parent: 'ifrs-full:EquityAbstract', balance: 'debit' },
+
+  { id: 'app:IncomeAbstract', label: 'Revenue', statement: 'profit_or_loss', balance: 'credit', abstract: true },
+  { id: 'app:RevenueAbstract', label: 'Revenue', statement: 'profit_or_loss', parent: 'app:IncomeAbstract', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:Revenue', label: 'Revenue', statement: 'profit_or_loss', parent: 'app:RevenueAbstract', balance: 'credit' },
+  { id: 'app:OtherIncomeAbstract', label: 'Other Income', statement: 'profit_or_loss', parent: 'app:IncomeAbstract', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:OtherIncome', label: 'Other Income', statement: 'profit_or_loss', parent: 'app:OtherIncomeAbstract', balance: 'credit' },
+  { id: 'ifrs-full:ShareOfProfitLossOfAssociatesAndJointVenturesAccountedForUsingEquityMethod', label: 'Share of Profit of Associates', statement: 'profit_or_loss', parent: 'app:OtherIncomeAbstract', balance: 'credit' },
+  { id: 'app:FinanceIncomeAbstract', label: 'Finance Income', statement: 'profit_or_loss', parent: 'app:IncomeAbstract', balance: 'credit', abstract: true },
+  { id: 'ifrs-full:FinanceIncome', label: 'Finance Income', statement: 'profit_or_loss', parent: 'app:FinanceIncomeAbstract', balance: 'credit' },
+
+  { id: 'app:ExpensesAbstract', label: 'Expenses', statement: 'profit_or_loss', balance: 'debit', abstract: true },
+  { id: 'app:CostOfSalesAbstract', label: 'Cost of Sales', statement: 'profit_or_loss', parent: 'app:ExpensesAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:CostOfSales', label: 'Cost of Sales', statement: 'profit_or_loss', parent: 'app:CostOfSalesAbstract', balance: 'debit' },
+  { id: 'app:OperatingExpensesAbstract', label: 'Operating Expenses', statement: 'profit_or_loss', parent: 'app:ExpensesAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:DistributionCosts', label: 'Distribution Costs', statement: 'profit_or_loss', parent: 'app:OperatingExpensesAbstract', balance: 'debit' },
+  { id: 'ifrs-full:AdministrativeExpense', label: 'Administrative Expenses', statement: 'profit_or_loss', parent: 'app:OperatingExpensesAbstract', balance: 'debit' },
+  { id: 'ifrs-full:EmployeeBenefitsExpense', label: 'Employee Benefits Expense', statement: 'profit_or_loss', parent: 'app:OperatingExpensesAbstract', balance: 'debit' },
+  { id: 'ifrs-full:DepreciationAndAmortisationExpense', label: 'Depreciation and Amortisation', statement: 'profit_or_loss', parent: 'app:OperatingExpensesAbstract', balance: 'debit' },
+  { id: 'ifrs-full:OtherExpenseByFunction', label: 'Other Expenses', statement: 'profit_or_loss', parent: 'app:OperatingExpensesAbstract', balance: 'debit' },
+  { id: 'app:FinanceCostsAbstract', label: 'Finance Costs', statement: 'profit_or_loss', parent: 'app:ExpensesAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:FinanceCosts', label: 'Finance Costs', statement: 'profit_or_loss', parent: 'app:FinanceCostsAbstract', balance: 'debit' },
+  { id: 'app:TaxExpenseAbstract', label: 'Tax Expense', statement: 'profit_or_loss', parent: 'app:ExpensesAbstract', balance: 'debit', abstract: true },
+  { id: 'ifrs-full:IncomeTaxExpenseContinuingOperations', label: 'Tax Expense', statement: 'profit_or_loss', parent: 'app:TaxExpenseAbstract', balance: 'debit' }
+];
+
+const elementsById = new Map(IFRS_TAXONOMY.map(element => [element.id, element]));
+
+export const findElement = (id: string | null | undefined): TaxonomyElement | undefined =>
+  id ? elementsById.get(id) : undefined;
+
+// The element and its headings, from the high level heading down
+export const elementPath = (id: string): TaxonomyElement[] => {
+  const path: TaxonomyElement[] = [];
+  for (let element = findElement(id); element; element = findElement(element.parent)) {
+    path.unshift(element);
+  }
+  return path;
+};
+
+export const highLevelCategoryOf = (id: string): HighLevelCategory | undefined => {
+  const root = elementPath(id)[0];
+  return (Object.keys(HIGH_LEVEL_ELEMENTS) as HighLevelCategory[]).find(category => HIGH_LEVEL_ELEMENTS[category] === root?.id);
+};
+
+// The heading a line is grouped under on the statements: the second level
+// where there is one ("Current Assets"), else the high level heading
+// ("Equity")
+export const mainGroupingOf = (id: string): TaxonomyElement | undefined => {
+  const path = elementPath(id);
+  return path.length > 2 ? path[1] : path[0];
+};
+
+// Elements a line can be assigned to, in presentation order
+export const assignableElements = (highLevelCategory?: HighLevelCategory): TaxonomyElement[] =>
+  IFRS_TAXONOMY.filter(element =>
+    !element.abstract && (!highLevelCategory || highLevelCategoryOf(element.id) === highLevelCategory)
+  );
+
+// Labels were stored before entries carried element ids, and the same
+// grouping was spelled several ways ("Non-current Assets", "Non-Current
+// Assets"). Matching ignores case and spacing.
+const labelKey = (label: string) => (label || '').toLowerCase().replace(/[\s-]+/g, ' ').trim();
+
+export const findElementByLabel = (
+  label: string,
+  highLevelCategory?: HighLevelCategory,
+  options: { abstract?: boolean } = {}
+): TaxonomyElement | undefined => {
+  const key = labelKey(label);
+  return IFRS_TAXONOMY.find(element =>
+    !!element.abstract === !!options.abstract &&
+    labelKey(element.label) === key &&
+    (!highLevelCategory || highLevelCategoryOf(element.id) === highLevelCategory)
+  );
+};
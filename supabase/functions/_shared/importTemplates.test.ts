@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectImportSettings,
+  detectUploadPeriod,
+  guessSheetRole,
+  type ImportTemplate,
+  matchTemplate,
+  resolvePeriod,
+  sheetMatchesSelector,
+  toImportTemplate
+} from './importTemplates.ts';
+import { type Cell, headerFingerprint } from './sheetLayout.ts';
+
+const rows: Cell[][] = [
+  ['Trial balance for the year ended 30 June 2024'],
+  ['Konto', 'Bezeichnung', 'Saldo'],
+  ['1000', 'Kasse', '1.234,56'],
+  ['1200', 'Bank', '-78,90']
+];
+
+const template = (changes: Partial<ImportTemplate> = {}): ImportTemplate => ({
+  ...detectImportSettings(rows),
+  id: 'template-1',
+  name: 'DATEV export',
+  fingerprint: headerFingerprint(rows[1]),
+  sheetSelector: null,
+  ...changes
+});
+
+describe('detectImportSettings', () => {
+  it('detects the layout and the number format of the sheet', () => {
+    expect(detectImportSettings(rows)).toMatchObject({
+      layout: { headerRow: 1, columns: { account: 0, description: 1, balance: 2 } },
+      numberLocale: 'comma',
+      dateOrder: 'dmy',
+      amountSign: 'debit_positive'
+    });
+  });
+});
+
+describe('toImportTemplate', () => {
+  it('falls back to defaults for unknown stored values', () => {
+    expect(toImportTemplate({
+      id: 't',
+      name: 'Legacy',
+      header_fingerprint: 'account|balance',
+      sheet_selector: 'TB*',
+      header_row: 0,
+      column_roles: null,
+      sign_convention: 'credit_positive',
+      number_locale: 'unknown',
+      date_order: 'mdy',
+      skip_rows: 0,
+      period_source: ''
+    })).toMatchObject({
+      layout: { headerRow: 0, columns: {} },
+      amountSign: 'credit_positive',
+      numberLocale: 'point',
+      dateOrder: 'mdy',
+      periodSource: 'filename',
+      templateName: 'Legacy'
+    });
+  });
+});
+
+describe('matchTemplate', () => {
+  it('matches on the header found where the template expects it', () => {
+    expect(matchTemplate([template()], rows)?.id).toBe('template-1');
+    expect(matchTemplate([template({ layout: { headerRow: 0, columns: {} } })], rows)).toBeUndefined();
+  });
+
+  it('checks the sheet selector for workbooks only', () => {
+    const selected = template({ sheetSelector: 'TB *' });
+
+    expect(matchTemplate([selected], rows, 'TB 2024')?.id).toBe('template-1');
+    expect(matchTemplate([selected], rows, 'Mapping')).toBeUndefined();
+    expect(matchTemplate([selected], rows)?.id).toBe('template-1');
+  });
+
+  it('treats selector characters other than * literally', () => {
+    expect(sheetMatchesSelector('TB (2024)', 'tb (2024)')).toBe(true);
+    expect(sheetMatchesSelector('TB.2024', 'TB 2024')).toBe(false);
+  });
+});
+
+describe('guessSheetRole', () => {
+  const layout = detectImportSettings(rows).layout;
+
+  it('goes by the sheet name', () => {
+    expect(guessSheetRole('TB 2024', layout)).toBe('current_tb');
+    expect(guessSheetRole('Prior year TB', layout)).toBe('comparative_tb');
+    expect(guessSheetRole('Account mapping', layout)).toBe('mapping');
+    expect(guessSheetRole('Notes', layout)).toBe('ignore');
+  });
+
+  it('ignores sheets without a readable layout', () => {
+    expect(guessSheetRole('TB 2024', { headerRow: null, columns: {} })).toBe('ignore');
+  });
+});
+
+describe('resolvePeriod', () => {
+  const settings = { periodSource: 'sheet_name' as const, dateOrder: 'dmy' as const };
+
+  it('ends bare years in the sheet name on the upload year end', () => {
+    expect(resolvePeriod(settings, { uploadPeriod: '2024-06-30', sheetName: '2023' })).toBe('2023-06-30');
+  });
+
+  it('dates an unlabelled comparative sheet a year before the current one', () => {
+    expect(resolvePeriod(settings, { uploadPeriod: '2024-06-30', sheetName: 'Prior year', currentPeriod: '2024-06-30' }))
+      .toBe('2023-06-30');
+    expect(resolvePeriod(settings, { uploadPeriod: '2024-06-30', sheetName: 'TB' })).toBe('2024-06-30');
+  });
+
+  it('reads the period column in the sheet date order', () => {
+    expect(resolvePeriod({ periodSource: 'column', dateOrder: 'mdy' }, { uploadPeriod: '2024-12-31', periodCell: '03/31/2024' }))
+      .toBe('2024-03-31');
+  });
+});
+
+describe('detectUploadPeriod', () => {
+  it('reads the title above the header before the file name', () => {
+    const period = detectUploadPeriod('TB 2023.xlsx', [{ name: 'TB', rows, settings: detectImportSettings(rows) }]);
+
+    expect(period).toMatchObject({ endDate: '2024-06-30', evidence: 'content' });
+  });
+
+  it('skips headers and names of sheets that are not trial balances', () => {
+    const mapping: Cell[][] = [['Account', 'Description', '31 Dec 2025']];
+    const tb: Cell[][] = [['Account', 'Description', '31 Dec 2024'], ['1000', 'Cash', 10]];
+
+    const period = detectUploadPeriod('upload.xlsx', [
+      { name: 'Mapping', rows: mapping, settings: detectImportSettings(mapping), role: 'mapping' },
+      { name: 'TB', rows: tb, settings: detectImportSettings(tb), role: 'current_tb' }
+    ]);
+
+    expect(period).toMatchObject({ endDate: '2024-12-31', evidence: 'column_header' });
+  });
+});
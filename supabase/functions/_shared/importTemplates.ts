@@ -0,0 +1,226 @@
+// Named import templates for recurring exports, shared by the upload wizard,
+// process-excel and process-csv. Keep this module free of Deno and DOM APIs
+// so both runtimes can import it.
+
+import {
+  type DateOrder,
+  type DetectedPeriod,
+  detectDateOrder,
+  detectReportPeriod,
+  parsePeriodLabel,
+  priorPeriodDate,
+  yearEndOf
+} from './periods.ts';
+import {
+  type AmountSign,
+  type Cell,
+  cellText,
+  detectNumberLocale,
+  detectSheetLayout,
+  isLayoutUsable,
+  type NumberLocale,
+  type ReadOptions,
+  type SheetLayout,
+  sheetFingerprint
+} from './sheetLayout.ts';
+
+// Where an import takes its reporting period from. 'filename' is the
+// period detected for the whole upload, or the one confirmed for it; the
+// value predates detection from the content and is kept for saved templates.
+export type PeriodSource = 'filename' | 'sheet_name' | 'column';
+
+export const PERIOD_SOURCE_LABELS: Record<PeriodSource, string> = {
+  filename: 'Upload period',
+  sheet_name: 'Sheet name',
+  column: 'Period column'
+};
+
+// What a sheet of a workbook holds. Only trial balance sheets produce
+// entries; the comparative one is dated a year before the current one.
+export type SheetRole = 'current_tb' | 'comparative_tb' | 'mapping' | 'ignore';
+
+export const SHEET_ROLES: SheetRole[] = ['current_tb', 'comparative_tb', 'mapping', 'ignore'];
+
+export const SHEET_ROLE_LABELS: Record<SheetRole, string> = {
+  current_tb: 'Current TB',
+  comparative_tb: 'Comparative TB',
+  mapping: 'Mapping table',
+  ignore: 'Ignore'
+};
+
+export const NUMBER_LOCALE_LABELS: Record<NumberLocale, string> = {
+  point: '1,234.56',
+  comma: '1.234,56'
+};
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: '31/12/2024',
+  mdy: '12/31/2024'
+};
+
+export const AMOUNT_SIGN_LABELS: Record<AmountSign, string> = {
+  debit_positive: 'Debits positive',
+  credit_positive: 'Credits positive'
+};
+
+// Everything needed to read one sheet
+export interface ImportSettings {
+  layout: SheetLayout;
+  amountSign: AmountSign;
+  numberLocale: NumberLocale;
+  dateOrder: DateOrder;
+  skipRows: number;
+  periodSource: PeriodSource;
+  // Set when the settings come from a saved template
+  templateName?: string;
+}
+
+export interface ImportTemplate extends ImportSettings {
+  id: string;
+  name: string;
+  fingerprint: string;
+  // Sheet names the template applies to; "*" matches any run of characters.
+  // Null applies it to every sheet.
+  sheetSelector: string | null;
+}
+
+export interface ImportTemplateRow {
+  id: string;
+  name: string;
+  header_fingerprint: string;
+  sheet_selector: string | null;
+  header_row: number | null;
+  column_roles: unknown;
+  sign_convention: string;
+  number_locale: string;
+  date_order: string;
+  skip_rows: number;
+  period_source: string;
+}
+
+export const defaultImportSettings = (layout: SheetLayout): ImportSettings => ({
+  layout,
+  amountSign: 'debit_positive',
+  numberLocale: 'point',
+  dateOrder: 'dmy',
+  skipRows: 0,
+  periodSource: 'filename'
+});
+
+// Settings for a sheet without a template: the detected layout, and the
+// number and date formats its cells are written in
+export const detectImportSettings = (rows: Cell[][]): ImportSettings => ({
+  ...defaultImportSettings(detectSheetLayout(rows)),
+  numberLocale: detectNumberLocale(rows),
+  dateOrder: detectDateOrder(rows.flatMap(row => (row || []).filter(cell => typeof cell === 'string') as string[]))
+});
+
+export const toImportTemplate = (row: ImportTemplateRow): ImportTemplate => ({
+  id: row.id,
+  name: row.name,
+  fingerprint: row.header_fingerprint,
+  sheetSelector: row.sheet_selector,
+  layout: {
+    headerRow: row.header_row,
+    columns: (row.column_roles || {}) as SheetLayout['columns']
+  },
+  amountSign: row.sign_convention === 'credit_positive' ? 'credit_positive' : 'debit_positive',
+  numberLocale: row.number_locale === 'comma' ? 'comma' : 'point',
+  dateOrder: row.date_order === 'mdy' ? 'mdy' : 'dmy',
+  skipRows: row.skip_rows || 0,
+  periodSource: (row.period_source as PeriodSource) || 'filename',
+  templateName: row.name
+});
+
+export const toReadOptions = (settings: ImportSettings): ReadOptions => ({
+  amountSign: settings.amountSign,
+  numberLocale: settings.numberLocale,
+  skipRows: settings.skipRows
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+export const sheetMatchesSelector = (selector: string | null, sheetName?: string): boolean => {
+  if (!selector || sheetName === undefined) return true;
+  const pattern = selector.trim().split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${pattern}$`, 'i').test(sheetName.trim());
+};
+
+// The template whose header row is found where it expects it. CSV files have
+// no sheet name, so the selector is not checked for them.
+export const matchTemplate = (
+  templates: ImportTemplate[],
+  rows: Cell[][],
+  sheetName?: string
+): ImportTemplate | undefined =>
+  templates.find(template =>
+    sheetMatchesSelector(template.sheetSelector, sheetName) &&
+    sheetFingerprint(rows, template.layout.headerRow) === template.fingerprint
+  );
+
+const COMPARATIVE_SHEET = /\b(prior|previous|comparative|last year|py|ly)\b/i;
+const MAPPING_SHEET = /\b(map|mapping|mappings|chart of accounts|coa)\b/i;
+const IGNORED_SHEET = /\b(notes?|cover|contents|instructions|read ?me)\b/i;
+
+export const isTrialBalanceRole = (role: SheetRole): boolean => role === 'current_tb' || role === 'comparative_tb';
+
+// A first guess at a sheet's role from its name, for the user to confirm.
+// Sheets without a readable trial balance layout are ignored.
+export const guessSheetRole = (sheetName: string, layout: SheetLayout): SheetRole => {
+  if (MAPPING_SHEET.test(sheetName)) return 'mapping';
+  if (IGNORED_SHEET.test(sheetName) || !isLayoutUsable(layout)) return 'ignore';
+  return COMPARATIVE_SHEET.test(sheetName) ? 'comparative_tb' : 'current_tb';
+};
+
+// Period end date for a row under the settings' period source. Bare years
+// in a sheet name or column end on the upload period's year end. When they
+// do not name a period, a comparative sheet (one given the current period)
+// is dated the year before it, and anything else takes the upload period.
+export const resolvePeriod = (
+  settings: Pick<ImportSettings, 'periodSource' | 'dateOrder'>,
+  context: { uploadPeriod: string; sheetName?: string; periodCell?: Cell; currentPeriod?: string }
+): string => {
+  const { periodSource } = settings;
+  const yearEnd = yearEndOf(context.uploadPeriod);
+  const text = periodSource === 'sheet_name' ? context.sheetName : periodSource === 'column' ? cellText(context.periodCell) : undefined;
+  const labelled = text && parsePeriodLabel(text, yearEnd, settings.dateOrder)?.endDate;
+  if (labelled) return labelled;
+  if (context.currentPeriod) return priorPeriodDate(context.currentPeriod, 1);
+  return context.uploadPeriod;
+};
+
+// Rows read for title text when a sheet has no header row
+const TITLE_ROWS = 10;
+
+// The title rows above a sheet's header and the header itself, which is
+// all period detection reads
+export const titleRows = (rows: Cell[][], layout: SheetLayout): Cell[][] =>
+  rows.slice(0, layout.headerRow === null ? TITLE_ROWS : layout.headerRow + 1);
+
+// The period a workbook or CSV file reports, from the title rows above each
+// sheet's header ("Trial balance for the year ended 30 June 2024"), the
+// header cells, the sheet names and the file name. Mapping sheets are only
+// read for their titles.
+export const detectUploadPeriod = (
+  filename: string,
+  sheets: Array<{ name?: string; rows: Cell[][]; settings: ImportSettings; role?: SheetRole }>
+): DetectedPeriod => {
+  const texts: string[] = [];
+  const headers: string[] = [];
+  const sheetNames: string[] = [];
+
+  sheets.forEach(({ name, rows, settings, role }) => {
+    const { headerRow } = settings.layout;
+    titleRows(rows, settings.layout)
+      .forEach(row => texts.push((row || []).map(cellText).filter(Boolean).join(' ')));
+
+    if (role && !isTrialBalanceRole(role)) return;
+    if (headerRow !== null) headers.push(...(rows[headerRow] || []).map(cellText).filter(Boolean));
+    if (name) sheetNames.push(name);
+  });
+
+  return detectReportPeriod(
+    { texts, headers, sheetNames, filename },
+    { dateOrder: sheets[0]?.settings.dateOrder }
+  );
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assignSections,
+  buildPageTable,
+  detectPdfPeriod,
+  isAmountToken,
+  normalizeAmount,
+  parseReportedTotals,
+  parseTableData,
+  type TextItem
+} from './pdfTable.ts';
+
+// A text item as pdf.js reports it, about 6 points per character
+const item = (text: string, x: number, y: number, width = text.length * 6): TextItem => ({ text, x, y, width, height: 10 });
+
+// A figure right-aligned on the given edge
+const figure = (text: string, right: number, y: number): TextItem => item(text, right - text.length * 6, y);
+
+describe('normalizeAmount', () => {
+  it('reads brackets and leading minus signs as negative', () => {
+    expect(normalizeAmount('(3,000)')).toBe(-3000);
+    expect(normalizeAmount('−1,234.50')).toBe(-1234.5);
+    expect(normalizeAmount('€1,234.50')).toBe(1234.5);
+    expect(normalizeAmount('-')).toBe(0);
+    expect(normalizeAmount('n/a')).toBe(0);
+  });
+
+  it('recognises figures and nil dashes as amounts', () => {
+    expect(isAmountToken('(1,200)')).toBe(true);
+    expect(isAmountToken('—')).toBe(true);
+    expect(isAmountToken('Note 4')).toBe(false);
+  });
+});
+
+describe('buildPageTable', () => {
+  const trialBalance = [
+    item('Account', 50, 700), item('Description', 120, 700), figure('Debit', 330, 700), figure('Credit', 435, 700),
+    item('1000', 50, 680), item('Cash at bank', 120, 680), figure('1,500.00', 330, 680),
+    item('1100', 50, 672), item('Trade receivables', 120, 672), figure('400.00', 330, 672),
+    item('2000', 50, 665), item('Trade payables', 120, 665), figure('300.00', 435, 665),
+    item('3000', 50, 650), item('Share capital', 120, 650), figure('1,200.00', 435, 650)
+  ];
+
+  it('finds account, description, debit and credit columns from the header', () => {
+    const table = buildPageTable(trialBalance, '2024-12-31');
+
+    expect(table.hasHeader).toBe(true);
+    expect(table.columns.map(column => column.role)).toEqual(['account', 'description', 'debit', 'credit']);
+    expect(table.rows[1].cells).toEqual(['1000', 'Cash at bank', '1,500.00', '']);
+  });
+
+  it('nets debits and credits into signed balances', () => {
+    const entries = parseTableData(buildPageTable(trialBalance, '2024-12-31'), '2024-12-31');
+
+    expect(entries.map(entry => [entry.account_number, entry.description, entry.balance, entry.direction])).toEqual([
+      ['1000', 'Cash at bank', 1500, 'debit'],
+      ['1100', 'Trade receivables', 400, 'debit'],
+      ['2000', 'Trade payables', -300, 'credit'],
+      ['3000', 'Share capital', -1200, 'credit']
+    ]);
+  });
+
+  it('takes unlabelled columns that are never both filled as debit and credit', () => {
+    const table = buildPageTable(trialBalance.slice(4), '2024-12-31');
+
+    expect(table.hasHeader).toBe(false);
+    expect(table.columns.slice(-2).map(column => column.role)).toEqual(['debit', 'credit']);
+  });
+});
+
+describe('comparative statements', () => {
+  const statement = [
+    item('Statement of financial position', 50, 760),
+    figure('2024', 330, 740), figure('2023', 430, 740),
+    item('Trade and other', 50, 720),
+    item('receivables', 60, 708), figure('1,000', 330, 708), figure('900', 430, 708),
+    item('Cash at bank', 50, 690), figure('5,000', 330, 690), figure('(200)', 430, 690),
+    item('Total current assets', 50, 670), figure('6,000', 330, 670), figure('700', 430, 670)
+  ];
+
+  const table = () => {
+    const page = buildPageTable(statement, '2024-06-30');
+    assignSections([page]);
+    return page;
+  };
+
+  it('dates each period column on the year end of the report', () => {
+    const periods = table().columns.filter(column => column.role === 'period');
+
+    expect(periods.map(column => [column.period, column.periodEnd])).toEqual([
+      ['2024', '2024-06-30'],
+      ['2023', '2023-06-30']
+    ]);
+  });
+
+  it('yields an entry per period and joins wrapped descriptions', () => {
+    const entries = parseTableData(table(), '2024-06-30');
+
+    expect(entries.map(entry => [entry.description, entry.date, entry.balance, entry.section])).toEqual([
+      ['Trade and other receivables', '2024-06-30', 1000, 'financial_position'],
+      ['Trade and other receivables', '2023-06-30', 900, 'financial_position'],
+      ['Cash at bank', '2024-06-30', 5000, 'financial_position'],
+      ['Cash at bank', '2023-06-30', -200, 'financial_position']
+    ]);
+  });
+
+  it('keeps total lines apart as reported totals', () => {
+    const totals = parseReportedTotals(table(), '2024-06-30');
+
+    expect(totals.map(total => [total.label, total.date, total.amount])).toEqual([
+      ['Total current assets', '2024-06-30', 6000],
+      ['Total current assets', '2023-06-30', 700]
+    ]);
+  });
+});
+
+describe('detectPdfPeriod', () => {
+  it('reads the period from the page text before the file name', () => {
+    const period = detectPdfPeriod([[
+      item('Acme Ltd', 50, 780),
+      item('Statement of profit or loss for the year ended 30 June 2024', 50, 760)
+    ]], 'Acme 2023.pdf');
+
+    expect(period).toMatchObject({ endDate: '2024-06-30', evidence: 'content' });
+  });
+});
@@ -0,0 +1,801 @@
+// PDF table reconstruction shared by the extract-pdf edge function and the
+// in-browser extractor (src/services/pdfExtractionService.ts).
+// Keep this module free of Deno and DOM APIs so both runtimes can import it.
+
+import { type DetectedPeriod, detectReportPeriod, isPeriodLabel, parsePeriodLabel, priorPeriodDate, yearEndOf } from './periods.ts';
+import { detectSectionHeading, type StatementSection } from './sections.ts';
+
+export interface TextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextRow {
+  y: number;
+  items: TextItem[];
+  text: string;
+}
+
+export type ColumnRole = 'account' | 'description' | 'note' | 'debit' | 'credit' | 'balance' | 'amount' | 'period';
+
+export interface TableColumn {
+  role: ColumnRole;
+  left: number;
+  right: number;
+  header?: string;
+  period?: string;
+  periodEnd?: string;
+}
+
+export interface TableRow {
+  y: number;
+  height: number;
+  text: string;
+  cells: string[];
+  isHeader: boolean;
+  labelLeft: number;
+  labelRight: number;
+  section?: StatementSection;
+}
+
+export interface PageTable {
+  columns: TableColumn[];
+  rows: TableRow[];
+  hasHeader: boolean;
+}
+
+export interface RawFinancialEntry {
+  account_number: string;
+  description: string;
+  date: string;
+  debit?: number;
+  credit?: number;
+  balance: number;
+  direction: 'debit' | 'credit';
+  raw_line?: string;
+  period?: string;
+  section?: StatementSection;
+  page_number?: number;
+  confidence_score?: number;
+}
+
+// A subtotal or total line as printed in the document. These are kept apart
+// from the line items so reconciliation can compare mapped sums against them.
+export interface ReportedTotal {
+  label: string;
+  amount: number;
+  date: string;
+  debit?: number;
+  credit?: number;
+  period?: string;
+  section?: StatementSection;
+  page_number?: number;
+  raw_line?: string;
+}
+
+interface Segment {
+  text: string;
+  left: number;
+  right: number;
+}
+
+const ROW_TOLERANCE = 5;
+const COLUMN_TOLERANCE = 12;
+
+const AMOUNT_PATTERN = /^[(\-−]?[$£€¥₹]?\s?\d{1,3}(?:[,\s]\d{3})*(?:\.\d+)?\)?$|^[(\-−]?[$£€¥₹]?\s?\d+(?:\.\d+)?\)?$/;
+const NIL_PATTERN = /^[-–—]$/;
+const ACCOUNT_PATTERN = /^\d{3,8}(?:[-.]\d{1,4})?$/;
+
+const HEADER_ROLE_KEYWORDS: Array<{ pattern: RegExp; role: ColumnRole }> = [
+  { pattern: /^(account|acct|a\/c|code|gl)\b/i, role: 'account' },
+  { pattern: /^(description|account name|particulars|name|details)\b/i, role: 'description' },
+  { pattern: /^notes?$/i, role: 'note' },
+  { pattern: /^(debit|dr)\b/i, role: 'debit' },
+  { pattern: /^(credit|cr)\b/i, role: 'credit' },
+  { pattern: /^(balance|net|closing)\b/i, role: 'balance' },
+  { pattern: /^(amount|value|total)\b/i, role: 'amount' },
+];
+
+// Group text items by rows based on Y coordinates
+export const groupTextItemsByRows = (textItems: TextItem[]): TextRow[] => {
+  const rows: TextRow[] = [];
+
+  const sorted = [...textItems].sort((a, b) => b.y - a.y);
+
+  for (const item of sorted) {
+    if (!item.text || item.text.trim() === '') continue;
+
+    const foundRow = rows.find(row => Math.abs(row.y - item.y) <= ROW_TOLERANCE);
+
+    if (foundRow) {
+      foundRow.items.push(item);
+    } else {
+      rows.push({ y: item.y, items: [item], text: '' });
+    }
+  }
+
+  rows.forEach(row => {
+    row.items.sort((a, b) => a.x - b.x);
+    row.text = row.items.map(item => item.text).join(' ').replace(/\s+/g, ' ').trim();
+  });
+
+  return rows.filter(row => row.text.length > 0);
+};
+
+// Merge neighbouring text items into visual segments; pdf.js often splits a
+// single cell into several items, but a wide gap always means a new cell.
+const toSegments = (items: TextItem[]): Segment[] => {
+  const segments: Segment[] = [];
+
+  for (const item of items) {
+    const text = item.text.trim();
+    if (!text) continue;
+
+    const right = item.x + (item.width || text.length * item.height * 0.5);
+    const previous = segments[segments.length - 1];
+
+    if (previous) {
+      const charWidth = Math.max(1, (previous.right - previous.left) / Math.max(1, previous.text.length));
+      const gap = item.x - previous.right;
+      const bothNumeric = isAmountToken(previous.text) && isAmountToken(text);
+
+      if (gap < charWidth * 1.5 && !bothNumeric) {
+        previous.text = `${previous.text}${gap > charWidth * 0.3 ? ' ' : ''}${text}`;
+        previous.right = Math.max(previous.right, right);
+        continue;
+      }
+    }
+
+    segments.push({ text, left: item.x, right });
+  }
+
+  return segments;
+};
+
+export const isAmountToken = (text: string): boolean => {
+  const value = text.trim();
+  return AMOUNT_PATTERN.test(value) || NIL_PATTERN.test(value);
+};
+
+const headerRoleFor = (text: string): ColumnRole | null => {
+  const value = text.trim();
+  if (isPeriodLabel(value)) return 'period';
+  return HEADER_ROLE_KEYWORDS.find(({ pattern }) => pattern.test(value))?.role ?? null;
+};
+
+// A header row names at least two columns ("Debit | Credit") or lists
+// comparative periods ("2023 | 2022") without any other figures
+const isHeaderRow = (segments: Segment[]): boolean => {
+  const roles = segments.map(segment => headerRoleFor(segment.text));
+  const named = roles.filter(role => role && role !== 'period').length;
+  const periods = roles.filter(role => role === 'period').length;
+  const otherAmounts = segments.filter((segment, index) =>
+    roles[index] !== 'period' && isAmountToken(segment.text)
+  ).length;
+
+  return named >= 2 || (periods >= 2 && otherAmounts === 0) || (named >= 1 && periods >= 1 && otherAmounts === 0);
+};
+
+// Column headings are often stacked ("30 June" above "2024"). A line directly
+// above a header row belongs to it when each of its segments sits over exactly
+// one heading and none of them is a figure.
+const isStackedHeaderRow = (segments: Segment[], headerSegments: Segment[]): boolean =>
+  segments.length > 0 && segments.every(segment =>
+    !isAmountToken(segment.text) &&
+    headerSegments.filter(header =>
+      segment.right >= header.left - COLUMN_TOLERANCE && segment.left <= header.right + COLUMN_TOLERANCE
+    ).length === 1
+  );
+
+// Cluster numeric segments by right edge (figures are right-aligned) to find
+// the amount columns of the page. Sparse clusters are kept only when a header
+// names them, so a lone figure in the label area does not become a column.
+const findAmountColumns = (segmentRows: Segment[][], headerRows: Set<number>, headerSegments: Segment[]): TableColumn[] => {
+  const candidates: Array<{ right: number; left: number; row: number }> = [];
+
+  segmentRows.forEach((segments, rowIndex) => {
+    if (headerRows.has(rowIndex)) return;
+    // The first segment is the row label, even when it looks numeric
+    segments.slice(1).forEach(segment => {
+      if (isAmountToken(segment.text)) {
+        candidates.push({ right: segment.right, left: segment.left, row: rowIndex });
+      }
+    });
+  });
+
+  if (candidates.length === 0) return [];
+
+  candidates.sort((a, b) => a.right - b.right);
+
+  const clusters: Array<typeof candidates> = [];
+  for (const candidate of candidates) {
+    const current = clusters[clusters.length - 1];
+    const anchor = current ? current.reduce((sum, c) => sum + c.right, 0) / current.length : 0;
+
+    if (current && candidate.right - anchor <= COLUMN_TOLERANCE) {
+      current.push(candidate);
+    } else {
+      clusters.push([candidate]);
+    }
+  }
+
+  const amountRows = new Set(candidates.map(c => c.row)).size;
+  const minSupport = Math.max(2, Math.ceil(amountRows * 0.15));
+
+  const amountHeaders = headerSegments.filter(segment => {
+    const role = headerRoleFor(segment.text);
+    return role && role !== 'account' && role !== 'description' && role !== 'note';
+  });
+  const isNamedByHeader = (cluster: typeof candidates) => {
+    const left = Math.min(...cluster.map(c => c.left));
+    const right = Math.max(...cluster.map(c => c.right));
+    return amountHeaders.some(segment => segment.right >= left - COLUMN_TOLERANCE && segment.left <= right + COLUMN_TOLERANCE);
+  };
+
+  return clusters
+    .filter(cluster => new Set(cluster.map(c => c.row)).size >= minSupport || isNamedByHeader(cluster))
+    .map(cluster => ({
+      role: 'amount' as ColumnRole,
+      left: Math.min(...cluster.map(c => c.left)),
+      right: Math.max(...cluster.map(c => c.right))
+    }));
+};
+
+// Label each amount column from the header row(s) above it
+const assignHeaderRoles = (columns: TableColumn[], headerSegments: Segment[]) => {
+  for (const segment of headerSegments) {
+    const role = headerRoleFor(segment.text);
+    if (!role || role === 'account' || role === 'description') continue;
+
+    const center = (segment.left + segment.right) / 2;
+    let best: TableColumn | null = null;
+    let bestDistance = Infinity;
+
+    for (const column of columns) {
+      const overlaps = segment.right >= column.left - COLUMN_TOLERANCE && segment.left <= column.right + COLUMN_TOLERANCE;
+      const distance = Math.abs(center - (column.left + column.right) / 2);
+      if ((overlaps || distance < 60) && distance < bestDistance) {
+        best = column;
+        bestDistance = distance;
+      }
+    }
+
+    if (best && best.role === 'amount') {
+      best.role = role;
+      best.header = segment.text.trim();
+    }
+  }
+};
+
+// Resolve the period each comparative column reports. Headers may be split
+// over two lines ("31 December" / "2023"), so the stacked header text above a
+// column is tried before its individual lines. Bare years end on the same
+// day as the default period, so "2024" in a June year-end report is 30 June.
+// Unlabelled columns are the current period followed by prior years.
+const resolvePeriodColumns = (columns: TableColumn[], headerSegmentRows: Segment[][], defaultDate: string) => {
+  const periodColumns = columns.filter(column => column.role === 'period');
+  const yearEnd = yearEndOf(defaultDate);
+
+  periodColumns.forEach((column, index) => {
+    const stacked = headerSegmentRows
+      .map(segments => segments.filter(segment =>
+        segment.right >= column.left - COLUMN_TOLERANCE && segment.left <= column.right + COLUMN_TOLERANCE
+      ).map(segment => segment.text).join(' '))
+      .filter(Boolean);
+
+    const parsed = [stacked.join(' '), ...stacked]
+      .map(text => parsePeriodLabel(text, yearEnd))
+      .find(Boolean);
+
+    if (parsed) {
+      column.period = parsed.label;
+      column.periodEnd = parsed.endDate;
+    } else {
+      column.periodEnd = priorPeriodDate(defaultDate, index);
+      column.period = column.periodEnd.slice(0, 4);
+    }
+  });
+};
+
+// Without a header, two amount columns where no line fills both are debit and
+// credit; columns that are filled side by side are comparative periods
+const inferUnlabelledRoles = (columns: TableColumn[], cellRows: string[][], labelCount: number) => {
+  const unlabelled = columns.filter(column => column.role === 'amount');
+  if (unlabelled.length !== columns.length) return;
+
+  if (columns.length === 1) {
+    columns[0].role = 'balance';
+    return;
+  }
+
+  if (columns.length === 2) {
+    const bothFilled = cellRows.filter(cells =>
+      cells[labelCount] && cells[labelCount + 1] &&
+      !NIL_PATTERN.test(cells[labelCount]) && !NIL_PATTERN.test(cells[labelCount + 1])
+    ).length;
+    const anyFilled = cellRows.filter(cells => cells[labelCount] || cells[labelCount + 1]).length;
+
+    if (anyFilled > 0 && bothFilled / anyFilled < 0.2) {
+      columns[0].role = 'debit';
+      columns[1].role = 'credit';
+    } else {
+      columns.forEach(column => { column.role = 'period'; });
+    }
+  }
+};
+
+const assignToColumn = (segment: Segment, columns: TableColumn[]): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+
+  columns.forEach((column, index) => {
+    if (segment.right >= column.left - COLUMN_TOLERANCE && segment.right <= column.right + COLUMN_TOLERANCE) {
+      const distance = Math.abs(segment.right - column.right);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+  });
+
+  if (bestDistance < Infinity) return best;
+
+  // Fall back to the closest column by right edge
+  columns.forEach((column, index) => {
+    const distance = Math.abs(segment.right - column.right);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+};
+
+const rowHeight = (row: TextRow): number => Math.max(...row.items.map(item => item.height || 0), ROW_TOLERANCE * 2);
+
+// Reconstruct a page as a table of cells using x-positions: amount columns are
+// found by clustering right-aligned figures, labelled by the header row, and
+// everything left of the first amount column is the account/description area
+export const buildPageTable = (textItems: TextItem[], defaultDate: string): PageTable => {
+  const rows = groupTextItemsByRows(textItems);
+  const segmentRows = rows.map(row => toSegments(row.items));
+
+  const headerRows = new Set<number>();
+  segmentRows.forEach((segments, index) => {
+    if (isHeaderRow(segments)) headerRows.add(index);
+  });
+
+  Array.from(headerRows).forEach(headerIndex => {
+    for (let index = headerIndex - 1; index >= 0 && !headerRows.has(index); index--) {
+      if (!isStackedHeaderRow(segmentRows[index], segmentRows[headerIndex])) break;
+      headerRows.add(index);
+    }
+  });
+
+  const headerSegments = segmentRows.filter((_, index) => headerRows.has(index)).flat();
+  const amountColumns = findAmountColumns(segmentRows, headerRows, headerSegments);
+
+  if (amountColumns.length === 0) {
+    return {
+      columns: [],
+      rows: rows.map((row, index) => ({
+        y: row.y,
+        height: rowHeight(row),
+        text: row.text,
+        cells: [row.text],
+        isHeader: headerRows.has(index),
+        labelLeft: segmentRows[index][0]?.left ?? 0,
+        labelRight: segmentRows[index][segmentRows[index].length - 1]?.right ?? 0
+      })),
+      hasHeader: headerRows.size > 0
+    };
+  }
+
+  const labelRight = amountColumns[0].left - COLUMN_TOLERANCE;
+
+  // Account numbers in their own leading column
+  const leadingCodes = segmentRows.filter((segments, index) =>
+    !headerRows.has(index) && segments.length > 1 && ACCOUNT_PATTERN.test(segments[0].text) && segments[1].right <= labelRight + COLUMN_TOLERANCE
+  );
+  const labelledRows = segmentRows.filter((segments, index) => !headerRows.has(index) && segments.length > 1).length;
+  const hasAccountColumn = labelledRows > 0 && leadingCodes.length / labelledRows >= 0.5;
+  const accountRight = hasAccountColumn ? Math.max(...leadingCodes.map(segments => segments[0].right)) : 0;
+
+  const labelColumns: TableColumn[] = hasAccountColumn
+    ? [
+        { role: 'account', left: 0, right: accountRight },
+        { role: 'description', left: accountRight, right: labelRight }
+      ]
+    : [{ role: 'description', left: 0, right: labelRight }];
+
+  assignHeaderRoles(amountColumns, headerSegments);
+
+  const cellRows = segmentRows.map(segments => {
+    const cells: string[] = new Array(labelColumns.length + amountColumns.length).fill('');
+
+    segments.forEach((segment, segmentIndex) => {
+      let index: number;
+
+      if (segment.right <= labelRight + COLUMN_TOLERANCE || (segmentIndex === 0 && !isAmountToken(segment.text))) {
+        index = hasAccountColumn && segment.right <= accountRight + 1 && ACCOUNT_PATTERN.test(segment.text) ? 0 : labelColumns.length - 1;
+      } else {
+        index = labelColumns.length + assignToColumn(segment, amountColumns);
+      }
+
+      cells[index] = cells[index] ? `${cells[index]} ${segment.text}` : segment.text;
+    });
+
+    return cells;
+  });
+
+  inferUnlabelledRoles(amountColumns, cellRows.filter((_, index) => !headerRows.has(index)), labelColumns.length);
+  resolvePeriodColumns(amountColumns, segmentRows.filter((_, index) => headerRows.has(index)), defaultDate);
+
+  return {
+    columns: [...labelColumns, ...amountColumns],
+    rows: rows.map((row, index) => {
+      const labelSegments = segmentRows[index].filter(segment => segment.right <= labelRight + COLUMN_TOLERANCE && !ACCOUNT_PATTERN.test(segment.text));
+      return {
+        y: row.y,
+        height: rowHeight(row),
+        text: row.text,
+        cells: cellRows[index],
+        isHeader: headerRows.has(index),
+        labelLeft: labelSegments[0]?.left ?? 0,
+        labelRight: labelSegments[labelSegments.length - 1]?.right ?? 0
+      };
+    }),
+    hasHeader: headerRows.size > 0
+  };
+};
+
+// Normalize currency values
+export const normalizeAmount = (value: string | number): number => {
+  if (typeof value === 'number') return value;
+  if (!value || value === '') return 0;
+
+  let cleanValue = String(value).trim();
+  if (NIL_PATTERN.test(cleanValue)) return 0;
+
+  // Handle parentheses and leading minus signs as negative (3,000) → -3000
+  const isNegative = (cleanValue.includes('(') && cleanValue.includes(')')) || /^[-−]/.test(cleanValue);
+
+  // Remove currency symbols, thousands separators, parentheses and signs
+  cleanValue = cleanValue.replace(/[$£€¥₹,()\s\-−]/g, '');
+
+  const parsed = parseFloat(cleanValue);
+  if (isNaN(parsed)) return 0;
+
+  return isNegative ? -parsed : parsed;
+};
+
+// Check if line is a header/non-data line
+// Statement titles and column headings only; account names such as "Balance
+// due from holding company" are kept
+const COLUMN_HEADING_PATTERN = /^(?:account(?: number| no\.?| code)?|description|details|debit|credit|balance|dr|cr|notes?|\s)+$/;
+
+export const isHeaderLine = (line: string): boolean => {
+  const lowerLine = line.toLowerCase().trim();
+  const headerKeywords = ['total', 'subtotal', 'date:', 'period:'];
+
+  return detectSectionHeading(line) !== null ||
+         /^trial balance\b/.test(lowerLine) ||
+         /^page \d+/.test(lowerLine) ||
+         COLUMN_HEADING_PATTERN.test(lowerLine) ||
+         headerKeywords.some(keyword => lowerLine.includes(keyword)) ||
+         line.trim().length < 5 ||
+         /^[\s\-_=]+$/.test(line);
+};
+
+const TOTAL_LINE_PATTERN = /\b(?:sub-?)?totals?\b/i;
+
+export const isTotalLine = (line: string): boolean => TOTAL_LINE_PATTERN.test(line);
+
+// Extract account number from description if embedded
+export const extractAccountNumber = (description: string): string | null => {
+  const match = description.match(/^(\d{3,6})\s*/);
+  return match ? match[1] : null;
+};
+
+// Clean description by removing account numbers and extra whitespace
+export const cleanDescription = (description: string): string => {
+  return description
+    .replace(/^\d{3,6}\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const cellAmount = (value: string | undefined): number | undefined => {
+  if (!value || value.trim() === '') return undefined;
+  return normalizeAmount(value);
+};
+
+const descriptionCell = (row: TableRow, columns: TableColumn[]): string => {
+  const index = columns.findIndex(column => column.role === 'description');
+  return index >= 0 ? row.cells[index] || '' : '';
+};
+
+// Parse a reconstructed table row by column position. Comparative statements
+// yield one entry per period column that has a figure on the line. Total
+// lines are skipped unless asked for.
+const parseTableRow = (row: TableRow, columns: TableColumn[], defaultDate: string, confidence: number, totals = false): RawFinancialEntry[] => {
+  const cellFor = (role: ColumnRole) => {
+    const index = columns.findIndex(column => column.role === role);
+    return index >= 0 ? row.cells[index] : undefined;
+  };
+
+  const rawDescription = descriptionCell(row, columns);
+  if (!rawDescription) return [];
+  if (totals ? !isTotalLine(rawDescription) : isHeaderLine(rawDescription)) return [];
+
+  const accountNumber = (cellFor('account') || extractAccountNumber(rawDescription) || '').trim();
+  const description = cleanDescription(rawDescription);
+
+  const toEntry = (balance: number, extra: Partial<RawFinancialEntry> = {}): RawFinancialEntry => ({
+    account_number: accountNumber,
+    description,
+    date: defaultDate,
+    balance,
+    direction: balance >= 0 ? 'debit' : 'credit',
+    raw_line: row.text,
+    confidence_score: confidence,
+    ...extra
+  });
+
+  const debit = cellAmount(cellFor('debit'));
+  const credit = cellAmount(cellFor('credit'));
+  const balanceCell = cellAmount(cellFor('balance'));
+
+  if (balanceCell !== undefined) {
+    return [toEntry(balanceCell, { debit, credit })];
+  }
+
+  if (debit !== undefined || credit !== undefined) {
+    return [toEntry((debit || 0) - (credit || 0), { debit, credit })];
+  }
+
+  const periodEntries = columns
+    .map((column, index) => ({ column, value: cellAmount(row.cells[index]) }))
+    .filter(({ column, value }) => column.role === 'period' && value !== undefined)
+    .map(({ column, value }) => toEntry(value!, {
+      date: column.periodEnd || defaultDate,
+      period: column.period,
+      // Columns without a printed period are a positional guess
+      confidence_score: column.header ? confidence : Math.min(confidence, 0.7)
+    }));
+
+  if (periodEntries.length > 0) {
+    return periodEntries;
+  }
+
+  const amountCells = columns
+    .map((column, index) => column.role === 'amount' ? cellAmount(row.cells[index]) : undefined)
+    .filter((value): value is number => value !== undefined);
+
+  return amountCells.length > 0 ? [toEntry(amountCells[amountCells.length - 1])] : [];
+};
+
+// Parse individual financial statement line (used when no columns could be
+// reconstructed for a page)
+export const parseFinancialLine = (line: string, defaultDate: string): RawFinancialEntry | null => {
+  if (isHeaderLine(line)) return null;
+
+  // Pattern 1: Account# Description Amount
+  let match = line.match(/^(\d+)\s+(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
+  if (match) {
+    const [, accountNumber, description, amountStr] = match;
+    const amount = normalizeAmount(amountStr);
+
+    return {
+      account_number: accountNumber.trim(),
+      description: description.trim(),
+      date: defaultDate,
+      balance: amount,
+      direction: amount >= 0 ? 'debit' : 'credit',
+      raw_line: line,
+      confidence_score: 0.7
+    };
+  }
+
+  // Pattern 2: Description Debit Credit
+  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)\s+([\d,.\-()$£€¥₹\s]+)$/);
+  if (match) {
+    const [, description, debitStr, creditStr] = match;
+    const debit = normalizeAmount(debitStr);
+    const credit = normalizeAmount(creditStr);
+    const balance = debit - credit;
+
+    return {
+      account_number: extractAccountNumber(description) || '',
+      description: cleanDescription(description),
+      date: defaultDate,
+      debit,
+      credit,
+      balance,
+      direction: balance >= 0 ? 'debit' : 'credit',
+      raw_line: line,
+      confidence_score: 0.6
+    };
+  }
+
+  // Pattern 3: Simple Description Amount
+  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
+  if (match) {
+    const [, description, amountStr] = match;
+    const amount = normalizeAmount(amountStr);
+
+    if (Math.abs(amount) > 100) {
+      return {
+        account_number: extractAccountNumber(description) || '',
+        description: cleanDescription(description),
+        date: defaultDate,
+        balance: amount,
+        direction: amount >= 0 ? 'debit' : 'credit',
+        raw_line: line,
+        confidence_score: 0.5
+      };
+    }
+  }
+
+  return null;
+};
+
+const CONTINUATION_END = /(?:[,&/\-–]|\b(?:and|or|of|for|the|in|to|on|at|with|from|under|by|less))$/i;
+const MAX_CONTINUATION_LINES = 3;
+
+// A wrapped line has a label but no figures, and nothing in the amount columns
+const isContinuationCandidate = (row: TableRow, columns: TableColumn[]): boolean => {
+  if (row.isHeader || row.labelRight === 0) return false;
+
+  const label = columns.length > 0
+    ? row.cells[columns.findIndex(column => column.role === 'description')]
+    : row.text;
+  if (!label || /:$/.test(label.trim())) return false;
+
+  if (columns.length === 0) {
+    return !/\d[\d,.]*\)?$/.test(row.text);
+  }
+
+  return columns.every((column, index) =>
+    column.role === 'description' || column.role === 'account' || !row.cells[index]
+  );
+};
+
+// The next line continues the previous one when it sits directly below it and
+// either starts lower-case, follows a dangling connector, or is a hanging
+// indent under a line that runs to the edge of the description column
+const continuesInto = (previous: TableRow, next: TableRow, widestLabel: number, leftmostLabel: number): boolean => {
+  const gap = previous.y - next.y;
+  if (gap <= 0 || gap > Math.max(previous.height, next.height) * 1.8) return false;
+
+  const nextLabel = next.text.replace(/^\d{3,8}\s+/, '');
+  const startsLowercase = /^[a-z(]/.test(nextLabel);
+  const dangling = CONTINUATION_END.test(previous.text.trim());
+  const indented = next.labelLeft > previous.labelLeft + 2;
+  const fillsColumn = previous.labelRight - leftmostLabel >= (widestLabel - leftmostLabel) * 0.8;
+
+  return startsLowercase || dangling || (indented && fillsColumn);
+};
+
+const stitchContinuation = (entry: RawFinancialEntry, lines: TableRow[], columns: TableColumn[]): RawFinancialEntry => {
+  const descriptionIndex = columns.findIndex(column => column.role === 'description');
+  const accountIndex = columns.findIndex(column => column.role === 'account');
+  const labels = lines.map(line => descriptionIndex >= 0 ? line.cells[descriptionIndex] : line.text);
+  const leadingAccount = accountIndex >= 0 ? lines[0].cells[accountIndex] : extractAccountNumber(labels[0]);
+
+  return {
+    ...entry,
+    account_number: entry.account_number || (leadingAccount || '').trim(),
+    description: cleanDescription([...labels, entry.description].join(' ')),
+    raw_line: [...lines.map(line => line.text), entry.raw_line].join('\n')
+  };
+};
+
+// Parse a reconstructed page into structured financial entries, merging
+// wrapped description lines into the amount-bearing line that follows them
+export const parseTableData = (table: PageTable, defaultDate: string): RawFinancialEntry[] => {
+  const entries: RawFinancialEntry[] = [];
+  const columnConfidence = table.hasHeader ? 0.9 : 0.8;
+
+  const labelledRows = table.rows.filter(row => !row.isHeader && row.labelRight > 0);
+  const widestLabel = Math.max(0, ...labelledRows.map(row => row.labelRight));
+  const leftmostLabel = Math.min(widestLabel, ...labelledRows.map(row => row.labelLeft));
+
+  let pending: TableRow[] = [];
+
+  for (const row of table.rows) {
+    if (row.isHeader) {
+      pending = [];
+      continue;
+    }
+
+    const lineEntry = table.columns.length === 0 && row.text.length >= 10 ? parseFinancialLine(row.text, defaultDate) : null;
+    const parsedEntries = table.columns.length > 0
+      ? parseTableRow(row, table.columns, defaultDate, columnConfidence)
+      : lineEntry ? [lineEntry] : [];
+
+    if (parsedEntries.length > 0) {
+      const previous = pending[pending.length - 1];
+      const continued = previous && continuesInto(previous, row, widestLabel, leftmostLabel);
+
+      entries.push(...parsedEntries
+        .map(entry => continued ? stitchContinuation(entry, pending, table.columns) : entry)
+        .map(entry => row.section ? { ...entry, section: row.section } : entry));
+      pending = [];
+    } else if (isContinuationCandidate(row, table.columns)) {
+      const previous = pending[pending.length - 1];
+      if (!previous || !continuesInto(previous, row, widestLabel, leftmostLabel) || pending.length >= MAX_CONTINUATION_LINES) {
+        pending = [];
+      }
+      pending.push(row);
+    } else {
+      pending = [];
+    }
+  }
+
+  return entries;
+};
+
+// Figures on a total line without reconstructed columns: the first amount
+// after the label is taken, which is the current period on comparatives
+const parseTotalLine = (line: string, defaultDate: string): RawFinancialEntry | null => {
+  const match = line.match(/^(.*?[A-Za-z].*?)\s+([(\-−]?[$£€¥₹]?\s?\d[\d,]*(?:\.\d+)?\)?)(?:\s|$)/);
+  if (!match || !isTotalLine(match[1])) return null;
+
+  const amount = normalizeAmount(match[2]);
+  return {
+    account_number: '',
+    description: match[1].trim(),
+    date: defaultDate,
+    balance: amount,
+    direction: amount >= 0 ? 'debit' : 'credit',
+    raw_line: line
+  };
+};
+
+// Collect the subtotal and total lines of a page as reported figures
+export const parseReportedTotals = (table: PageTable, defaultDate: string): ReportedTotal[] =>
+  table.rows
+    .filter(row => !row.isHeader)
+    .flatMap(row => {
+      const entries = table.columns.length > 0
+        ? parseTableRow(row, table.columns, defaultDate, 1, true)
+        : [parseTotalLine(row.text, defaultDate)].filter((entry): entry is RawFinancialEntry => entry !== null);
+
+      return entries.map(entry => ({
+        label: entry.description,
+        amount: entry.balance,
+        date: entry.date,
+        debit: entry.debit,
+        credit: entry.credit,
+        period: entry.period,
+        section: row.section,
+        raw_line: row.text
+      }));
+    });
+
+// Tag every row with the statement it belongs to. A statement often runs over
+// several pages, so the current section carries from one page to the next
+// until another heading starts. Rows before the first heading stay untagged.
+export const assignSections = (tables: PageTable[]): void => {
+  let current: StatementSection | undefined;
+
+  tables.forEach(table => {
+    table.rows.forEach(row => {
+      current = detectSectionHeading(row.text) ?? current;
+      row.section = current;
+    });
+  });
+};
+
+// The period a PDF reports, from the text of its pages ("for the year ended
+// 30 June 2024", a date line over the figures) before its file name. Pages
+// are passed as their text items, before tables are built with the date.
+export const detectPdfPeriod = (pages: TextItem[][], filename: string): DetectedPeriod => {
+  const lines = pages.flatMap(items => groupTextItemsByRows(items).map(row => row.text));
+  return detectReportPeriod({ texts: lines, headers: lines, filename });
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDateOrder,
+  detectReportPeriod,
+  findPeriodPhrases,
+  parsePeriodLabel,
+  periodFromFilename,
+  priorPeriodDate
+} from './periods.ts';
+
+const JUNE_YEAR_END = { month: 6, day: 30 };
+
+describe('parsePeriodLabel', () => {
+  it('reads the usual ways of writing a period', () => {
+    expect(parsePeriodLabel('2023')?.endDate).toBe('2023-12-31');
+    expect(parsePeriodLabel('FY22', JUNE_YEAR_END)?.endDate).toBe('2022-06-30');
+    expect(parsePeriodLabel('2023/24', JUNE_YEAR_END)?.endDate).toBe('2024-06-30');
+    expect(parsePeriodLabel('31 Dec 2023')?.endDate).toBe('2023-12-31');
+    expect(parsePeriodLabel('December 31, 2023')?.endDate).toBe('2023-12-31');
+    expect(parsePeriodLabel('31.03.2024')?.endDate).toBe('2024-03-31');
+    expect(parsePeriodLabel('Feb 2024')?.endDate).toBe('2024-02-29');
+  });
+
+  it('reads numeric dates in the given order unless that is impossible', () => {
+    expect(parsePeriodLabel('06/05/2024')?.endDate).toBe('2024-05-06');
+    expect(parsePeriodLabel('06/05/2024', undefined, 'mdy')?.endDate).toBe('2024-06-05');
+    expect(parsePeriodLabel('12/31/2024')?.endDate).toBe('2024-12-31');
+  });
+
+  it('rejects text that only contains a period', () => {
+    expect(parsePeriodLabel('Statement of financial position as at 31 December 2023')).toBeNull();
+    expect(parsePeriodLabel('31 Feb 2024')).toBeNull();
+    expect(parsePeriodLabel('2023/25')).toBeNull();
+  });
+});
+
+describe('detectDateOrder', () => {
+  it('goes month-first only when the dates can only be read that way', () => {
+    expect(detectDateOrder(['12/31/2024', '06/30/2024'])).toBe('mdy');
+    expect(detectDateOrder(['31/12/2024', '06/05/2024'])).toBe('dmy');
+    expect(detectDateOrder(['06/05/2024'])).toBe('dmy');
+  });
+});
+
+describe('priorPeriodDate', () => {
+  it('keeps the month end when stepping back from a leap day', () => {
+    expect(priorPeriodDate('2024-02-29', 1)).toBe('2023-02-28');
+    expect(priorPeriodDate('2024-06-30', 2)).toBe('2022-06-30');
+  });
+});
+
+describe('findPeriodPhrases', () => {
+  it('finds each phrase naming a period end', () => {
+    expect(findPeriodPhrases('Balance sheet as at 31 March 2024 and income statement for the year ended\n31 March 2024'))
+      .toEqual([
+        { label: 'as at 31 March 2024', endDate: '2024-03-31' },
+        { label: 'for the year ended 31 March 2024', endDate: '2024-03-31' }
+      ]);
+    expect(findPeriodPhrases('Year ending June 30, 2024')[0].endDate).toBe('2024-06-30');
+  });
+});
+
+describe('periodFromFilename', () => {
+  it('prefers a full date, then a fiscal year, then the latest year', () => {
+    expect(periodFromFilename('TB_30.06.2024_final.xlsx')?.endDate).toBe('2024-06-30');
+    expect(periodFromFilename('Accounts FY24.pdf', JUNE_YEAR_END)?.endDate).toBe('2024-06-30');
+    expect(periodFromFilename('TB 2022 vs 2023.csv')?.endDate).toBe('2023-12-31');
+    expect(periodFromFilename('trial balance.xlsx')).toBeNull();
+  });
+});
+
+describe('detectReportPeriod', () => {
+  it('takes the period the document names most, not the latest date in it', () => {
+    const period = detectReportPeriod({
+      texts: [
+        'Annual report for the year ended 31 December 2023',
+        'Statement of financial position as at 31 December 2023',
+        'Subsequent events: as at 15 March 2024 the company had refinanced its loan'
+      ]
+    });
+
+    expect(period).toMatchObject({ endDate: '2023-12-31', evidence: 'content', yearEnd: { month: 12, day: 31 } });
+  });
+
+  it('takes the first period named on a tie', () => {
+    const period = detectReportPeriod({
+      texts: ['Interim report for the six months ended 30 June 2024', 'Comparative: as at 31 December 2023']
+    });
+
+    expect(period.endDate).toBe('2024-06-30');
+  });
+
+  it('prefers a dated column header to the file name', () => {
+    const period = detectReportPeriod({
+      headers: ['Account', '30 June 2023', '30 June 2024'],
+      filename: 'TB 31.12.2024.xlsx'
+    });
+
+    expect(period).toMatchObject({ endDate: '2024-06-30', evidence: 'column_header', yearEnd: { month: 6, day: 30 } });
+  });
+
+  it('dates bare years on the fiscal year end', () => {
+    const period = detectReportPeriod({ headers: ['Account', '2023', '2024'] }, { yearEnd: JUNE_YEAR_END });
+
+    expect(period).toMatchObject({ endDate: '2024-06-30', evidence: 'column_header', yearEnd: JUNE_YEAR_END });
+  });
+
+  it('assumes the last year end when nothing dates the upload', () => {
+    const period = detectReportPeriod({ headers: ['Account', 'Balance'] }, { today: new Date('2025-03-01T00:00:00Z') });
+
+    expect(period).toMatchObject({ endDate: '2024-12-31', evidence: 'assumed' });
+  });
+});
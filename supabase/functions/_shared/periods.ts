@@ -0,0 +1,281 @@
+// Reporting period parsing shared by the edge functions and the browser.
+// Keep this module free of Deno and DOM APIs so both runtimes can import it.
+
+export interface ParsedPeriod {
+  label: string;
+  endDate: string;
+}
+
+export interface YearEnd {
+  month: number;
+  day: number;
+}
+
+export const CALENDAR_YEAR_END: YearEnd = { month: 12, day: 31 };
+
+// How numeric dates are written: 31/12/2024 or 12/31/2024
+export type DateOrder = 'dmy' | 'mdy';
+
+const NUMERIC_DATE = /^(\d{1,2})[./-](\d{1,2})[./-]((?:19|20)\d{2})$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const PERIOD_PREFIX = '(?:(?:as at|as of|at|year ended|period ended|for the year ended|ye)\\s+)?';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > lastDayOfMonth(year, month)) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const expandYear = (year: string) => year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+
+// Period end date for a bare fiscal year ("2023", "FY23")
+export const yearEndDate = (year: number, yearEnd: YearEnd = CALENDAR_YEAR_END): string =>
+  toIsoDate(year, yearEnd.month, Math.min(yearEnd.day, lastDayOfMonth(year, yearEnd.month)))!;
+
+// Recognise a column or row label that names a reporting period: "2023",
+// "FY22", "31 Dec 2023", "December 31, 2023", "31.12.2023", "Dec 2023".
+// The whole text must be the period, so titles such as "Statement of
+// financial position as at 31 December 2023" are not mistaken for one.
+export const parsePeriodLabel = (
+  text: string,
+  yearEnd: YearEnd = CALENDAR_YEAR_END,
+  dateOrder: DateOrder = 'dmy'
+): ParsedPeriod | null => {
+  const label = text.trim().replace(/\s+/g, ' ');
+  const value = label.toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(new RegExp(`^${PERIOD_PREFIX}((?:19|20)\\d{2})$`)))) {
+    return { label, endDate: yearEndDate(parseInt(match[1], 10), yearEnd) };
+  }
+
+  if ((match = value.match(/^fy\s?'?(\d{2}|\d{4})$/))) {
+    return { label, endDate: yearEndDate(expandYear(match[1]), yearEnd) };
+  }
+
+  // A fiscal year spanning two calendar years ends in the second: "2023/24"
+  if ((match = value.match(/^(?:fy\s?)?((?:19|20)\d{2})\s?[/-]\s?(\d{2}|(?:19|20)\d{2})$/))) {
+    const first = parseInt(match[1], 10);
+    const second = match[2].length === 2 ? Math.floor(first / 100) * 100 + parseInt(match[2], 10) : parseInt(match[2], 10);
+    if (second === first + 1) return { label, endDate: yearEndDate(second, yearEnd) };
+  }
+
+  if ((match = value.match(new RegExp(`^${PERIOD_PREFIX}(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+((?:19|20)\\d{2})$`)))) {
+    const endDate = toIsoDate(parseInt(match[3], 10), monthIndex(match[2]), parseInt(match[1], 10));
+    return endDate ? { label, endDate } : null;
+  }
+
+  if ((match = value.match(new RegExp(`^${PERIOD_PREFIX}${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+((?:19|20)\\d{2})$`)))) {
+    const endDate = toIsoDate(parseInt(match[3], 10), monthIndex(match[1]), parseInt(match[2], 10));
+    return endDate ? { label, endDate } : null;
+  }
+
+  if ((match = value.match(new RegExp(`^${PERIOD_PREFIX}${MONTH_NAME}\\s+((?:19|20)\\d{2})$`)))) {
+    const year = parseInt(match[2], 10);
+    const month = monthIndex(match[1]);
+    return { label, endDate: toIsoDate(year, month, lastDayOfMonth(year, month))! };
+  }
+
+  if ((match = value.match(/^((?:19|20)\d{2})-(\d{2})-(\d{2})$/))) {
+    const endDate = toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+    return endDate ? { label, endDate } : null;
+  }
+
+  if ((match = value.match(NUMERIC_DATE))) {
+    // In the given order unless that is impossible
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    const monthFirst = dateOrder === 'mdy' ? first <= 12 : second > 12;
+    const [day, month] = monthFirst ? [second, first] : [first, second];
+    const endDate = toIsoDate(parseInt(match[3], 10), month, day);
+    return endDate ? { label, endDate } : null;
+  }
+
+  return null;
+};
+
+export const isPeriodLabel = (text: string): boolean => parsePeriodLabel(text) !== null;
+
+// Month-first if some numeric date can only be read that way, day-first
+// otherwise
+export const detectDateOrder = (texts: string[]): DateOrder => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  texts.forEach(text => {
+    const match = text.trim().match(NUMERIC_DATE);
+    if (!match) return;
+    if (parseInt(match[1], 10) > 12) dayFirst++;
+    else if (parseInt(match[2], 10) > 12) monthFirst++;
+  });
+  return monthFirst > dayFirst ? 'mdy' : 'dmy';
+};
+
+// Shift a period end date back by whole years (for unlabelled comparatives)
+export const priorPeriodDate = (endDate: string, yearsBack: number): string => {
+  const [year, month, day] = endDate.split('-').map(part => parseInt(part, 10));
+  const priorYear = year - yearsBack;
+  return toIsoDate(priorYear, month, Math.min(day, lastDayOfMonth(priorYear, month)))!;
+};
+
+// How a report period was found, strongest first
+export type PeriodEvidence = 'confirmed' | 'content' | 'column_header' | 'sheet_name' | 'filename' | 'assumed';
+
+export const PERIOD_EVIDENCE_LABELS: Record<PeriodEvidence, string> = {
+  confirmed: 'Confirmed at upload',
+  content: 'Document text',
+  column_header: 'Column header',
+  sheet_name: 'Sheet name',
+  filename: 'File name',
+  assumed: 'Assumed'
+};
+
+export interface DetectedPeriod extends ParsedPeriod {
+  evidence: PeriodEvidence;
+  // Bare years ("2024", "FY24") elsewhere in the upload end on this day
+  yearEnd: YearEnd;
+}
+
+// Where a report period can be read from: free text such as title rows and
+// page text, column headers, sheet names and the file name
+export interface PeriodSources {
+  texts?: string[];
+  headers?: string[];
+  sheetNames?: string[];
+  filename?: string;
+}
+
+export const yearEndOf = (endDate: string): YearEnd => {
+  const [, month, day] = endDate.split('-').map(part => parseInt(part, 10));
+  return { month, day };
+};
+
+// A period end the user gave at upload, which overrides detection, or one
+// stored with the upload by an earlier run
+export const confirmedPeriod = (endDate: string, evidence: PeriodEvidence = 'confirmed'): DetectedPeriod => ({
+  label: endDate,
+  endDate,
+  evidence,
+  yearEnd: yearEndOf(endDate)
+});
+
+const DATE_IN_TEXT = [
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(?:19|20)\\d{2}`,
+  `${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+(?:19|20)\\d{2}`,
+  '\\d{1,2}[./-]\\d{1,2}[./-](?:19|20)\\d{2}',
+  '(?:19|20)\\d{2}-\\d{2}-\\d{2}'
+].join('|');
+
+const PERIOD_PHRASE = new RegExp(
+  '(?:(?:for\\s+the\\s+)?(?:(?:financial|fiscal)\\s+)?(?:year|period|(?:twelve|six|three|12|6|3)\\s+months|quarter|half[- ]year)\\s+(?:ended|ending|to)' +
+  '|as\\s+(?:at|of)|(?:year|fy)[- ]?end(?:ed|ing)?:?)\\s+' +
+  `(?<date>${DATE_IN_TEXT})`,
+  'gi'
+);
+
+const DATE_IN_NAME = new RegExp(`(?:^|[^0-9a-z])(?<date>${DATE_IN_TEXT})(?![0-9])`, 'i');
+
+// The periods a text says it covers: "for the year ended 30 June 2024",
+// "as at 31 March 2024", "year ending June 30, 2024"
+export const findPeriodPhrases = (text: string, dateOrder: DateOrder = 'dmy'): ParsedPeriod[] => {
+  const normalized = text.replace(/\s+/g, ' ');
+  return [...normalized.matchAll(PERIOD_PHRASE)].flatMap(match => {
+    const parsed = parsePeriodLabel(match.groups!.date, CALENDAR_YEAR_END, dateOrder);
+    return parsed ? [{ label: match[0].trim(), endDate: parsed.endDate }] : [];
+  });
+};
+
+// The period a file name gives: a full date ("TB 30.06.2024"), a fiscal
+// year ("FY24", "2023-24"), or the latest year in it
+export const periodFromFilename = (
+  filename: string,
+  yearEnd: YearEnd = CALENDAR_YEAR_END,
+  dateOrder: DateOrder = 'dmy'
+): ParsedPeriod | null => {
+  const name = filename.replace(/\.[a-z0-9]+$/i, '').replace(/[_]+/g, ' ');
+
+  const dated = name.match(DATE_IN_NAME);
+  const date = dated && parsePeriodLabel(dated.groups!.date, yearEnd, dateOrder);
+  if (date) return date;
+
+  const fiscal = name.match(/(?:^|[^0-9a-z])((?:fy\s?)?(?:19|20)\d{2}\s?[/-]\s?\d{2}|fy\s?'?\d{2,4})(?![0-9])/i);
+  const fiscalPeriod = fiscal && parsePeriodLabel(fiscal[1], yearEnd);
+  if (fiscalPeriod) return fiscalPeriod;
+
+  const years = [...name.matchAll(/(?:^|[^0-9])((?:19|20)\d{2})(?![0-9])/g)].map(match => parseInt(match[1], 10));
+  if (years.length === 0) return null;
+  const year = Math.max(...years);
+  return { label: String(year), endDate: yearEndDate(year, yearEnd) };
+};
+
+// True when the label names a day, not just a year that takes the fiscal
+// year end
+const namesDay = (text: string, dateOrder: DateOrder) =>
+  parsePeriodLabel(text, CALENDAR_YEAR_END, dateOrder)?.endDate === parsePeriodLabel(text, { month: 6, day: 30 }, dateOrder)?.endDate;
+
+const latest = (periods: ParsedPeriod[]) =>
+  periods.reduce<ParsedPeriod | null>((best, period) => !best || period.endDate > best.endDate ? period : best, null);
+
+// The date named most often, the first named on a tie. Each statement heading
+// repeats the report date, and the title comes first, while a note on
+// subsequent events names a later date once.
+const mostCited = (periods: ParsedPeriod[]) => {
+  const counts = new Map<string, number>();
+  periods.forEach(period => counts.set(period.endDate, (counts.get(period.endDate) || 0) + 1));
+  return periods.reduce<ParsedPeriod | null>((best, period) =>
+    !best || counts.get(period.endDate)! > counts.get(best.endDate)! ? period : best, null);
+};
+
+// The most recent year end that has passed, for uploads nothing dates
+export const lastYearEnd = (yearEnd: YearEnd = CALENDAR_YEAR_END, today: Date = new Date()): string => {
+  const year = today.getUTCFullYear();
+  const thisYear = yearEndDate(year, yearEnd);
+  return thisYear < today.toISOString().slice(0, 10) ? thisYear : yearEndDate(year - 1, yearEnd);
+};
+
+// The period an upload reports. A phrase in the text is the strongest
+// evidence, the one repeated most or else the first, so texts should be
+// passed title first. Then come full dates in column headers, sheet names
+// and the file name, where the latest date wins as comparatives come
+// before it. Only then are bare years used, ending on the fiscal year end.
+// With nothing to go on the last year end is assumed.
+export const detectReportPeriod = (
+  sources: PeriodSources,
+  options: { yearEnd?: YearEnd; dateOrder?: DateOrder; today?: Date } = {}
+): DetectedPeriod => {
+  const { dateOrder = 'dmy' } = options;
+  const yearEnd = options.yearEnd || CALENDAR_YEAR_END;
+  const found = (period: ParsedPeriod | null, evidence: PeriodEvidence): DetectedPeriod | null =>
+    period ? { ...period, evidence, yearEnd: yearEndOf(period.endDate) } : null;
+
+  const labels = (texts: string[] = [], datedOnly: boolean) => latest(texts
+    .filter(text => text && (!datedOnly || namesDay(text, dateOrder)))
+    .map(text => parsePeriodLabel(text, yearEnd, dateOrder))
+    .filter((period): period is ParsedPeriod => period !== null));
+
+  const fromName = sources.filename ? periodFromFilename(sources.filename, yearEnd, dateOrder) : null;
+  const nameIsDated = !!sources.filename && !!fromName && !!sources.filename.match(DATE_IN_NAME);
+
+  const detected =
+    found(mostCited((sources.texts || []).flatMap(text => findPeriodPhrases(text, dateOrder))), 'content') ||
+    found(labels(sources.headers, true), 'column_header') ||
+    found(labels(sources.sheetNames, true), 'sheet_name') ||
+    (nameIsDated ? found(fromName, 'filename') : null);
+
+  if (detected) return detected;
+
+  // Bare years keep the fiscal year end they were given
+  const bare = (period: ParsedPeriod | null, evidence: PeriodEvidence): DetectedPeriod | null =>
+    period ? { ...period, evidence, yearEnd } : null;
+
+  return bare(labels(sources.headers, false), 'column_header') ||
+    bare(labels(sources.sheetNames, false), 'sheet_name') ||
+    bare(fromName, 'filename') ||
+    { label: 'Last year end', endDate: lastYearEnd(yearEnd, options.today), evidence: 'assumed', yearEnd };
+};
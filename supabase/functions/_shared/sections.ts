@@ -0,0 +1,61 @@
+// Financial statement section detection shared by the edge functions and the
+// browser. Keep this module free of Deno and DOM APIs so both runtimes can
+// import it.
+
+export type StatementSection =
+  | 'financial_position'
+  | 'profit_or_loss'
+  | 'other_comprehensive_income'
+  | 'cash_flows'
+  | 'changes_in_equity'
+  | 'notes';
+
+export const STATEMENT_SECTION_LABELS: Record<StatementSection, string> = {
+  financial_position: 'Statement of Financial Position',
+  profit_or_loss: 'Statement of Profit or Loss',
+  other_comprehensive_income: 'Other Comprehensive Income',
+  cash_flows: 'Statement of Cash Flows',
+  changes_in_equity: 'Statement of Changes in Equity',
+  notes: 'Notes'
+};
+
+type HighLevelCategory = 'Assets' | 'Liabilities' | 'Equity' | 'Revenue' | 'Expenses';
+
+// High level categories a line on each primary statement can belong to
+export const SECTION_CATEGORIES: Partial<Record<StatementSection, HighLevelCategory[]>> = {
+  financial_position: ['Assets', 'Liabilities', 'Equity'],
+  profit_or_loss: ['Revenue', 'Expenses'],
+  other_comprehensive_income: ['Revenue', 'Expenses', 'Equity']
+};
+
+// Titles may be qualified ("Consolidated statement of ...") and followed by a
+// date, but must start the line so narrative text in the notes that mentions
+// a statement is not taken for a heading. Order matters: the combined
+// "profit or loss and other comprehensive income" title is a P&L heading,
+// while a bare "Other comprehensive income" line starts the OCI part of it.
+const TITLE_PREFIX = '^(?:(?:consolidated|separate|company|group|condensed|interim|summary)\\s+)*';
+
+const SECTION_HEADINGS: Array<{ section: StatementSection; pattern: RegExp }> = [
+  { section: 'notes', pattern: new RegExp(`${TITLE_PREFIX}notes to (?:and forming part of )?the .*financial statements|^note\\s+\\d+\\b`) },
+  { section: 'changes_in_equity', pattern: new RegExp(`${TITLE_PREFIX}statement of changes in (?:shareholders'?\\s+|stockholders'?\\s+)?equity`) },
+  { section: 'cash_flows', pattern: new RegExp(`${TITLE_PREFIX}(?:statement of cash flows?|cash flows? statement)`) },
+  { section: 'other_comprehensive_income', pattern: /^(?:statement of )?other comprehensive income(?: for the (?:year|period))?$/ },
+  { section: 'profit_or_loss', pattern: new RegExp(`${TITLE_PREFIX}(?:statement of (?:comprehensive income|profit or loss|income|operations)|income statement|profit and loss(?: account| statement)?)`) },
+  { section: 'financial_position', pattern: new RegExp(`${TITLE_PREFIX}(?:statement of financial position|balance sheet)`) }
+];
+
+// Recognise a line that starts a statement or the notes
+export const detectSectionHeading = (line: string): StatementSection | null => {
+  const text = line.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!text || text.length > 120) return null;
+
+  return SECTION_HEADINGS.find(heading => heading.pattern.test(text))?.section ?? null;
+};
+
+// Whether a classification is plausible for a line from the given section.
+// Lines from the notes, cash flows and equity statement, or with no known
+// section, allow any category.
+export const sectionAllowsCategory = (section: StatementSection | undefined, category: HighLevelCategory): boolean => {
+  const allowed = section ? SECTION_CATEGORIES[section] : undefined;
+  return !allowed || allowed.includes(category);
+};
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Cell,
+  columnLetter,
+  columnNames,
+  detectNumberLocale,
+  detectSheetLayout,
+  headerFingerprint,
+  isLayoutUsable,
+  parseAmount,
+  readRows,
+  type RowError,
+  sheetWidth,
+  toRawRows
+} from './sheetLayout.ts';
+
+const trialBalance: Cell[][] = [
+  ['Acme Ltd trial balance'],
+  [],
+  ['Account No.', 'Account Name', 'Debit', 'Credit'],
+  ['1000', 'Cash at bank', 1500, null],
+  ['2000', 'Trade payables', null, '(300.00)'],
+  ['', 'Current assets', null, null],
+  ['3000', 'Share capital', null, 1200]
+];
+
+describe('parseAmount', () => {
+  it('reads the way accounting exports write amounts', () => {
+    expect(parseAmount('$1,234.56')).toBe(1234.56);
+    expect(parseAmount('(300.00)')).toBe(-300);
+    expect(parseAmount('300.00-')).toBe(-300);
+    expect(parseAmount('1.234,56', 'comma')).toBe(1234.56);
+    expect(parseAmount('—')).toBe(0);
+    expect(parseAmount('n/a')).toBeNaN();
+    expect(parseAmount('')).toBeNaN();
+  });
+});
+
+describe('detectNumberLocale', () => {
+  it('goes by the amounts whose decimals give the locale away', () => {
+    expect(detectNumberLocale([['Kasse', '1.234,56'], ['Bank', '-78,90'], ['Kredit', '1.234']])).toBe('comma');
+    expect(detectNumberLocale([['Cash', '1,234.56'], ['Bank', '1,234']])).toBe('point');
+  });
+});
+
+describe('detectSheetLayout', () => {
+  it('finds the header below title rows and names each column', () => {
+    const layout = detectSheetLayout(trialBalance);
+
+    expect(layout).toEqual({ headerRow: 2, columns: { account: 0, description: 1, debit: 2, credit: 3 } });
+    expect(isLayoutUsable(layout)).toBe(true);
+  });
+
+  it('guesses roles from the data when there is no header', () => {
+    const layout = detectSheetLayout([
+      ['1000', 'Cash at bank', 1500, 0],
+      ['2000', 'Trade payables', 0, 300],
+      ['3000', 'Share capital', 0, 1200]
+    ]);
+
+    expect(layout).toEqual({ headerRow: null, columns: { description: 1, account: 0, debit: 2, credit: 3 } });
+  });
+});
+
+describe('readRows', () => {
+  it('nets debit and credit magnitudes and skips rows without amounts', () => {
+    const rows = readRows(trialBalance, detectSheetLayout(trialBalance));
+
+    expect(rows.map(row => [row.account_number, row.account_description, row.balance, row.row_number])).toEqual([
+      ['1000', 'Cash at bank', 1500, 4],
+      ['2000', 'Trade payables', -300, 5],
+      ['3000', 'Share capital', -1200, 7]
+    ]);
+  });
+
+  it('turns credit-positive balances debit positive', () => {
+    const rows = readRows(
+      [['Account', 'Balance'], ['Revenue', '5.000,00']],
+      { headerRow: 0, columns: { description: 0, balance: 1 } },
+      { numberLocale: 'comma', amountSign: 'credit_positive' }
+    );
+
+    expect(rows[0].balance).toBe(-5000);
+  });
+
+  it('numbers rows from the top of the sheet when read in batches', () => {
+    const layout = detectSheetLayout(trialBalance);
+    const batches = [trialBalance.slice(0, 2), trialBalance.slice(2, 4), trialBalance.slice(4)];
+    let offset = 0;
+    const rows = batches.flatMap(batch => {
+      const read = readRows(batch, layout, { offset });
+      offset += batch.length;
+      return read;
+    });
+
+    expect(rows).toEqual(readRows(trialBalance, layout));
+  });
+
+  it('reports amount cells that are not numbers with their row number', () => {
+    const errors: RowError[] = [];
+    const rows = readRows(
+      [['Description', 'Balance'], ['Cash', 'tbc'], ['Bank', 20]],
+      { headerRow: 0, columns: { description: 0, balance: 1 } },
+      {},
+      error => errors.push(error)
+    );
+
+    expect(rows.map(row => row.account_description)).toEqual(['Bank']);
+    expect(errors).toEqual([{ row_number: 2, message: 'Balance "tbc" is not a number' }]);
+  });
+});
+
+describe('column names', () => {
+  it('counts letters past Z', () => {
+    expect([0, 25, 26, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+  });
+
+  it('names blank and repeated headers by column letter', () => {
+    expect(columnNames([['Account', '', 'Amount', 'Amount']], 0)).toEqual(['Account', 'B', 'Amount', 'Amount (D)']);
+  });
+
+  it('stores title rows by letter and data rows by header', () => {
+    expect(toRawRows(trialBalance.slice(0, 4), 2, 'TB')).toEqual([
+      { sheet_name: 'TB', row_number: 1, cells: { A: 'Acme Ltd trial balance' } },
+      { sheet_name: 'TB', row_number: 3, cells: { A: 'Account No.', B: 'Account Name', C: 'Debit', D: 'Credit' } },
+      { sheet_name: 'TB', row_number: 4, cells: { 'Account No.': '1000', 'Account Name': 'Cash at bank', Debit: 1500 } }
+    ]);
+  });
+
+  it('names the cells of sheets too large to spread into one call', () => {
+    const rows: Cell[][] = [['Account', 'Description', 'Balance']];
+    for (let i = 1; i <= 200_000; i++) rows.push([String(1000 + i), `Account ${i}`, i]);
+    rows.push(['9999', 'Suspense', 0, 'note']);
+
+    expect(sheetWidth(rows)).toBe(4);
+    const raw = toRawRows(rows, 0, 'TB');
+    expect(raw).toHaveLength(200_002);
+    expect(raw[raw.length - 1].cells).toEqual({ Account: '9999', Description: 'Suspense', Balance: 0, D: 'note' });
+  });
+
+  it('names batches of rows from the header of the first one', () => {
+    const names = columnNames(trialBalance.slice(0, 4), 2);
+    const batches = [trialBalance.slice(0, 3), trialBalance.slice(3, 5), [...trialBalance.slice(5), ['4000', 'Revenue', null, 500, 'x']]];
+    let offset = 0;
+    const raw = batches.flatMap(batch => {
+      const stored = toRawRows(batch, 2, 'TB', { names, offset });
+      offset += batch.length;
+      return stored;
+    });
+
+    expect(raw.slice(0, 5)).toEqual(toRawRows(trialBalance, 2, 'TB').slice(0, 5));
+    expect(raw[raw.length - 1]).toEqual({
+      sheet_name: 'TB',
+      row_number: 8,
+      cells: { 'Account No.': '4000', 'Account Name': 'Revenue', Credit: 500, E: 'x' }
+    });
+  });
+
+  it('fingerprints headers regardless of case and punctuation', () => {
+    expect(headerFingerprint(['Account No.', 'Account_Name', 'Debit', '', null]))
+      .toBe(headerFingerprint(['account no', 'ACCOUNT NAME', 'debit']));
+  });
+});
@@ -0,0 +1,345 @@
+// Where the header and each kind of column sit on a spreadsheet, shared by
+// the upload wizard and process-excel. Keep this module free of Deno and DOM
+// APIs so both runtimes can import it.
+
+export type ColumnRole = 'account' | 'description' | 'debit' | 'credit' | 'balance' | 'period' | 'entity';
+
+export const COLUMN_ROLES: ColumnRole[] = ['account', 'description', 'debit', 'credit', 'balance', 'period', 'entity'];
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  account: 'Account number',
+  description: 'Description',
+  debit: 'Debit',
+  credit: 'Credit',
+  balance: 'Balance',
+  period: 'Period',
+  entity: 'Entity'
+};
+
+export type Cell = string | number | boolean | Date | null | undefined;
+
+// How amounts are written: "1,234.56" (point) or "1.234,56" (comma)
+export type NumberLocale = 'point' | 'comma';
+
+// Which side the export shows as positive in its balance column
+export type AmountSign = 'debit_positive' | 'credit_positive';
+
+export interface ReadOptions {
+  numberLocale?: NumberLocale;
+  amountSign?: AmountSign;
+  // Rows after the header that are not data, such as an opening balance line
+  skipRows?: number;
+  // Index in the sheet of the first row passed, for files read a batch of
+  // rows at a time. Row numbers, the header and skipped rows count from the
+  // top of the sheet.
+  offset?: number;
+}
+
+export interface SheetLayout {
+  // Zero-based index of the header row; null when data starts on the first row
+  headerRow: number | null;
+  // Zero-based column index per role; a role may be left unassigned
+  columns: Partial<Record<ColumnRole, number>>;
+}
+
+// A raw row as stored in excel_data: cell values by column name
+export type RowCells = Record<string, string | number | boolean>;
+
+export interface RawRow {
+  sheet_name: string;
+  // One-based, as Excel numbers rows
+  row_number: number;
+  cells: RowCells;
+}
+
+// A row that could not be read as it stands
+export interface RowError {
+  sheet_name?: string;
+  // One-based, as Excel numbers rows
+  row_number: number;
+  message: string;
+}
+
+export interface LayoutRow {
+  account_number?: string;
+  account_description: string;
+  debit?: number;
+  credit?: number;
+  balance: number;
+  // Period as printed in the sheet, e.g. "Dec 2024"
+  period_label?: string;
+  entity?: string;
+  // One-based, as Excel numbers rows
+  row_number: number;
+}
+
+// Header words per role, longest first so "account name" is read as a
+// description before "account" claims it. German headings cover the
+// semicolon-separated exports of European ERPs.
+const ROLE_KEYWORDS: Array<{ role: ColumnRole; pattern: RegExp }> = [
+  { role: 'description', pattern: /^(account )?(description|name|title)$|^particulars$|^details$|^narration$|^account name$|^(konto)?bezeichnung$/ },
+  { role: 'account', pattern: /^(account|acct|a\/c|gl)( (no|number|code|#|id))?$|^(no|code|number)$|^ledger( code)?$|^konto(nummer)?$|^sachkonto$/ },
+  { role: 'debit', pattern: /^(debit|dr)( balance| amount)?$|^soll$/ },
+  { role: 'credit', pattern: /^(credit|cr)( balance| amount)?$|^haben$/ },
+  { role: 'balance', pattern: /^(closing |net |ending )?(balance|amount|total|value)$|^ytd( balance)?$|^saldo$|^betrag$/ },
+  { role: 'period', pattern: /^(period|month|date|year|fiscal period|posting period)$/ },
+  { role: 'entity', pattern: /^(entity|company|subsidiary|legal entity|business unit|division)$/ }
+];
+
+// Rows the header is looked for in
+const HEADER_SCAN_ROWS = 20;
+
+export const cellText = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+// Cells in the widest row. Sheets can have more rows than a spread call
+// takes arguments, so this is not Math.max(...rows).
+export const sheetWidth = (rows: Cell[][]): number =>
+  rows.reduce((width, row) => Math.max(width, row?.length || 0), 0);
+
+const headerKey = (cell: Cell) => cellText(cell).toLowerCase().replace(/[._:]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const roleForHeader = (cell: Cell): ColumnRole | undefined => {
+  const key = headerKey(cell);
+  return key ? ROLE_KEYWORDS.find(keyword => keyword.pattern.test(key))?.role : undefined;
+};
+
+// Numbers as exported by accounting systems: currency symbols, thousands
+// separators and negatives in brackets
+export const parseAmount = (value: Cell, locale: NumberLocale = 'point'): number => {
+  if (typeof value === 'number') return value;
+  const text = cellText(value);
+  if (!text) return NaN;
+  // A lone dash is how statements print zero
+  if (/^[-–—]$/.test(text)) return 0;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /-$/.test(text);
+  const stripped = text.replace(/^-|-$/g, '').replace(/[$£€¥₹()\s']/g, '');
+  const cleaned = locale === 'comma'
+    ? stripped.replace(/\./g, '').replace(',', '.')
+    : stripped.replace(/,/g, '');
+  if (!/^\d*\.?\d+$/.test(cleaned)) return NaN;
+
+  const parsed = parseFloat(cleaned);
+  return negative ? -parsed : parsed;
+};
+
+const isAmount = (cell: Cell) => !isNaN(parseAmount(cell));
+
+// Decide between "1,234.56" and "1.234,56" from amounts whose decimals give
+// it away. "1.234" and "1,234" could be either and are not counted.
+export const detectNumberLocale = (rows: Cell[][]): NumberLocale => {
+  let point = 0;
+  let comma = 0;
+
+  rows.forEach(row => (row || []).forEach(cell => {
+    if (typeof cell !== 'string') return;
+    const text = cell.trim().replace(/^[-(]|[-)]$/g, '');
+    if (!/^[$£€¥₹]?\s?[\d.,'\s]+$/.test(text)) return;
+    if (/\d,\d{1,2}$/.test(text) || /\.\d{3},\d+$/.test(text)) comma++;
+    else if (/\d\.\d{1,2}$/.test(text) || /,\d{3}\.\d+$/.test(text)) point++;
+  }));
+
+  return comma > point ? 'comma' : 'point';
+};
+
+// Identifies a template: the same export has the same header cells in the
+// same order
+export const headerFingerprint = (headers: Cell[]): string =>
+  headers.map(headerKey).join('|').replace(/\|+$/, '');
+
+// Sheets without a header row cannot be recognised again
+export const sheetFingerprint = (rows: Cell[][], headerRow: number | null): string =>
+  headerRow === null ? '' : headerFingerprint(rows[headerRow] || []);
+
+// The first row near the top where at least two cells name a column role
+export const detectHeaderRow = (rows: Cell[][]): number | null => {
+  for (let i = 0; i < Math.min(HEADER_SCAN_ROWS, rows.length); i++) {
+    const roles = new Set((rows[i] || []).map(roleForHeader).filter(Boolean));
+    if (roles.size >= 2) return i;
+  }
+  return null;
+};
+
+// Roles from the header cells, then from the data for roles the header does
+// not name: the most textual column is the description and the numeric
+// columns right of it are amounts
+export const guessColumnRoles = (rows: Cell[][], headerRow: number | null): SheetLayout['columns'] => {
+  const columns: SheetLayout['columns'] = {};
+
+  if (headerRow !== null) {
+    (rows[headerRow] || []).forEach((cell, index) => {
+      const role = roleForHeader(cell);
+      if (role && columns[role] === undefined) columns[role] = index;
+    });
+  }
+
+  const sample = rows.slice(headerRow === null ? 0 : headerRow + 1).slice(0, 50);
+  const width = sheetWidth(sample);
+  const assigned = new Set(Object.values(columns));
+
+  const textCounts = Array.from({ length: width }, (_, index) =>
+    sample.filter(row => cellText(row?.[index]) && !isAmount(row?.[index])).length
+  );
+  const amountCounts = Array.from({ length: width }, (_, index) =>
+    sample.filter(row => cellText(row?.[index]) && isAmount(row?.[index])).length
+  );
+
+  if (columns.description === undefined) {
+    const best = textCounts
+      .map((count, index) => ({ count, index }))
+      .filter(column => !assigned.has(column.index) && column.count > 0)
+      .sort((a, b) => b.count - a.count)[0];
+    if (best) {
+      columns.description = best.index;
+      assigned.add(best.index);
+    }
+  }
+
+  if (columns.account === undefined && columns.description !== undefined && columns.description > 0) {
+    const before = columns.description - 1;
+    // Account codes sit left of the description and are mostly filled
+    if (!assigned.has(before) && amountCounts[before] + textCounts[before] >= sample.length / 2) {
+      columns.account = before;
+      assigned.add(before);
+    }
+  }
+
+  if (columns.balance === undefined && columns.debit === undefined && columns.credit === undefined) {
+    const amounts = amountCounts
+      .map((count, index) => ({ count, index }))
+      .filter(column => !assigned.has(column.index) && column.count > 0 && column.index > (columns.description ?? -1));
+    // Two amount columns are debit and credit; otherwise the last one is the balance
+    if (amounts.length === 2) {
+      columns.debit = amounts[0].index;
+      columns.credit = amounts[1].index;
+    } else if (amounts.length > 0) {
+      columns.balance = amounts[amounts.length - 1].index;
+    }
+  }
+
+  return columns;
+};
+
+export const detectSheetLayout = (rows: Cell[][]): SheetLayout => {
+  const headerRow = detectHeaderRow(rows);
+  return { headerRow, columns: guessColumnRoles(rows, headerRow) };
+};
+
+// A layout needs something to name the line and something to value it
+export const isLayoutUsable = (layout: SheetLayout): boolean =>
+  (layout.columns.description !== undefined || layout.columns.account !== undefined) &&
+  (layout.columns.balance !== undefined || layout.columns.debit !== undefined || layout.columns.credit !== undefined);
+
+// Read the data rows of a sheet. The balance column wins where there is one;
+// otherwise the balance is debit less credit. Debit and credit columns hold
+// magnitudes, so a bracketed credit is still a credit. Rows with no amount at
+// all (headings, blank lines) are skipped. Balances are returned debit
+// positive whatever the export's sign. Amount cells that are filled but are
+// not numbers are passed to onError.
+export const readRows = (
+  rows: Cell[][],
+  layout: SheetLayout,
+  options: ReadOptions = {},
+  onError?: (error: RowError) => void
+): LayoutRow[] => {
+  const { columns } = layout;
+  const at = (row: Cell[], role: ColumnRole) => columns[role] === undefined ? undefined : row[columns[role] as number];
+  const amount = (row: Cell[], role: ColumnRole) => parseAmount(at(row, role), options.numberLocale);
+  const sign = options.amountSign === 'credit_positive' ? -1 : 1;
+  const offset = options.offset || 0;
+  const firstRow = (layout.headerRow === null ? 0 : layout.headerRow + 1) + (options.skipRows || 0);
+  const result: LayoutRow[] = [];
+
+  for (let i = Math.max(firstRow - offset, 0); i < rows.length; i++) {
+    const row = rows[i] || [];
+    const account = cellText(at(row, 'account'));
+    const description = cellText(at(row, 'description')) || account;
+    if (!description) continue;
+
+    const debit = Math.abs(amount(row, 'debit'));
+    const credit = Math.abs(amount(row, 'credit'));
+    const balance = amount(row, 'balance') * sign;
+
+    const unreadable = (['debit', 'credit', 'balance'] as ColumnRole[])
+      .filter(role => cellText(at(row, role)) && isNaN(amount(row, role)));
+    if (unreadable.length > 0) {
+      onError?.({
+        row_number: offset + i + 1,
+        message: unreadable.map(role => `${COLUMN_ROLE_LABELS[role]} "${cellText(at(row, role))}" is not a number`).join('; ')
+      });
+    }
+
+    if (isNaN(balance) && isNaN(debit) && isNaN(credit)) continue;
+
+    result.push({
+      account_number: account && account !== description ? account : undefined,
+      account_description: description,
+      debit: isNaN(debit) ? undefined : debit,
+      credit: isNaN(credit) ? undefined : credit,
+      balance: !isNaN(balance) ? balance : (isNaN(debit) ? 0 : debit) - (isNaN(credit) ? 0 : credit),
+      period_label: cellText(at(row, 'period')) || undefined,
+      entity: cellText(at(row, 'entity')) || undefined,
+      row_number: offset + i + 1
+    });
+  }
+
+  return result;
+};
+
+// Spreadsheet column letters: 0 is A, 26 is AA
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+// Names for the cells of data rows: the header text, or the column letter
+// where the header cell is blank. A repeated header gets its column letter
+// appended so no cell is lost.
+export const columnNames = (rows: Cell[][], headerRow: number | null): string[] => {
+  const width = sheetWidth(rows);
+  const header = headerRow === null ? [] : rows[headerRow] || [];
+  const seen = new Set<string>();
+
+  return Array.from({ length: width }, (_, index) => {
+    const text = cellText(header[index]);
+    const name = !text ? columnLetter(index) : seen.has(text) ? `${text} (${columnLetter(index)})` : text;
+    seen.add(name);
+    return name;
+  });
+};
+
+// Non-blank rows with their cells named by header. The header row and any
+// title rows above it are named by column letter. A file read a batch at a
+// time passes the names from its first rows and where the batch starts;
+// cells beyond the named columns are named by letter.
+export const toRawRows = (
+  rows: Cell[][],
+  headerRow: number | null,
+  sheetName: string,
+  { names = columnNames(rows, headerRow), offset = 0 }: { names?: string[]; offset?: number } = {}
+): RawRow[] => {
+  const result: RawRow[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    const byLetter = headerRow !== null && offset + rowIndex <= headerRow;
+    const cells: RowCells = {};
+    (row || []).forEach((cell, index) => {
+      if (cell === null || cell === undefined || cell === '') return;
+      const key = (!byLetter && names[index]) || columnLetter(index);
+      cells[key] = cell instanceof Date ? cellText(cell) : cell;
+    });
+
+    if (Object.keys(cells).length > 0) {
+      result.push({ sheet_name: sheetName, row_number: offset + rowIndex + 1, cells });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,87 @@
+// Writing an upload's rows, shared by process-excel and process-csv. Unlike
+// the other shared modules this one talks to Supabase, so only the edge
+// functions import it.
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { LayoutRow, RowError } from './sheetLayout.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Rows per insert request
+export const INSERT_CHUNK_SIZE = 500;
+
+// Row errors kept on an upload; a file that is wrong throughout would
+// otherwise store one per row
+export const MAX_ROW_ERRORS = 500;
+
+export interface TrialBalanceEntry extends LayoutRow {
+  period?: string;
+  confidence_score: number;
+  sheet_name: string;
+  // Merged heading the row sat under in the sheet
+  group_label?: string;
+}
+
+export const toTrialBalanceRecord = (uploadId: string, entry: TrialBalanceEntry) => ({
+  upload_id: uploadId,
+  sheet_name: entry.sheet_name,
+  account_number: entry.account_number || null,
+  account_description: entry.account_description,
+  debit: entry.debit || null,
+  credit: entry.credit || null,
+  balance: entry.balance,
+  period: entry.period || null,
+  period_label: entry.period_label || null,
+  entity: entry.entity || null,
+  group_label: entry.group_label || null,
+  page_number: null,
+  row_number: entry.row_number,
+  confidence_score: entry.confidence_score
+});
+
+// A subtotal row of a sheet, kept as the figure the sheet reports rather
+// than as an account
+export const toReportedTotalRecord = (uploadId: string, entry: TrialBalanceEntry & { formula: string }) => ({
+  upload_id: uploadId,
+  sheet_name: entry.sheet_name,
+  label: entry.account_description,
+  amount: entry.balance,
+  debit: entry.debit ?? null,
+  credit: entry.credit ?? null,
+  period: entry.period || null,
+  period_label: entry.period_label || null,
+  row_number: entry.row_number,
+  raw_line: `${entry.sheet_name} row ${entry.row_number}: ${entry.formula}`
+});
+
+export const capRowErrors = (errors: RowError[]): RowError[] => errors.slice(0, MAX_ROW_ERRORS);
+
+export async function insertInChunks(supabase: SupabaseClient, table: string, records: Record<string, unknown>[]) {
+  for (let start = 0; start < records.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = records.slice(start, start + INSERT_CHUNK_SIZE);
+    const { error } = await supabase.from(table).insert(chunk);
+
+    if (error) {
+      throw new Error(`Failed to insert ${table} rows ${start + 1}-${start + chunk.length}: ${error.message}`);
+    }
+  }
+
+  console.log(`Inserted ${records.length} rows into ${table}`);
+}
+
+// Remove what an interrupted attempt wrote, for one sheet or the whole upload,
+// before it is read again. afterRow keeps the rows of the sheet up to a
+// checkpoint. Totals typed in by hand are kept.
+export async function clearRows(supabase: SupabaseClient, uploadId: string, sheetName?: string, afterRow = 0) {
+  for (const table of ['excel_data', 'trial_balances', 'reported_totals']) {
+    let query = supabase.from(table).delete().eq('upload_id', uploadId);
+    if (table === 'reported_totals') query = query.eq('source', 'extracted');
+    if (sheetName) query = query.eq('sheet_name', sheetName);
+    if (afterRow > 0) query = query.gt('row_number', afterRow);
+    const { error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to clear ${table}${sheetName ? ` for sheet ${sheetName}` : ''}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { readRows, type SheetLayout } from './sheetLayout.ts';
+import { applyRowMeta, isBracketedFormat, readWorksheet, type Worksheet } from './xlsxSheet.ts';
+
+const text = (v: string) => ({ t: 's', v, w: v });
+const number = (v: number, z?: string) => ({ t: 'n', v, z });
+
+// Shaped as SheetJS reads a workbook with cellStyles and cellNF
+const sheet: Worksheet = {
+  '!ref': 'A1:C7',
+  '!rows': [undefined, undefined, undefined, { hidden: true }],
+  '!merges': [
+    { s: { r: 1, c: 0 }, e: { r: 1, c: 2 } },
+    { s: { r: 5, c: 0 }, e: { r: 5, c: 2 } }
+  ],
+  A1: text('Account'), B1: text('Description'), C1: text('Balance'),
+  A2: text('Current assets'),
+  A3: text('1000'), B3: text('Cash at bank'), C3: number(1500),
+  A4: text('1100'), B4: text('Old receivables'), C4: number(400),
+  B5: text('Total current assets'), C5: { t: 'n', v: 1900, f: 'SUM(C3:C4)' },
+  A6: text('Current liabilities'),
+  A7: text('2000'), B7: text('Trade payables'), C7: number(300, '(#,##0)')
+};
+
+const layout: SheetLayout = { headerRow: 0, columns: { account: 0, description: 1, balance: 2 } };
+
+describe('isBracketedFormat', () => {
+  it('only counts brackets that are shown around positive numbers', () => {
+    expect(isBracketedFormat('(#,##0)')).toBe(true);
+    expect(isBracketedFormat('[Red](#,##0.00);#,##0.00')).toBe(true);
+    expect(isBracketedFormat('_(#,##0_);(#,##0)')).toBe(false);
+    expect(isBracketedFormat('"("0")"')).toBe(false);
+    expect(isBracketedFormat(7)).toBe(false);
+  });
+});
+
+describe('readWorksheet', () => {
+  it('reads cells from A1 with bracketed formats as negatives', () => {
+    const { rows } = readWorksheet(sheet);
+
+    expect(rows).toHaveLength(7);
+    expect(rows[2]).toEqual(['1000', 'Cash at bank', 1500]);
+    expect(rows[6]).toEqual(['2000', 'Trade payables', -300]);
+  });
+
+  it('keeps the text of error cells so the row is reported', () => {
+    const { rows } = readWorksheet({ '!ref': 'A1', A1: { t: 'e', v: 23, w: '#REF!' } });
+
+    expect(rows).toEqual([['#REF!']]);
+  });
+
+  it('records hidden rows, total formulas and merged headings', () => {
+    const { meta } = readWorksheet(sheet);
+
+    expect(meta[3].hidden).toBe(true);
+    expect(meta[4].totals).toEqual({ 2: '=SUM(C3:C4)' });
+    expect(meta[2]).toMatchObject({ group: 'Current assets', groupRow: 1 });
+    expect(meta[6]).toMatchObject({ group: 'Current liabilities', groupRow: 5 });
+  });
+
+  it('lets a label merged down a column win over a heading', () => {
+    const { meta } = readWorksheet({
+      ...sheet,
+      '!merges': [...sheet['!merges']!, { s: { r: 2, c: 0 }, e: { r: 3, c: 0 } }]
+    });
+
+    expect(meta[2]).toMatchObject({ group: '1000', groupRow: 2 });
+    expect(meta[3]).toMatchObject({ group: '1000', groupRow: 2 });
+    expect(meta[4]).toMatchObject({ group: 'Current assets', groupRow: 1 });
+  });
+});
+
+describe('applyRowMeta', () => {
+  it('drops hidden rows, sets subtotals apart and labels entries with their group', () => {
+    const { rows, meta } = readWorksheet(sheet);
+    const { entries, subtotals } = applyRowMeta(readRows(rows, layout), meta, layout);
+
+    expect(entries.map(entry => [entry.account_description, entry.balance, entry.group_label])).toEqual([
+      ['Cash at bank', 1500, 'Current assets'],
+      ['Trade payables', -300, 'Current liabilities']
+    ]);
+    expect(subtotals.map(subtotal => [subtotal.account_description, subtotal.balance, subtotal.formula])).toEqual([
+      ['Total current assets', 1900, '=SUM(C3:C4)']
+    ]);
+  });
+
+  it('does not take headings above the header row for groups', () => {
+    const { rows, meta } = readWorksheet(sheet);
+    const below: SheetLayout = { ...layout, headerRow: 5 };
+    const { entries } = applyRowMeta(readRows(rows, below), meta, below);
+
+    expect(entries).toEqual([expect.not.objectContaining({ group_label: expect.anything() })]);
+  });
+});
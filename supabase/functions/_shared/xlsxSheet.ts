@@ -0,0 +1,176 @@
+// Reading a SheetJS worksheet with what sheet_to_json drops: hidden rows,
+// subtotal formulas, merged group headings and bracketed number formats.
+// Shared by process-excel and the upload wizard, so both number rows the
+// same way. Only the worksheet's shape is relied on, not the library.
+
+import { type Cell, columnLetter, type LayoutRow, type SheetLayout } from './sheetLayout.ts';
+
+export interface WorksheetCell {
+  t?: string;
+  v?: unknown;
+  // Formatted text
+  w?: string;
+  // Formula, without the leading "="
+  f?: string;
+  // Number format
+  z?: string | number;
+}
+
+interface CellAddress {
+  r: number;
+  c: number;
+}
+
+export interface Worksheet {
+  '!ref'?: string;
+  '!rows'?: Array<{ hidden?: boolean } | undefined>;
+  '!merges'?: Array<{ s: CellAddress; e: CellAddress }>;
+  [address: string]: unknown;
+}
+
+export interface RowMeta {
+  // Hidden by hand or by a filter
+  hidden?: boolean;
+  // Columns holding a SUM or SUBTOTAL formula, with the formula
+  totals?: Record<number, string>;
+  // Text of the merged heading the row sits under, and the heading's row
+  group?: string;
+  groupRow?: number;
+}
+
+export interface SheetCells {
+  // From the sheet's first row and column, so indexes match Excel's
+  rows: Cell[][];
+  meta: RowMeta[];
+}
+
+const TOTAL_FORMULA = /^\s*(SUM|SUBTOTAL|AGGREGATE)\s*\(/i;
+
+const decodeColumn = (letters: string) =>
+  letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const decodeCell = (address: string): CellAddress | null => {
+  const match = address.toUpperCase().match(/^\$?([A-Z]+)\$?(\d+)$/);
+  return match ? { r: parseInt(match[2], 10) - 1, c: decodeColumn(match[1]) } : null;
+};
+
+const encodeCell = ({ r, c }: CellAddress) => `${columnLetter(c)}${r + 1}`;
+
+// A format whose positive section is wrapped in brackets, "(#,##0)", shows
+// positive values as negatives. Padding ("_("), fill ("* "), escapes,
+// colours and quoted text are not brackets that are shown.
+export const isBracketedFormat = (format?: string | number): boolean => {
+  if (typeof format !== 'string') return false;
+  const positive = format.split(';')[0]
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/[_*\\]./g, '')
+    .trim();
+  return /^\(.*[0#].*\)$/.test(positive);
+};
+
+const cellValue = (cell: WorksheetCell): Cell => {
+  if (cell.t === 'z') return undefined;
+  // Error cells keep their text (#REF!) so the row is reported
+  if (cell.t === 'e') return cell.w || '#ERROR';
+  if (cell.t === 'n' && typeof cell.v === 'number' && cell.v > 0 && isBracketedFormat(cell.z)) return -cell.v;
+  return cell.v as Cell;
+};
+
+// Rows are read from A1 so row and column indexes are the sheet's own.
+// Read the workbook with cellStyles and cellNF so hidden rows and number
+// formats are there.
+export const readWorksheet = (sheet: Worksheet): SheetCells => {
+  const [, end] = (sheet['!ref'] || '').split(':');
+  const last = decodeCell(end || sheet['!ref'] || '');
+  if (!last) return { rows: [], meta: [] };
+
+  const rows: Cell[][] = [];
+  const meta: RowMeta[] = [];
+
+  for (let r = 0; r <= last.r; r++) {
+    const row: Cell[] = [];
+    const rowMeta: RowMeta = {};
+
+    for (let c = 0; c <= last.c; c++) {
+      const cell = sheet[encodeCell({ r, c })] as WorksheetCell | undefined;
+      if (!cell) continue;
+      row[c] = cellValue(cell);
+      if (cell.f && TOTAL_FORMULA.test(cell.f)) {
+        rowMeta.totals = { ...rowMeta.totals, [c]: `=${cell.f}` };
+      }
+    }
+
+    if (sheet['!rows']?.[r]?.hidden) rowMeta.hidden = true;
+    rows.push(row);
+    meta.push(rowMeta);
+  }
+
+  applyMergedGroups(sheet, rows, meta);
+  return { rows, meta };
+};
+
+// A heading merged across columns labels the rows below it, up to the next
+// such heading. A label merged down a column labels the rows it spans, and
+// wins over a heading.
+const applyMergedGroups = (sheet: Worksheet, rows: Cell[][], meta: RowMeta[]) => {
+  const labelOf = ({ r, c }: CellAddress) => {
+    const value = rows[r]?.[c];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const merges = sheet['!merges'] || [];
+  const headings = merges
+    .filter(merge => merge.s.r === merge.e.r && merge.e.c > merge.s.c && labelOf(merge.s))
+    .sort((a, b) => a.s.r - b.s.r);
+
+  headings.forEach((heading, index) => {
+    const until = headings[index + 1]?.s.r ?? rows.length;
+    for (let r = heading.s.r + 1; r < until; r++) {
+      meta[r].group = labelOf(heading.s);
+      meta[r].groupRow = heading.s.r;
+    }
+  });
+
+  merges
+    .filter(merge => merge.e.r > merge.s.r && labelOf(merge.s))
+    .forEach(merge => {
+      for (let r = merge.s.r; r <= merge.e.r && r < rows.length; r++) {
+        meta[r].group = labelOf(merge.s);
+        meta[r].groupRow = merge.s.r;
+      }
+    });
+};
+
+export interface SplitEntries<T> {
+  entries: Array<T & { group_label?: string }>;
+  // Rows whose amount is a SUM of the rows above, with the formula
+  subtotals: Array<T & { formula: string }>;
+}
+
+// Drop hidden rows, take subtotal rows out of the entries, and carry each
+// row's group heading. Headings at or above the header row are titles, not
+// groups.
+export const applyRowMeta = <T extends LayoutRow>(rows: T[], meta: RowMeta[], layout: SheetLayout): SplitEntries<T> => {
+  const amountColumns = (['balance', 'debit', 'credit'] as const)
+    .map(role => layout.columns[role])
+    .filter((index): index is number => index !== undefined);
+
+  const result: SplitEntries<T> = { entries: [], subtotals: [] };
+
+  rows.forEach(row => {
+    const rowMeta = meta[row.row_number - 1] || {};
+    if (rowMeta.hidden) return;
+
+    const formula = amountColumns.map(index => rowMeta.totals?.[index]).find(Boolean);
+    if (formula) {
+      result.subtotals.push({ ...row, formula });
+      return;
+    }
+
+    const isGroup = rowMeta.group && (layout.headerRow === null || (rowMeta.groupRow ?? 0) > layout.headerRow);
+    result.entries.push(isGroup ? { ...row, group_label: rowMeta.group } : row);
+  });
+
+  return result;
+};
@@ -7,6 +7,10 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Any OpenAI-compatible chat completions endpoint; set GROQ_API_URL to point
+// the function at a local stub
+const GROQ_API_URL = Deno.env.get('GROQ_API_URL') || 'https://api.groq.com/openai/v1/chat/completions';
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,7 +18,7 @@ serve(async (req) => {
   }
 
   try {
-    const { model, prompt, temperature = 0.7, top_p = 0.9, max_tokens = 1024 } = await req.json();
+    const { model, prompt, system, response_format, temperature = 0.7, top_p = 0.9, max_tokens = 1024 } = await req.json();
 
     const groqApiKey = Deno.env.get('GROQ_API_KEY');
     if (!groqApiKey) {
@@ -23,7 +27,7 @@ serve(async (req) => {
 
     console.log('Making request to Groq API with model:', model);
 
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+    const response = await fetch(GROQ_API_URL, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${groqApiKey}`,
@@ -32,6 +36,7 @@ serve(async (req) => {
       body: JSON.stringify({
         model: model,
         messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
           {
             role: 'user',
             content: prompt,
@@ -40,6 +45,8 @@ serve(async (req) => {
         temperature: temperature,
         top_p: top_p,
         max_tokens: max_tokens,
+        // e.g. { type: 'json_object' } for structured output
+        ...(response_format ? { response_format } : {}),
         stream: false,
       }),
     });
@@ -1,22 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getDocumentProxy } from 'https://esm.sh/unpdf@0.11.0';
+import {
+  assignSections,
+  buildPageTable,
+  detectPdfPeriod,
+  PageTable,
+  parseReportedTotals,
+  parseTableData,
+  RawFinancialEntry,
+  ReportedTotal,
+  TextItem
+} from '../_shared/pdfTable.ts';
+import { confirmedPeriod, type PeriodEvidence } from '../_shared/periods.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface RawFinancialEntry {
-  account_number: string;
-  description: string;
-  date: string;
-  debit?: number;
-  credit?: number;
-  balance: number;
-  direction: 'debit' | 'credit';
-  raw_line?: string;
-  page_number?: number;
-  confidence_score?: number;
+interface PdfTextContentItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
 }
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -27,10 +34,14 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let upload_id: string | undefined;
+
   try {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { upload_id } = await req.json();
+    // A period end confirmed at upload overrides the detected one
+    let period_end: string | undefined;
+    ({ upload_id, period_end } = await req.json());
     
     if (!upload_id) {
       throw new Error('Upload ID is required');
@@ -62,45 +73,61 @@ serve(async (req) => {
       throw new Error('Failed to download PDF file');
     }
 
-    // For now, create mock data since PDF.js processing is complex in Deno
-    // In production, you'd use a proper PDF processing library
     console.log('Processing PDF:', upload.filename, 'Size:', fileData.size);
-    
-    // Simulate PDF processing with mock data
-    const mockExtractedEntries: RawFinancialEntry[] = [
-      {
-        account_number: "1000",
-        description: "Cash and Cash Equivalents",
-        date: "2023-12-31",
-        balance: 50000,
-        direction: 'debit' as const,
-        raw_line: "1000 Cash and Cash Equivalents 50,000",
-        page_number: 1,
-        confidence_score: 0.9
-      },
-      {
-        account_number: "1200",
-        description: "Accounts Receivable",
-        date: "2023-12-31",
-        balance: 25000,
-        direction: 'debit' as const,
-        raw_line: "1200 Accounts Receivable 25,000",
-        page_number: 1,
-        confidence_score: 0.85
-      },
-      {
-        account_number: "2000",
-        description: "Accounts Payable",
-        date: "2023-12-31",
-        balance: -15000,
-        direction: 'credit' as const,
-        raw_line: "2000 Accounts Payable (15,000)",
-        page_number: 1,
-        confidence_score: 0.9
-      }
-    ];
-    
-    const extractedEntries = mockExtractedEntries;
+
+    // Parse the stored PDF page by page
+    const arrayBuffer = await fileData.arrayBuffer();
+    const pdf = await getDocumentProxy(new Uint8Array(arrayBuffer));
+    console.log('PDF loaded with', pdf.numPages, 'pages');
+
+    const pages: TextItem[][] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+
+      const textItems: TextItem[] = textContent.items
+        .filter((item: PdfTextContentItem) => typeof item.str === 'string')
+        .map((item: PdfTextContentItem) => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height
+        }));
+
+      pages.push(textItems);
+    }
+
+    // The period is read from the whole document before tables are built,
+    // as bare years in their headers end on its year end. One confirmed at
+    // upload, or stored by an earlier run, is used instead.
+    const period = period_end
+      ? confirmedPeriod(period_end)
+      : upload.period_end
+        ? confirmedPeriod(upload.period_end, (upload.period_evidence || 'confirmed') as PeriodEvidence)
+        : detectPdfPeriod(pages, upload.filename);
+    const defaultDate = period.endDate;
+    console.log(`Report period ${period.endDate} from ${period.evidence}: ${period.label}`);
+
+    const pageTables: PageTable[] = pages.map(textItems => buildPageTable(textItems, defaultDate));
+
+    // Statements run across pages, so sections are assigned over the whole document
+    assignSections(pageTables);
+
+    const extractedEntries: RawFinancialEntry[] = [];
+    const reportedTotals: ReportedTotal[] = [];
+    pageTables.forEach((table, index) => {
+      const pageEntries = parseTableData(table, defaultDate);
+      const pageTotals = parseReportedTotals(table, defaultDate);
+      console.log(`Page ${index + 1}: ${table.rows.length} rows, ${table.columns.length} columns, ${pageEntries.length} entries, ${pageTotals.length} totals`);
+
+      extractedEntries.push(...pageEntries.map(entry => ({ ...entry, page_number: index + 1 })));
+      reportedTotals.push(...pageTotals.map(total => ({ ...total, page_number: index + 1 })));
+    });
+
+    console.log('Total entries extracted:', extractedEntries.length);
+    console.log('Reported totals found:', reportedTotals.length);
 
     // Insert extracted data into trial_balances table
     const trialBalanceRecords = extractedEntries.map(entry => ({
@@ -111,16 +138,55 @@ serve(async (req) => {
       credit: entry.credit || null,
       balance: entry.balance,
       period: entry.date || null,
+      period_label: entry.period || null,
+      statement_section: entry.section || null,
       page_number: entry.page_number || null,
       confidence_score: entry.confidence_score || 0.8
     }));
 
-    const { error: insertError } = await supabase
+    // Clear rows from a previous run so retries don't duplicate entries
+    await supabase
       .from('trial_balances')
-      .insert(trialBalanceRecords);
+      .delete()
+      .eq('upload_id', upload_id);
 
-    if (insertError) {
-      throw new Error(`Failed to insert records: ${insertError.message}`);
+    if (trialBalanceRecords.length > 0) {
+      const { error: insertError } = await supabase
+        .from('trial_balances')
+        .insert(trialBalanceRecords);
+
+      if (insertError) {
+        throw new Error(`Failed to insert records: ${insertError.message}`);
+      }
+    }
+
+    // Printed totals are stored separately for reconciliation; totals typed
+    // in by hand are kept
+    await supabase
+      .from('reported_totals')
+      .delete()
+      .eq('upload_id', upload_id)
+      .eq('source', 'extracted');
+
+    if (reportedTotals.length > 0) {
+      const { error: totalsError } = await supabase
+        .from('reported_totals')
+        .insert(reportedTotals.map(total => ({
+          upload_id: upload_id,
+          label: total.label,
+          amount: total.amount,
+          debit: total.debit ?? null,
+          credit: total.credit ?? null,
+          period: total.date || null,
+          period_label: total.period || null,
+          statement_section: total.section || null,
+          page_number: total.page_number || null,
+          raw_line: total.raw_line || null
+        })));
+
+      if (totalsError) {
+        throw new Error(`Failed to insert reported totals: ${totalsError.message}`);
+      }
     }
 
     // Update upload status to completed
@@ -129,7 +195,10 @@ serve(async (req) => {
       .update({
         processing_status: 'completed',
         completed_at: new Date().toISOString(),
-        extracted_records_count: extractedEntries.length
+        extracted_records_count: extractedEntries.length,
+        period_end: period.endDate,
+        period_evidence: period.evidence,
+        error_message: extractedEntries.length === 0 ? 'No structured financial data found in PDF' : null
       })
       .eq('id', upload_id);
 
@@ -137,6 +206,9 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         extracted_count: extractedEntries.length,
+        reported_totals_count: reportedTotals.length,
+        pages_count: pdf.numPages,
+        period,
         message: 'PDF processed successfully'
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -145,8 +217,6 @@ serve(async (req) => {
   } catch (error) {
     console.error('PDF extraction error:', error);
     
-    // Get upload_id from the original request body (already parsed)
-    const { upload_id } = await req.json();
     if (upload_id) {
       const supabase = createClient(supabaseUrl, supabaseServiceKey);
       await supabase
@@ -168,157 +238,3 @@ serve(async (req) => {
     );
   }
 });
-
-// Helper functions for PDF processing
-function groupTextItemsByRows(textItems: any[]): any[] {
-  const tolerance = 5;
-  const rows: any[] = [];
-  
-  textItems.sort((a, b) => b.y - a.y);
-  
-  for (const item of textItems) {
-    let foundRow = rows.find(row => Math.abs(row.y - item.y) <= tolerance);
-    
-    if (foundRow) {
-      foundRow.items.push(item);
-    } else {
-      rows.push({
-        y: item.y,
-        items: [item]
-      });
-    }
-  }
-  
-  rows.forEach(row => {
-    row.items.sort((a: any, b: any) => a.x - b.x);
-    row.text = row.items.map((item: any) => item.text).join(' ').trim();
-  });
-  
-  return rows.filter(row => row.text.length > 0);
-}
-
-function parseTableData(tableRows: any[], filename: string, pageNumber: number): RawFinancialEntry[] {
-  const entries: RawFinancialEntry[] = [];
-  const currentDate = new Date().toISOString().split('T')[0];
-  
-  const periodMatch = filename.match(/(\d{4})/);
-  const period = periodMatch ? `${periodMatch[1]}-12-31` : currentDate;
-  
-  for (const row of tableRows) {
-    const text = row.text;
-    if (!text || text.length < 10) continue;
-    
-    const parsedEntry = parseFinancialLine(text, period, pageNumber);
-    if (parsedEntry) {
-      entries.push(parsedEntry);
-    }
-  }
-  
-  return entries;
-}
-
-function parseFinancialLine(line: string, defaultDate: string, pageNumber: number): RawFinancialEntry | null {
-  if (isHeaderLine(line)) return null;
-  
-  // Pattern 1: Account# Description Amount
-  let match = line.match(/^(\d+)\s+(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, accountNumber, description, amountStr] = match;
-    const amount = normalizeAmount(amountStr);
-    
-    return {
-      account_number: accountNumber.trim(),
-      description: description.trim(),
-      date: defaultDate,
-      balance: amount,
-      direction: amount >= 0 ? 'debit' : 'credit',
-      raw_line: line,
-      page_number: pageNumber,
-      confidence_score: 0.9
-    };
-  }
-  
-  // Pattern 2: Description Debit Credit
-  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, description, debitStr, creditStr] = match;
-    const debit = normalizeAmount(debitStr);
-    const credit = normalizeAmount(creditStr);
-    const balance = debit - credit;
-    
-    return {
-      account_number: extractAccountNumber(description) || '',
-      description: cleanDescription(description),
-      date: defaultDate,
-      debit,
-      credit,
-      balance,
-      direction: balance >= 0 ? 'debit' : 'credit',
-      raw_line: line,
-      page_number: pageNumber,
-      confidence_score: 0.8
-    };
-  }
-  
-  // Pattern 3: Simple Description Amount
-  match = line.match(/^(.+?)\s+([\d,.\-()$£€¥₹\s]+)$/);
-  if (match) {
-    const [, description, amountStr] = match;
-    const amount = normalizeAmount(amountStr);
-    
-    if (Math.abs(amount) > 100) {
-      return {
-        account_number: extractAccountNumber(description) || '',
-        description: cleanDescription(description),
-        date: defaultDate,
-        balance: amount,
-        direction: amount >= 0 ? 'debit' : 'credit',
-        raw_line: line,
-        page_number: pageNumber,
-        confidence_score: 0.7
-      };
-    }
-  }
-  
-  return null;
-}
-
-function normalizeAmount(value: string | number): number {
-  if (typeof value === 'number') return value;
-  if (!value || value === '') return 0;
-  
-  let cleanValue = String(value).trim();
-  
-  const isNegative = cleanValue.includes('(') && cleanValue.includes(')');
-  cleanValue = cleanValue.replace(/[\$£€¥₹,()]/g, '');
-  
-  const parsed = parseFloat(cleanValue);
-  if (isNaN(parsed)) return 0;
-  
-  return isNegative ? -parsed : parsed;
-}
-
-function isHeaderLine(line: string): boolean {
-  const lowerLine = line.toLowerCase();
-  const headerKeywords = [
-    'trial balance', 'balance sheet', 'income statement', 'profit and loss',
-    'account number', 'description', 'debit', 'credit', 'balance',
-    'total', 'subtotal', 'page', 'date:', 'period:', 'company'
-  ];
-  
-  return headerKeywords.some(keyword => lowerLine.includes(keyword)) ||
-         line.trim().length < 5 ||
-         /^[\s\-_=]+$/.test(line);
-}
-
-function extractAccountNumber(description: string): string | null {
-  const match = description.match(/^(\d{3,6})\s*/);
-  return match ? match[1] : null;
-}
-
-function cleanDescription(description: string): string {
-  return description
-    .replace(/^\d{3,6}\s*/, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
\ No newline at end of file
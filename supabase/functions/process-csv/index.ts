@@ -1,13 +1,40 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { CSV_SAMPLE_RECORDS, CSV_SHEET_NAME, type CsvEncoding, readCsv } from '../_shared/csv.ts';
+import { columnNames, isLayoutUsable, readRows, type RowError, toRawRows } from '../_shared/sheetLayout.ts';
+import {
+  detectImportSettings,
+  detectUploadPeriod,
+  type ImportSettings,
+  type ImportTemplateRow,
+  isTrialBalanceRole,
+  matchTemplate,
+  resolvePeriod,
+  type SheetRole,
+  toImportTemplate,
+  toReadOptions
+} from '../_shared/importTemplates.ts';
+import { confirmedPeriod, type DetectedPeriod, type PeriodEvidence } from '../_shared/periods.ts';
+import {
+  capRowErrors,
+  clearRows,
+  insertInChunks,
+  type TrialBalanceEntry,
+  toTrialBalanceRecord
+} from '../_shared/uploadRows.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Records stored per batch once the layout is settled
+const RECORDS_PER_BATCH = 2_000;
+
 interface CSVProcessingResult {
+  success: true;
+  complete: true;
   fileName: string;
   rowCount: number;
   headers: string[];
@@ -15,7 +42,15 @@ interface CSVProcessingResult {
   summary: {
     columns: number;
     hasHeaders: boolean;
+    delimiter: string;
+    encoding: CsvEncoding;
   };
+  total_records_count: number;
+  financial_entries_count: number;
+  templates_used: string[];
+  period: DetectedPeriod;
+  row_errors: RowError[];
+  row_errors_count: number;
 }
 
 serve(async (req) => {
@@ -26,6 +61,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let upload_id: string | undefined;
+
   try {
     // Environment variables check
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -38,131 +75,220 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    // Parse form data
-    const formData = await req.formData();
-    const file = formData.get('file') as File;
-    
-    if (!file) {
-      throw new Error('No file provided');
-    }
-
-    console.log('Processing CSV file:', file.name, 'Size:', file.size);
+    const requestBody = await req.json();
+    upload_id = requestBody.upload_id;
 
-    // Read file content
-    const fileContent = await file.text();
-    const lines = fileContent.split('\n').filter(line => line.trim() !== '');
-    
-    if (lines.length === 0) {
-      throw new Error('CSV file is empty');
+    if (!upload_id) {
+      throw new Error('Upload ID is required in request body');
     }
 
-    // Parse CSV (simple parsing - assumes comma-separated values)
-    const rows = lines.map(line => {
-      // Simple CSV parsing - handle quoted values
-      const result = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      
-      result.push(current.trim());
-      return result;
-    });
-
-    // Extract headers (assume first row contains headers)
-    const headers = rows[0] || [];
-    const dataRows = rows.slice(1);
-    
-    console.log(`Parsed CSV: ${headers.length} columns, ${dataRows.length} data rows`);
+    // Settings confirmed in the upload wizard, if any
+    const confirmed: ImportSettings | undefined = requestBody.sheets?.[CSV_SHEET_NAME];
 
-    // Create an upload record for tracking
     const { data: upload, error: uploadError } = await supabase
       .from('excel_uploads')
-      .insert({
-        filename: file.name,
-        file_size: file.size,
-        processing_status: 'completed',
-        sheets_count: 1,
-        total_records_count: dataRows.length,
-        completed_at: new Date().toISOString()
-      })
-      .select()
+      .select('*')
+      .eq('id', upload_id)
       .single();
 
     if (uploadError || !upload) {
-      console.error('Failed to create upload record:', uploadError);
-      throw new Error(`Failed to create upload record: ${uploadError?.message || 'Unknown error'}`);
+      console.error('Upload not found:', uploadError);
+      throw new Error(`Upload not found: ${uploadError?.message || 'Unknown error'}`);
     }
 
-    // Store raw CSV data
-    for (let i = 0; i < Math.min(dataRows.length, 1000); i++) { // Limit to first 1000 rows
-      const row = dataRows[i];
-      if (row && row.length > 0) {
-        try {
-          await supabase
-            .from('excel_data')
-            .insert({
-              upload_id: upload.id,
-              sheet_name: 'CSV_Data',
-              row_number: i + 2, // +2 because we skip header and arrays are 0-indexed
-              column_name: 'csv_row',
-              cell_value: JSON.stringify(row),
-              data_type: 'array'
-            });
-        } catch (insertError) {
-          console.error(`Error inserting row ${i + 1}:`, insertError);
+    if (!upload.storage_path) {
+      throw new Error('No storage path found for upload');
+    }
+
+    // A CSV file is a current trial balance unless the wizard said otherwise;
+    // a retried run uses the role stored with the upload
+    const role: SheetRole = requestBody.roles?.[CSV_SHEET_NAME] ?? upload.sheet_roles?.[CSV_SHEET_NAME] ?? 'current_tb';
+
+    const { error: statusUpdateError } = await supabase
+      .from('excel_uploads')
+      .update({ processing_status: 'processing' })
+      .eq('id', upload_id);
+
+    if (statusUpdateError) {
+      console.error('Failed to update status:', statusUpdateError);
+    }
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from('excel-uploads')
+      .download(upload.storage_path);
+
+    if (downloadError || !fileData) {
+      console.error('Failed to download file:', downloadError);
+      throw new Error(`Failed to download CSV file: ${downloadError?.message || 'Unknown error'}`);
+    }
+
+    console.log('Processing CSV file:', upload.filename, 'Size:', fileData.size);
+
+    // The layout, header and period are settled from the first records; the
+    // rest are stored a batch at a time as the parser completes them, so the
+    // file is never held whole
+    let pending: string[][] = [];
+    let recordsRead = 0;
+    let settled: {
+      settings: ImportSettings;
+      known: boolean;
+      names: string[];
+      period: DetectedPeriod;
+      headers: string[];
+      sampleRows: string[][];
+    } | undefined;
+
+    let totalRecords = 0;
+    let dataRowCount = 0;
+    let financialEntriesCount = 0;
+    let rowErrorsCount = 0;
+    let rowErrors: RowError[] = [];
+
+    const addErrors = (errors: RowError[]) => {
+      if (errors.length === 0) return;
+      rowErrorsCount += errors.length;
+      rowErrors = capRowErrors([...rowErrors, ...errors.map(error => ({ ...error, sheet_name: CSV_SHEET_NAME }))]);
+    };
+
+    // Settings, header and period from the first records of the file
+    const settle = async (sample: string[][]) => {
+      if (!sample.some(row => row.length > 0)) {
+        throw new Error('CSV file is empty');
+      }
+
+      // Confirmed settings first, then a saved template whose header matches,
+      // else a detected layout and number format
+      let known = confirmed;
+      if (!known) {
+        const { data: templateRows, error: templatesError } = await supabase
+          .from('import_templates')
+          .select('*');
+
+        if (templatesError) {
+          console.error('Failed to load import templates:', templatesError);
         }
+
+        known = matchTemplate((templateRows || []).map((row: ImportTemplateRow) => toImportTemplate(row)), sample);
       }
-    }
+      const settings = known || detectImportSettings(sample);
 
-    // Try to extract financial data
-    const financialEntries = extractFinancialDataFromCSV(dataRows, headers, file.name);
-    
-    // Insert financial data into trial_balances table
-    if (financialEntries.length > 0) {
-      const trialBalanceRecords = financialEntries.map(entry => ({
-        upload_id: upload.id,
-        account_number: entry.account_number || null,
-        account_description: entry.account_description,
-        debit: entry.debit || null,
-        credit: entry.credit || null,
-        balance: entry.balance,
-        period: entry.period || null,
-        page_number: null,
-        confidence_score: entry.confidence_score || 0.7
-      }));
-
-      const { error: insertError } = await supabase
-        .from('trial_balances')
-        .insert(trialBalanceRecords);
-
-      if (insertError) {
-        console.error('Failed to insert trial balance records:', insertError);
-      } else {
-        console.log('Successfully inserted trial balance records:', trialBalanceRecords.length);
+      if (settings.templateName) {
+        console.log('CSV read with template', settings.templateName);
+      }
+      console.log(`CSV layout ${JSON.stringify(settings.layout)}`, known ? '(confirmed)' : '(detected)');
+
+      // Confirmed at upload, else the one an earlier run stored, else
+      // detected from the title rows, the header and the file name
+      const period = requestBody.period_end
+        ? confirmedPeriod(requestBody.period_end)
+        : upload.period_end
+          ? confirmedPeriod(upload.period_end, (upload.period_evidence || 'confirmed') as PeriodEvidence)
+          : detectUploadPeriod(upload.filename, [{ rows: sample, settings, role }]);
+      console.log(`Report period ${period.endDate} from ${period.evidence}: ${period.label}`);
+
+      // A retry starts from nothing
+      await clearRows(supabase, upload.id);
+
+      const { headerRow } = settings.layout;
+      return {
+        settings,
+        known: !!known,
+        names: columnNames(sample, headerRow),
+        period,
+        headers: headerRow === null ? [] : sample[headerRow] || [],
+        sampleRows: sample.slice(headerRow === null ? 0 : headerRow + 1).filter(row => row.length > 0).slice(0, 5)
+      };
+    };
+
+    // Store a batch of records: raw rows with cells named by header, and
+    // the entries read from them
+    const store = async (records: string[][]) => {
+      const { settings, known, names, period } = settled!;
+      const { headerRow } = settings.layout;
+      const offset = recordsRead;
+      recordsRead += records.length;
+
+      const rawRecords = toRawRows(records, headerRow, CSV_SHEET_NAME, { names, offset })
+        .map(row => ({ upload_id: upload.id, ...row }));
+      await insertInChunks(supabase, 'excel_data', rawRecords);
+
+      const readErrors: RowError[] = [];
+      const entries = isTrialBalanceRole(role) && isLayoutUsable(settings.layout)
+        ? extractWithSettings(records, offset, settings, period.endDate, known, readErrors, role === 'comparative_tb')
+        : [];
+      await insertInChunks(supabase, 'trial_balances', entries.map(entry => toTrialBalanceRecord(upload.id, entry)));
+
+      addErrors(readErrors);
+      totalRecords += rawRecords.length;
+      financialEntriesCount += entries.length;
+      dataRowCount += records.filter((row, index) => row.length > 0 && (headerRow === null || offset + index > headerRow)).length;
+    };
+
+    const flush = async (final: boolean) => {
+      if (!settled && (final || pending.length >= CSV_SAMPLE_RECORDS)) {
+        settled = await settle(pending);
+      }
+      if (settled && pending.length > 0 && (final || pending.length >= RECORDS_PER_BATCH)) {
+        const batch = pending;
+        pending = [];
+        await store(batch);
       }
+    };
+
+    // Read the file as a stream; encoding and delimiter are detected from
+    // its first bytes, and records are stored as the parser completes them
+    const format = await readCsv(fileData.stream(), async records => {
+      pending = pending.concat(records);
+      await flush(false);
+    }, error => addErrors([error]));
+    await flush(true);
+
+    const { headers, sampleRows, settings, period } = settled!;
+    const templatesUsed = settings.templateName ? [settings.templateName] : [];
+
+    console.log(`Parsed CSV as ${format.encoding} with delimiter ${JSON.stringify(format.delimiter)}: ${recordsRead} records, ${dataRowCount} data rows, ${financialEntriesCount} financial entries`);
+    if (rowErrorsCount > 0) {
+      console.log(`${rowErrorsCount} CSV rows could not be read`);
+    }
+
+    const { error: completionError } = await supabase
+      .from('excel_uploads')
+      .update({
+        processing_status: 'completed',
+        completed_at: new Date().toISOString(),
+        sheets_count: 1,
+        processed_sheets: [CSV_SHEET_NAME],
+        sheet_roles: { [CSV_SHEET_NAME]: role },
+        period_end: period.endDate,
+        period_evidence: period.evidence,
+        total_records_count: totalRecords,
+        row_errors: rowErrors
+      })
+      .eq('id', upload_id);
+
+    if (completionError) {
+      console.error('Error updating completion status:', completionError);
     }
 
     const result: CSVProcessingResult = {
-      fileName: file.name,
-      rowCount: dataRows.length,
+      success: true,
+      complete: true,
+      fileName: upload.filename,
+      rowCount: dataRowCount,
       headers: headers,
-      sampleRows: dataRows.slice(0, 5), // First 5 rows as sample
+      sampleRows,
       summary: {
         columns: headers.length,
-        hasHeaders: true
-      }
+        hasHeaders: settings.layout.headerRow !== null,
+        delimiter: format.delimiter,
+        encoding: format.encoding
+      },
+      total_records_count: totalRecords,
+      financial_entries_count: financialEntriesCount,
+      templates_used: templatesUsed,
+      period,
+      row_errors: rowErrors,
+      row_errors_count: rowErrorsCount
     };
 
     console.log('CSV processing completed successfully');
@@ -179,6 +305,27 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('CSV processing error:', error);
+
+    if (upload_id) {
+      try {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL');
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+        if (supabaseUrl && supabaseServiceKey) {
+          const supabase = createClient(supabaseUrl, supabaseServiceKey);
+          await supabase
+            .from('excel_uploads')
+            .update({
+              processing_status: 'failed',
+              error_message: error instanceof Error ? error.message : 'Unknown error',
+              completed_at: new Date().toISOString()
+            })
+            .eq('id', upload_id);
+        }
+      } catch (updateError) {
+        console.error('Error updating upload status to failed:', updateError);
+      }
+    }
     
     return new Response(
       JSON.stringify({ 
@@ -196,116 +343,24 @@ serve(async (req) => {
   }
 });
 
-function extractFinancialDataFromCSV(rows: string[][], headers: string[], filename: string) {
-  const entries = [];
-  
-  // Try to identify column indices for financial data
-  const accountColIndex = headers.findIndex(h => 
-    h.toLowerCase().includes('account')
-  );
-  const descriptionColIndex = headers.findIndex(h => 
-    h.toLowerCase().includes('description') || h.toLowerCase().includes('name')
-  );
-  const debitColIndex = headers.findIndex(h => 
-    h.toLowerCase().includes('debit')
-  );
-  const creditColIndex = headers.findIndex(h => 
-    h.toLowerCase().includes('credit')
-  );
-  const balanceColIndex = headers.findIndex(h => 
-    h.toLowerCase().includes('balance') || h.toLowerCase().includes('amount')
-  );
-
-  console.log('Column mapping:', {
-    account: accountColIndex,
-    description: descriptionColIndex,
-    debit: debitColIndex,
-    credit: creditColIndex,
-    balance: balanceColIndex
-  });
-
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    if (!row || row.length === 0) continue;
-
-    try {
-      const entry = parseCSVRow(
-        row, 
-        accountColIndex, 
-        descriptionColIndex, 
-        debitColIndex, 
-        creditColIndex, 
-        balanceColIndex,
-        filename,
-        i + 1
-      );
-      
-      if (entry) {
-        entries.push(entry);
-      }
-    } catch (parseError) {
-      console.error(`Error parsing CSV row ${i + 1}:`, parseError);
-    }
-  }
-
-  console.log(`Extracted ${entries.length} financial entries from CSV`);
-  return entries;
-}
-
-function parseCSVRow(
-  row: string[], 
-  accountIdx: number, 
-  descIdx: number, 
-  debitIdx: number, 
-  creditIdx: number, 
-  balanceIdx: number,
-  filename: string,
-  rowNumber: number
-) {
-  const description = descIdx >= 0 ? row[descIdx]?.trim() : row[0]?.trim();
-  
-  if (!description || description === '') return null;
-
-  const accountNumber = accountIdx >= 0 ? row[accountIdx]?.trim() : undefined;
-  const debit = debitIdx >= 0 ? parseAmount(row[debitIdx]) : undefined;
-  const credit = creditIdx >= 0 ? parseAmount(row[creditIdx]) : undefined;
-  
-  let balance = 0;
-  if (balanceIdx >= 0) {
-    balance = parseAmount(row[balanceIdx]) || 0;
-  } else if (debit !== undefined || credit !== undefined) {
-    balance = (debit || 0) - (credit || 0);
-  }
-
-  if (Math.abs(balance) === 0 && !debit && !credit) return null;
-
-  return {
-    account_number: accountNumber,
-    account_description: description,
-    debit: debit,
-    credit: credit,
-    balance: balance,
-    period: extractPeriodFromFilename(filename),
-    confidence_score: 0.7
-  };
-}
-
-function parseAmount(value: string): number | undefined {
-  if (!value || value.trim() === '') return undefined;
-  
-  let cleanValue = value.trim();
-  
-  // Handle negative values in parentheses
-  const isNegative = cleanValue.includes('(') && cleanValue.includes(')');
-  cleanValue = cleanValue.replace(/[\$£€¥₹,()]/g, '').trim();
-  
-  const parsed = parseFloat(cleanValue);
-  if (isNaN(parsed)) return undefined;
-  
-  return isNegative ? -parsed : parsed;
-}
-
-function extractPeriodFromFilename(filename: string): string | undefined {
-  const yearMatch = filename.match(/(\d{4})/);
-  return yearMatch ? `${yearMatch[1]}-12-31` : undefined;
+function extractWithSettings(
+  rows: string[][],
+  // Index in the file of the first record passed
+  offset: number,
+  settings: ImportSettings,
+  uploadPeriod: string,
+  known: boolean,
+  errors: RowError[],
+  comparative: boolean
+): TrialBalanceEntry[] {
+  // A confirmed or saved layout is trusted more than a detected one
+  const confidence = known ? 0.9 : 0.7;
+  // A comparative file is dated the year before the upload period
+  const currentPeriod = comparative ? uploadPeriod : undefined;
+  return readRows(rows, settings.layout, { ...toReadOptions(settings), offset }, error => errors.push(error)).map(row => ({
+    ...row,
+    period: resolvePeriod(settings, { uploadPeriod, periodCell: row.period_label, currentPeriod }),
+    confidence_score: confidence,
+    sheet_name: CSV_SHEET_NAME
+  }));
 }
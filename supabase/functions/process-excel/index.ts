@@ -2,27 +2,53 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import * as XLSX from 'https://cdn.skypack.dev/xlsx@0.18.5';
+import {
+  type Cell,
+  isLayoutUsable,
+  readRows,
+  type RowError,
+  toRawRows
+} from '../_shared/sheetLayout.ts';
+import {
+  detectImportSettings,
+  detectUploadPeriod,
+  type ImportSettings,
+  type ImportTemplate,
+  type ImportTemplateRow,
+  guessSheetRole,
+  isTrialBalanceRole,
+  matchTemplate,
+  resolvePeriod,
+  type SheetRole,
+  titleRows,
+  toImportTemplate,
+  toReadOptions
+} from '../_shared/importTemplates.ts';
+import { confirmedPeriod, type PeriodEvidence } from '../_shared/periods.ts';
+import {
+  capRowErrors,
+  clearRows,
+  insertInChunks,
+  toReportedTotalRecord,
+  type TrialBalanceEntry,
+  toTrialBalanceRecord
+} from '../_shared/uploadRows.ts';
+import { applyRowMeta, readWorksheet } from '../_shared/xlsxSheet.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface FinancialEntry {
-  account_number?: string;
-  account_description: string;
-  debit?: number;
-  credit?: number;
-  balance: number;
-  period?: string;
-  confidence_score?: number;
-  sheet_name: string;
-  row_number: number;
-}
+// No new sheet is started after this long, so the function returns before
+// the platform limit and the caller invokes it again to continue
+const TIME_BUDGET_MS = 100_000;
+
+// Rows of a sheet stored between checkpoints
+const ROWS_PER_CHECKPOINT = 5_000;
 
 serve(async (req) => {
   console.log('Process Excel function called with method:', req.method);
-  console.log('Request headers:', Object.fromEntries(req.headers.entries()));
   
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -30,6 +56,7 @@ serve(async (req) => {
   }
 
   let upload_id: string | undefined;
+  const startedAt = Date.now();
   
   try {
     // Environment variables check
@@ -55,14 +82,12 @@ serve(async (req) => {
     let requestBody;
     try {
       const text = await req.text();
-      console.log('Raw request body:', text);
       
       if (!text || text.trim() === '') {
         throw new Error('Empty request body');
       }
       
       requestBody = JSON.parse(text);
-      console.log('Parsed request body:', requestBody);
     } catch (parseError) {
       console.error('Error parsing request body:', parseError);
       throw new Error(`Invalid JSON in request body: ${parseError.message}`);
@@ -75,6 +100,21 @@ serve(async (req) => {
       throw new Error('Upload ID is required in request body');
     }
 
+    // Settings confirmed in the upload wizard, by sheet name. Other sheets
+    // use the saved template their header matches, or are detected.
+    const confirmedSheets: Record<string, ImportSettings> = requestBody.sheets || {};
+
+    const { data: templateRows, error: templatesError } = await supabase
+      .from('import_templates')
+      .select('*');
+
+    if (templatesError) {
+      console.error('Failed to load import templates:', templatesError);
+    }
+
+    const templates: ImportTemplate[] = (templateRows || []).map((row: ImportTemplateRow) => toImportTemplate(row));
+    const templatesUsed = new Set<string>();
+
     // Get upload record
     console.log('Fetching upload record for ID:', upload_id);
     const { data: upload, error: uploadError } = await supabase
@@ -95,6 +135,11 @@ serve(async (req) => {
       status: upload.processing_status 
     });
 
+    // Roles confirmed in the upload wizard, by sheet name. A resumed or
+    // retried run uses the ones stored with the upload; sheets without one
+    // get a guess.
+    const sheetRoles: Record<string, SheetRole> = requestBody.roles || upload.sheet_roles || {};
+
     // Update status to processing
     console.log('Updating status to processing');
     const { error: statusUpdateError } = await supabase
@@ -128,119 +173,239 @@ serve(async (req) => {
     const arrayBuffer = await fileData.arrayBuffer();
     console.log('File converted to ArrayBuffer, size:', arrayBuffer.byteLength);
     
-    // Parse Excel file
-    console.log('Parsing Excel file...');
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    
-    console.log('Excel sheets found:', workbook.SheetNames);
-    
-    let totalRecords = 0;
-    const financialEntries: FinancialEntry[] = [];
-    
-    // Process each sheet
-    for (const sheetName of workbook.SheetNames) {
-      console.log(`Processing sheet: ${sheetName}`);
-      
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      console.log(`Sheet ${sheetName} has ${jsonData.length} rows`);
-      
-      // Store raw data in excel_data table
-      for (let i = 0; i < jsonData.length; i++) {
-        const rowData = jsonData[i] as any[];
-        if (rowData && rowData.length > 0 && rowData.some(cell => cell !== null && cell !== undefined && cell !== '')) {
-          try {
-            const { error: insertError } = await supabase
-              .from('excel_data')
-              .insert({
-                upload_id: upload_id,
-                sheet_name: sheetName,
-                row_number: i + 1,
-                column_name: 'row_data',
-                cell_value: JSON.stringify(rowData),
-                data_type: 'array'
-              });
-            
-            if (insertError) {
-              console.error(`Error inserting row ${i + 1}:`, insertError);
-            } else {
-              totalRecords++;
-            }
-          } catch (insertError) {
-            console.error('Error inserting row data:', insertError);
-          }
-        }
-      }
-      
-      // Try to extract financial data
-      try {
-        const sheetFinancials = extractFinancialData(jsonData, sheetName, upload.filename);
-        financialEntries.push(...sheetFinancials);
-        console.log(`Extracted ${sheetFinancials.length} financial entries from sheet ${sheetName}`);
-      } catch (extractError) {
-        console.error('Error extracting financial data from sheet:', sheetName, extractError);
+    // Sheets finished by an earlier invocation, and how many rows of the
+    // next one it stored. A resumed run has the roles and period the first
+    // one stored, so it reads only the sheets left.
+    const processedSheets: string[] = upload.processed_sheets || [];
+    let rowOffset: number = upload.sheet_row_offset || 0;
+    const resuming = processedSheets.length > 0 || rowOffset > 0;
+
+    const sheetNames: string[] = XLSX.read(arrayBuffer, { type: 'array', bookSheets: true }).SheetNames;
+    const sheetsCount = sheetNames.length;
+    const remainingSheets = sheetNames.filter(sheetName => !processedSheets.includes(sheetName));
+    console.log('Excel sheets found:', sheetNames);
+
+    // Comparatives left to store are dated from the current trial balance
+    const currentSheetName = () => sheetNames.find(sheetName => sheetRoles[sheetName] === 'current_tb');
+    const datesComparatives = () => remainingSheets.some(sheetName => sheetRoles[sheetName] === 'comparative_tb');
+    const datingSheet = resuming && datesComparatives() ? currentSheetName() : undefined;
+    const sheetsToRead = !resuming
+      ? sheetNames
+      : datingSheet && !remainingSheets.includes(datingSheet)
+        ? [...remainingSheets, datingSheet]
+        : remainingSheets;
+
+    // Styles and number formats carry hidden rows and bracketed amounts
+    console.log('Parsing sheets:', sheetsToRead);
+    const workbook = XLSX.read(arrayBuffer, { type: 'array', cellStyles: true, cellNF: true, sheets: sheetsToRead });
+
+    let totalRecords = resuming ? upload.total_records_count || 0 : 0;
+    let financialEntriesCount = 0;
+    let reportedTotalsCount = 0;
+
+    // Errors from rows stored earlier are kept; the rest are reported afresh
+    let rowErrors: RowError[] = resuming
+      ? ((upload.row_errors || []) as RowError[]).filter(error =>
+        processedSheets.includes(error.sheet_name || '') ||
+        (error.sheet_name === remainingSheets[0] && error.row_number <= rowOffset))
+      : [];
+
+    if (!resuming) {
+      await clearRows(supabase, upload_id);
+    }
+
+    // Confirmed settings, else a saved template, else a detected layout
+    const readSheet = (sheetName: string) => {
+      const { rows, meta } = readWorksheet(workbook.Sheets[sheetName]);
+      const confirmed = confirmedSheets[sheetName];
+      const known = confirmed || matchTemplate(templates, rows, sheetName);
+      const settings = known || detectImportSettings(rows);
+      const role = sheetRoles[sheetName] || guessSheetRole(sheetName, settings.layout);
+      return { rows, meta, settings, known: !!known, role };
+    };
+
+    // Sheets read by the first run, kept until they are stored rather than
+    // read again
+    const sheetsRead = new Map<string, ReturnType<typeof readSheet>>();
+
+    // The first run reads the top of every sheet to settle roles and detect
+    // the period; the guessed roles are stored with the confirmed ones
+    const periodSheets = resuming ? [] : sheetNames.map(sheetName => {
+      const sheet = readSheet(sheetName);
+      const { rows, settings, role } = sheet;
+      sheetsRead.set(sheetName, sheet);
+      sheetRoles[sheetName] = role;
+      return { name: sheetName, rows: titleRows(rows, settings.layout), settings, role };
+    });
+
+    // The period the workbook reports: confirmed at upload, else the one an
+    // earlier run stored, else detected from titles, headers, sheet names
+    // and the file name
+    const period = requestBody.period_end
+      ? confirmedPeriod(requestBody.period_end)
+      : upload.period_end
+        ? confirmedPeriod(upload.period_end, (upload.period_evidence || 'confirmed') as PeriodEvidence)
+        : detectUploadPeriod(upload.filename, periodSheets);
+    const uploadPeriod = period.endDate;
+    console.log(`Report period ${period.endDate} from ${period.evidence}: ${period.label}`);
+
+    // Comparative sheets are dated a year before the first current trial
+    // balance, or before the upload period if there is none
+    const currentName = datesComparatives() ? currentSheetName() : undefined;
+    const currentSettings = currentName &&
+      (sheetsRead.get(currentName) || readSheet(currentName)).settings;
+    const currentPeriod = currentName && currentSettings
+      ? resolvePeriod(currentSettings, { uploadPeriod, sheetName: currentName })
+      : uploadPeriod;
+
+    if (!resuming) {
+      const { error: progressStartError } = await supabase
+        .from('excel_uploads')
+        .update({ sheets_count: sheetsCount, sheet_roles: sheetRoles, period_end: uploadPeriod, period_evidence: period.evidence })
+        .eq('id', upload_id);
+
+      if (progressStartError) {
+        console.error('Failed to record sheet count:', progressStartError);
       }
     }
 
-    console.log('Total financial entries extracted:', financialEntries.length);
-
-    // Insert financial data into trial_balances table
-    if (financialEntries.length > 0) {
-      const trialBalanceRecords = financialEntries.map(entry => ({
-        upload_id: upload_id,
-        account_number: entry.account_number || null,
-        account_description: entry.account_description,
-        debit: entry.debit || null,
-        credit: entry.credit || null,
-        balance: entry.balance,
-        period: entry.period || null,
-        page_number: null,
-        confidence_score: entry.confidence_score || 0.8
-      }));
+    const recordProgress = async () => {
+      const { error: progressError } = await supabase
+        .from('excel_uploads')
+        .update({
+          processed_sheets: processedSheets,
+          sheet_row_offset: rowOffset,
+          total_records_count: totalRecords,
+          row_errors: rowErrors
+        })
+        .eq('id', upload_id);
+
+      if (progressError) {
+        console.error('Failed to record progress:', progressError);
+      }
+    };
+
+    // Process one sheet at a time; its rows are let go once it is stored
+    let outOfTime = false;
+    for (const sheetName of remainingSheets) {
+      // The first sheet left is always started, so every invocation gets further
+      if (sheetName !== remainingSheets[0] && Date.now() - startedAt > TIME_BUDGET_MS) {
+        console.log(`Time budget used after ${processedSheets.length} of ${sheetsCount} sheets`);
+        break;
+      }
 
-      try {
-        const { error: insertError } = await supabase
-          .from('trial_balances')
-          .insert(trialBalanceRecords);
+      console.log(`Processing sheet: ${sheetName}${rowOffset > 0 ? ` from row ${rowOffset + 1}` : ''}`);
+
+      // Rows a failed attempt left behind after the last checkpoint
+      const sheetStart = rowOffset;
+      await clearRows(supabase, upload_id, sheetName, sheetStart);
+
+      const { rows, meta, settings, known, role } = sheetsRead.get(sheetName) || readSheet(sheetName);
+      sheetsRead.delete(sheetName);
+
+      console.log(`Sheet ${sheetName} has ${rows.length} rows, role ${role}`);
+
+      if (settings.templateName) {
+        templatesUsed.add(settings.templateName);
+        console.log(`Sheet ${sheetName} read with template ${settings.templateName}`);
+      }
 
-        if (insertError) {
-          console.error('Failed to insert trial balance records:', insertError);
-          throw new Error(`Failed to insert trial balance records: ${insertError.message}`);
+      // Raw data for excel_data, cells named by header
+      const rawRecords = toRawRows(rows, settings.layout.headerRow, sheetName)
+        .map(row => ({ upload_id: upload_id, ...row }));
+
+      // Only trial balance sheets hold entries; mapping tables and ignored
+      // sheets are kept as raw rows
+      const readErrors: RowError[] = [];
+      const sheetFinancials = isTrialBalanceRole(role)
+        ? extractFinancialData(rows, sheetName, uploadPeriod, settings, known, readErrors, role === 'comparative_tb' ? currentPeriod : undefined)
+        : [];
+
+      // Hidden rows are left out; subtotal rows are what the sheet reports,
+      // not accounts
+      const { entries, subtotals } = applyRowMeta(sheetFinancials, meta, settings.layout);
+      const sheetErrors = readErrors.filter(error => !meta[error.row_number - 1]?.hidden);
+      console.log(`Extracted ${entries.length} financial entries and ${subtotals.length} subtotals from sheet ${sheetName}`);
+
+      // Stored a slice of rows at a time, each recorded as a checkpoint, so a
+      // sheet too large for one invocation continues where it stopped
+      for (let start = rowOffset; start < rows.length; start = rowOffset) {
+        if (start > sheetStart && Date.now() - startedAt > TIME_BUDGET_MS) {
+          console.log(`Time budget used at row ${start} of sheet ${sheetName}`);
+          outOfTime = true;
+          break;
         }
 
-        console.log('Successfully inserted trial balance records:', trialBalanceRecords.length);
-      } catch (insertError) {
-        console.error('Error inserting trial balance records:', insertError);
+        const end = Math.min(start + ROWS_PER_CHECKPOINT, rows.length);
+        const inSlice = (row: { row_number: number }) => row.row_number > start && row.row_number <= end;
+        const sliceRecords = rawRecords.filter(inSlice);
+        const trialBalanceRecords = entries.filter(inSlice).map(entry => toTrialBalanceRecord(upload.id, entry));
+        const sliceSubtotals = subtotals.filter(inSlice);
+        const sliceErrors = sheetErrors.filter(inSlice);
+
+        await insertInChunks(supabase, 'excel_data', sliceRecords);
+        await insertInChunks(supabase, 'trial_balances', trialBalanceRecords);
+        await insertInChunks(supabase, 'reported_totals', sliceSubtotals.map(entry => toReportedTotalRecord(upload.id, entry)));
+
+        if (sliceErrors.length > 0) {
+          console.log(`Sheet ${sheetName} has ${sliceErrors.length} rows that could not be read`);
+          rowErrors = capRowErrors([...rowErrors, ...sliceErrors]);
+        }
+
+        totalRecords += sliceRecords.length;
+        financialEntriesCount += trialBalanceRecords.length;
+        reportedTotalsCount += sliceSubtotals.length;
+        rowOffset = end;
+
+        if (end < rows.length) await recordProgress();
       }
-    }
 
-    // Update upload status to completed
-    console.log('Updating upload status to completed');
-    
-    const { error: completionError } = await supabase
-      .from('excel_uploads')
-      .update({
-        processing_status: 'completed',
-        completed_at: new Date().toISOString(),
-        total_records_count: totalRecords,
-        sheets_count: workbook.SheetNames.length
-      })
-      .eq('id', upload_id);
+      if (outOfTime) break;
 
-    if (completionError) {
-      console.error('Error updating completion status:', completionError);
+      processedSheets.push(sheetName);
+      rowOffset = 0;
+      await recordProgress();
     }
 
-    console.log('Excel processing completed successfully');
+    const complete = processedSheets.length >= sheetsCount;
+
+    if (complete) {
+      // Update upload status to completed
+      console.log('Updating upload status to completed');
+
+      const { error: completionError } = await supabase
+        .from('excel_uploads')
+        .update({
+          processing_status: 'completed',
+          completed_at: new Date().toISOString(),
+          total_records_count: totalRecords,
+          sheets_count: sheetsCount
+        })
+        .eq('id', upload_id);
+
+      if (completionError) {
+        console.error('Error updating completion status:', completionError);
+      }
+
+      console.log('Excel processing completed successfully');
+    } else {
+      console.log(`Processed ${processedSheets.length} of ${sheetsCount} sheets; invoke again to continue`);
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
+        complete,
         total_records_count: totalRecords,
-        sheets_count: workbook.SheetNames.length,
-        financial_entries_count: financialEntries.length,
-        message: 'Excel file processed successfully'
+        sheets_count: sheetsCount,
+        processed_sheets_count: processedSheets.length,
+        sheet_row_offset: rowOffset,
+        financial_entries_count: financialEntriesCount,
+        reported_totals_count: reportedTotalsCount,
+        period,
+        templates_used: [...templatesUsed],
+        row_errors: rowErrors,
+        message: complete ? 'Excel file processed successfully' : 'Excel file partly processed'
       }),
       { 
         headers: { 
@@ -293,139 +458,36 @@ serve(async (req) => {
   }
 });
 
-function extractFinancialData(rows: any[][], sheetName: string, filename: string): FinancialEntry[] {
-  const entries: FinancialEntry[] = [];
-  
+function extractFinancialData(
+  rows: Cell[][],
+  sheetName: string,
+  uploadPeriod: string,
+  settings: ImportSettings,
+  known: boolean,
+  errors: RowError[],
+  // Set for a comparative sheet, which is dated the year before
+  currentPeriod?: string
+): TrialBalanceEntry[] {
   if (!rows || rows.length === 0) {
-    return entries;
-  }
-  
-  console.log(`Starting data extraction from sheet ${sheetName} with ${rows.length} rows`);
-
-  // Skip first few rows that might be headers
-  let dataStartRow = 0;
-  for (let i = 0; i < Math.min(10, rows.length); i++) {
-    const row = rows[i];
-    if (row && row.length > 0) {
-      const firstCell = String(row[0] || '').toLowerCase();
-      if (firstCell.includes('account') || firstCell.includes('description') || 
-          firstCell.includes('debit') || firstCell.includes('credit') ||
-          firstCell.includes('balance')) {
-        dataStartRow = i + 1;
-        break;
-      }
-    }
-  }
-
-  console.log(`Starting data extraction from row ${dataStartRow} in sheet ${sheetName}`);
-
-  for (let i = dataStartRow; i < rows.length; i++) {
-    const row = rows[i];
-    if (!row || row.length < 2) continue;
-
-    try {
-      const entry = parseExcelRow(row, sheetName, i + 1, filename);
-      if (entry) {
-        entries.push(entry);
-      }
-    } catch (parseError) {
-      console.error(`Error parsing row ${i + 1} in sheet ${sheetName}:`, parseError);
-    }
+    return [];
   }
 
-  console.log(`Extracted ${entries.length} financial entries from sheet ${sheetName}`);
-  return entries;
-}
-
-function parseExcelRow(row: any[], sheetName: string, rowNumber: number, filename: string): FinancialEntry | null {
-  if (!row || row.length === 0) {
-    return null;
-  }
-
-  // Format 1: Account Number | Description | Balance
-  if (row.length >= 3) {
-    const accountNum = String(row[0] || '').trim();
-    const description = String(row[1] || '').trim();
-    const balance = normalizeExcelAmount(row[2]);
-    
-    if (description && !isNaN(balance) && Math.abs(balance) > 0) {
-      return {
-        account_number: accountNum || undefined,
-        account_description: description,
-        balance: balance,
-        period: extractPeriodFromFilename(filename),
-        confidence_score: 0.8,
-        sheet_name: sheetName,
-        row_number: rowNumber
-      };
-    }
-  }
-
-  // Format 2: Description | Debit | Credit
-  if (row.length >= 3) {
-    const description = String(row[0] || '').trim();
-    const debit = normalizeExcelAmount(row[1]);
-    const credit = normalizeExcelAmount(row[2]);
-    
-    if (description && (!isNaN(debit) || !isNaN(credit))) {
-      const balance = (isNaN(debit) ? 0 : debit) - (isNaN(credit) ? 0 : credit);
-      
-      return {
-        account_description: description,
-        debit: isNaN(debit) ? undefined : debit,
-        credit: isNaN(credit) ? undefined : credit,
-        balance: balance,
-        period: extractPeriodFromFilename(filename),
-        confidence_score: 0.7,
-        sheet_name: sheetName,
-        row_number: rowNumber
-      };
-    }
-  }
+  console.log(`Layout for sheet ${sheetName}:`, JSON.stringify(settings.layout), known ? '(confirmed)' : '(detected)');
 
-  // Format 3: Account | Description | Debit | Credit | Balance
-  if (row.length >= 5) {
-    const accountNum = String(row[0] || '').trim();
-    const description = String(row[1] || '').trim();
-    const debit = normalizeExcelAmount(row[2]);
-    const credit = normalizeExcelAmount(row[3]);
-    const balance = normalizeExcelAmount(row[4]);
-    
-    if (description && !isNaN(balance)) {
-      return {
-        account_number: accountNum || undefined,
-        account_description: description,
-        debit: isNaN(debit) ? undefined : debit,
-        credit: isNaN(credit) ? undefined : credit,
-        balance: balance,
-        period: extractPeriodFromFilename(filename),
-        confidence_score: 0.9,
-        sheet_name: sheetName,
-        row_number: rowNumber
-      };
-    }
+  if (!isLayoutUsable(settings.layout)) {
+    console.log(`No description and amount columns found in sheet ${sheetName}`);
+    return [];
   }
 
-  return null;
-}
+  // A confirmed or saved layout is trusted more than a detected one
+  const confidence = known ? 0.9 : 0.7;
 
-function normalizeExcelAmount(value: any): number {
-  if (typeof value === 'number') return value;
-  if (!value) return NaN;
-  
-  let cleanValue = String(value).trim();
-  
-  // Handle negative values in parentheses
-  const isNegative = cleanValue.includes('(') && cleanValue.includes(')');
-  cleanValue = cleanValue.replace(/[\$£€¥₹,()]/g, '').trim();
-  
-  const parsed = parseFloat(cleanValue);
-  if (isNaN(parsed)) return NaN;
-  
-  return isNegative ? -parsed : parsed;
-}
+  const onError = (error: RowError) => errors.push({ ...error, sheet_name: sheetName });
 
-function extractPeriodFromFilename(filename: string): string | undefined {
-  const yearMatch = filename.match(/(\d{4})/);
-  return yearMatch ? `${yearMatch[1]}-12-31` : undefined;
+  return readRows(rows, settings.layout, toReadOptions(settings), onError).map(row => ({
+    ...row,
+    period: resolvePeriod(settings, { uploadPeriod, sheetName, periodCell: row.period_label, currentPeriod }),
+    confidence_score: confidence,
+    sheet_name: sheetName
+  }));
 }
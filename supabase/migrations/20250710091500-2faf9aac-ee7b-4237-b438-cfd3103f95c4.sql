@@ -0,0 +1,5 @@
+-- trial_balances holds rows extracted from both PDF and Excel uploads, so
+-- upload_id can no longer reference excel_uploads only
+ALTER TABLE public.trial_balances DROP CONSTRAINT IF EXISTS trial_balances_upload_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_trial_balances_upload_id ON public.trial_balances(upload_id);
@@ -0,0 +1,3 @@
+-- Comparative statements produce one row per period column; keep the
+-- printed column heading ("2023", "31 Dec 2022") next to the period end date
+ALTER TABLE public.trial_balances ADD COLUMN IF NOT EXISTS period_label TEXT;
@@ -0,0 +1,3 @@
+-- Statement a PDF line was read from (financial_position, profit_or_loss,
+-- other_comprehensive_income, cash_flows, changes_in_equity, notes)
+ALTER TABLE public.trial_balances ADD COLUMN IF NOT EXISTS statement_section TEXT;
@@ -0,0 +1,22 @@
+-- Subtotals and totals as printed in an uploaded document. Reconciliation
+-- compares mapped sums against these instead of recomputing them.
+CREATE TABLE public.reported_totals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  upload_id UUID NOT NULL,
+  label TEXT NOT NULL,
+  amount DECIMAL NOT NULL,
+  debit DECIMAL,
+  credit DECIMAL,
+  period TEXT,
+  period_label TEXT,
+  statement_section TEXT,
+  page_number INTEGER,
+  raw_line TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.reported_totals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on reported_totals" ON public.reported_totals FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_reported_totals_upload_id ON public.reported_totals(upload_id);
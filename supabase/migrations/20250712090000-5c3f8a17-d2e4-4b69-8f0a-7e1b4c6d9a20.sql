@@ -0,0 +1,7 @@
+-- Reported totals are keyed by upload, period and IFRS category. Extracted
+-- rows keep their printed label and are matched to a category when
+-- reconciling; totals typed in on the Mapping page name the category directly.
+ALTER TABLE public.reported_totals ADD COLUMN IF NOT EXISTS ifrs_category TEXT;
+ALTER TABLE public.reported_totals ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'extracted';
+
+CREATE INDEX IF NOT EXISTS idx_reported_totals_category ON public.reported_totals(upload_id, period_label, ifrs_category);
@@ -0,0 +1,24 @@
+-- Reconciliation tolerances per upload or per company. A row for the upload
+-- wins over the company row; without either the defaults apply (differences
+-- under 1 currency unit match, up to 1% is a minor mismatch).
+CREATE TABLE public.reconciliation_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  upload_id UUID,
+  company_name TEXT,
+  mode TEXT NOT NULL DEFAULT 'percentage',
+  rounding_tolerance DECIMAL NOT NULL DEFAULT 1,
+  absolute_tolerance DECIMAL,
+  percentage_tolerance DECIMAL NOT NULL DEFAULT 1,
+  materiality DECIMAL,
+  clearly_trivial DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT reconciliation_settings_scope CHECK (upload_id IS NOT NULL OR company_name IS NOT NULL)
+);
+
+ALTER TABLE public.reconciliation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on reconciliation_settings" ON public.reconciliation_settings FOR ALL USING (true) WITH CHECK (true);
+
+CREATE UNIQUE INDEX idx_reconciliation_settings_upload ON public.reconciliation_settings(upload_id) WHERE upload_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_reconciliation_settings_company ON public.reconciliation_settings(company_name) WHERE upload_id IS NULL;
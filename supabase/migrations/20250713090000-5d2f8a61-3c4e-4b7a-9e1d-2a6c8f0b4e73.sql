@@ -0,0 +1,20 @@
+-- Chart-of-accounts rules per company: account numbers from range_start to
+-- range_end (inclusive) map to an IFRS category. They take precedence over
+-- the keyword rules.
+CREATE TABLE public.account_range_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_name TEXT NOT NULL,
+  range_start BIGINT NOT NULL,
+  range_end BIGINT NOT NULL,
+  ifrs_category TEXT NOT NULL,
+  high_level_category TEXT NOT NULL,
+  main_grouping TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT account_range_rules_order CHECK (range_start <= range_end)
+);
+
+ALTER TABLE public.account_range_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on account_range_rules" ON public.account_range_rules FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_account_range_rules_company ON public.account_range_rules(company_name);
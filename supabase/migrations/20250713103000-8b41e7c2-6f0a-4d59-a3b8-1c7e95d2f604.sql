@@ -0,0 +1,20 @@
+-- Manual reclassifications remembered per company. A line with the same
+-- normalized description and account number gets the same category on later
+-- uploads, ahead of account ranges and keyword rules.
+CREATE TABLE public.mapping_precedents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_name TEXT NOT NULL,
+  normalized_description TEXT NOT NULL,
+  account_number TEXT NOT NULL DEFAULT '',
+  ifrs_category TEXT NOT NULL,
+  high_level_category TEXT NOT NULL,
+  main_grouping TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mapping_precedents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on mapping_precedents" ON public.mapping_precedents FOR ALL USING (true) WITH CHECK (true);
+
+CREATE UNIQUE INDEX idx_mapping_precedents_key ON public.mapping_precedents(company_name, normalized_description, account_number);
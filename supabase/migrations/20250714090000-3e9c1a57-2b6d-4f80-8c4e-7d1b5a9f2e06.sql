@@ -0,0 +1,6 @@
+-- Account range rules and mapping precedents reference an IFRS taxonomy
+-- element. The category label columns stay for readability; rows saved
+-- before this column existed are resolved by label in the app.
+ALTER TABLE public.account_range_rules ADD COLUMN ifrs_element_id TEXT;
+
+ALTER TABLE public.mapping_precedents ADD COLUMN ifrs_element_id TEXT;
@@ -0,0 +1,20 @@
+-- Column layouts confirmed in the Excel upload wizard, keyed by the header
+-- fingerprint of the sheet. The next export with the same header row is
+-- offered the same layout.
+CREATE TABLE public.import_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  header_fingerprint TEXT NOT NULL,
+  header_row INTEGER,
+  column_roles JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on import_templates" ON public.import_templates FOR ALL USING (true) WITH CHECK (true);
+
+CREATE UNIQUE INDEX idx_import_templates_fingerprint ON public.import_templates(header_fingerprint);
+
+-- Entity column of consolidation workbooks
+ALTER TABLE public.trial_balances ADD COLUMN entity TEXT;
@@ -0,0 +1,15 @@
+-- Named templates for recurring ERP exports. Besides the column layout a
+-- template records which sheets it applies to, how amounts are written and
+-- where the period comes from.
+ALTER TABLE public.import_templates
+  ADD COLUMN name TEXT,
+  ADD COLUMN sheet_selector TEXT,
+  ADD COLUMN sign_convention TEXT NOT NULL DEFAULT 'debit_positive',
+  ADD COLUMN number_locale TEXT NOT NULL DEFAULT 'point',
+  ADD COLUMN skip_rows INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN period_source TEXT NOT NULL DEFAULT 'filename';
+
+-- Layouts remembered before templates had names
+UPDATE public.import_templates SET name = header_fingerprint WHERE name IS NULL;
+
+ALTER TABLE public.import_templates ALTER COLUMN name SET NOT NULL;
@@ -0,0 +1,9 @@
+-- Progress of process-excel, which works through a workbook one sheet at a
+-- time and can be invoked again to continue after the sheets listed here
+ALTER TABLE public.excel_uploads ADD COLUMN processed_sheets TEXT[] NOT NULL DEFAULT '{}';
+
+-- Lets a sheet's rows be cleared when it is read again
+ALTER TABLE public.trial_balances ADD COLUMN sheet_name TEXT;
+
+CREATE INDEX idx_excel_data_upload_sheet ON public.excel_data(upload_id, sheet_name);
+CREATE INDEX idx_trial_balances_upload_sheet ON public.trial_balances(upload_id, sheet_name);
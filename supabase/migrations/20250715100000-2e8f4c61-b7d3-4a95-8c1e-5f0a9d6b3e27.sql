@@ -0,0 +1,75 @@
+-- Bring the upload tables to one schema whichever of the 20250708
+-- definitions created them. Raw spreadsheet rows were stored as a JSON
+-- string in cell_value (or as data); they move into cells, which maps the
+-- column header (or the column letter where there is none, and for rows
+-- above the header) to the cell value, so rows can be queried with
+-- cells->>'Account'. Rows stored before keep their column letters, as their
+-- headers were not kept.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'excel_data' AND column_name = 'cells'
+  ) THEN
+    ALTER TABLE public.excel_data ADD COLUMN cells JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'excel_data' AND column_name = 'cell_value'
+    ) THEN
+      EXECUTE $sql$
+        UPDATE public.excel_data d
+        SET cells = COALESCE((
+          SELECT jsonb_object_agg(
+            CASE
+              WHEN e.n <= 26 THEN chr(64 + e.n::int)
+              ELSE chr(64 + ((e.n - 1) / 26)::int) || chr(65 + ((e.n - 1) % 26)::int)
+            END,
+            e.value
+          )
+          FROM jsonb_array_elements(d.cell_value::jsonb) WITH ORDINALITY AS e(value, n)
+          WHERE e.value NOT IN ('null'::jsonb, '""'::jsonb)
+        ), '{}'::jsonb)
+        WHERE d.cell_value LIKE '[%'
+      $sql$;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'excel_data' AND column_name = 'data'
+    ) THEN
+      EXECUTE 'UPDATE public.excel_data SET cells = data WHERE jsonb_typeof(data) = ''object''';
+    END IF;
+
+    ALTER TABLE public.excel_data
+      DROP COLUMN IF EXISTS column_name,
+      DROP COLUMN IF EXISTS cell_value,
+      DROP COLUMN IF EXISTS data_type,
+      DROP COLUMN IF EXISTS data;
+  END IF;
+END $$;
+
+DELETE FROM public.excel_data WHERE upload_id IS NULL;
+ALTER TABLE public.excel_data ALTER COLUMN upload_id SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'excel_data_upload_id_fkey') THEN
+    DELETE FROM public.excel_data d
+    WHERE NOT EXISTS (SELECT 1 FROM public.excel_uploads u WHERE u.id = d.upload_id);
+    ALTER TABLE public.excel_data
+      ADD CONSTRAINT excel_data_upload_id_fkey FOREIGN KEY (upload_id) REFERENCES public.excel_uploads(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_excel_data_cells ON public.excel_data USING GIN (cells);
+
+-- The same type as pdf_uploads.file_size
+ALTER TABLE public.excel_uploads ALTER COLUMN file_size TYPE BIGINT;
+CREATE INDEX IF NOT EXISTS idx_excel_uploads_created_at ON public.excel_uploads(created_at);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES
+  ('excel-uploads', 'excel-uploads', false),
+  ('pdf-uploads', 'pdf-uploads', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,2 @@
+-- How a template's numeric dates are written: dmy (31/12/2024) or mdy
+ALTER TABLE public.import_templates ADD COLUMN date_order TEXT NOT NULL DEFAULT 'dmy';
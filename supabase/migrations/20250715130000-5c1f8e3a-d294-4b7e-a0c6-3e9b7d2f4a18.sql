@@ -0,0 +1,3 @@
+-- Rows process-excel and process-csv could not read, as
+-- [{ sheet_name, row_number, message }], so they are reported rather than dropped
+ALTER TABLE public.excel_uploads ADD COLUMN row_errors JSONB NOT NULL DEFAULT '[]';
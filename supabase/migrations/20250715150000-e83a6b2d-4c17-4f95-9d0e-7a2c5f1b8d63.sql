@@ -0,0 +1,4 @@
+-- Role confirmed for each sheet of an upload, by sheet name:
+-- current_tb, comparative_tb, mapping or ignore. Kept so processing resumed
+-- in a later invocation reads the sheets the same way.
+ALTER TABLE public.excel_uploads ADD COLUMN sheet_roles JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,7 @@
+-- Merged group heading an Excel row sat under ("Current assets"), used as a
+-- grouping hint when the description alone does not map
+ALTER TABLE public.trial_balances ADD COLUMN group_label TEXT;
+
+-- Excel subtotal rows (SUM formulas) are reported totals; the sheet lets a
+-- resumed run clear one sheet's totals before reading it again
+ALTER TABLE public.reported_totals ADD COLUMN sheet_name TEXT;
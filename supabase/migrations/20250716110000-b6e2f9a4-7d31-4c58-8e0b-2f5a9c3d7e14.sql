@@ -0,0 +1,8 @@
+-- The period end an upload reports, detected from its content or confirmed
+-- at upload, and how it was found. Rows without a period of their own are
+-- dated with it.
+ALTER TABLE public.excel_uploads ADD COLUMN period_end TEXT;
+ALTER TABLE public.excel_uploads ADD COLUMN period_evidence TEXT;
+
+ALTER TABLE public.pdf_uploads ADD COLUMN period_end TEXT;
+ALTER TABLE public.pdf_uploads ADD COLUMN period_evidence TEXT;
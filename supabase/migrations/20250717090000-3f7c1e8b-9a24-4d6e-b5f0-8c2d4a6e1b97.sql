@@ -0,0 +1,47 @@
+-- Companies uploads belong to. Account ranges and tolerances are kept per
+-- company id rather than per name, as the name used so far came from the
+-- upload's file name and changed with every month's file.
+CREATE TABLE public.companies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on companies" ON public.companies FOR ALL USING (true) WITH CHECK (true);
+
+CREATE UNIQUE INDEX idx_companies_name ON public.companies(lower(name));
+
+ALTER TABLE public.excel_uploads ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+ALTER TABLE public.pdf_uploads ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+
+-- Names rules and settings were saved under become companies
+INSERT INTO public.companies (name)
+SELECT DISTINCT ON (lower(company_name)) company_name
+FROM (
+  SELECT company_name FROM public.account_range_rules
+  UNION
+  SELECT company_name FROM public.reconciliation_settings WHERE company_name IS NOT NULL
+) names
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.account_range_rules ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+UPDATE public.account_range_rules rules
+SET company_id = companies.id
+FROM public.companies
+WHERE lower(companies.name) = lower(rules.company_name);
+ALTER TABLE public.account_range_rules ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE public.account_range_rules ALTER COLUMN company_name DROP NOT NULL;
+CREATE INDEX idx_account_range_rules_company_id ON public.account_range_rules(company_id);
+
+ALTER TABLE public.reconciliation_settings ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+UPDATE public.reconciliation_settings settings
+SET company_id = companies.id
+FROM public.companies
+WHERE lower(companies.name) = lower(settings.company_name);
+ALTER TABLE public.reconciliation_settings DROP CONSTRAINT reconciliation_settings_scope;
+ALTER TABLE public.reconciliation_settings
+  ADD CONSTRAINT reconciliation_settings_scope CHECK (upload_id IS NOT NULL OR company_id IS NOT NULL);
+DROP INDEX public.idx_reconciliation_settings_company;
+CREATE UNIQUE INDEX idx_reconciliation_settings_company ON public.reconciliation_settings(company_id) WHERE upload_id IS NULL;
@@ -0,0 +1,26 @@
+-- Precedents are kept per company id, like account ranges and tolerances,
+-- so corrections carry over to the company's later uploads.
+INSERT INTO public.companies (name)
+SELECT DISTINCT ON (lower(company_name)) company_name
+FROM public.mapping_precedents
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.mapping_precedents ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+UPDATE public.mapping_precedents precedents
+SET company_id = companies.id
+FROM public.companies
+WHERE lower(companies.name) = lower(precedents.company_name);
+ALTER TABLE public.mapping_precedents ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE public.mapping_precedents ALTER COLUMN company_name DROP NOT NULL;
+
+-- Names differing only in case are now one company; its latest correction
+-- of a line is kept
+DELETE FROM public.mapping_precedents older
+USING public.mapping_precedents newer
+WHERE older.company_id = newer.company_id
+  AND older.normalized_description = newer.normalized_description
+  AND older.account_number = newer.account_number
+  AND (older.updated_at, older.id) < (newer.updated_at, newer.id);
+
+DROP INDEX public.idx_mapping_precedents_key;
+CREATE UNIQUE INDEX idx_mapping_precedents_key ON public.mapping_precedents(company_id, normalized_description, account_number);
@@ -0,0 +1,7 @@
+-- A sheet too large for one invocation of process-excel is stored in slices.
+-- sheet_row_offset is how many rows of the first unfinished sheet are
+-- stored, and the row each line came from lets a retry clear what was
+-- written after that.
+ALTER TABLE public.excel_uploads ADD COLUMN sheet_row_offset INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.trial_balances ADD COLUMN row_number INTEGER;
+ALTER TABLE public.reported_totals ADD COLUMN row_number INTEGER;
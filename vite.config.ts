@@ -1,8 +1,35 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Tesseract's worker, LSTM cores and English data, by the path they are
+// served under /tesseract/. OCR loads them from there instead of a CDN.
+const TESSERACT_ASSETS: Record<string, string> = {
+  "worker.min.js": "node_modules/tesseract.js/dist/worker.min.js",
+  "core/tesseract-core-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "core/tesseract-core-simd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "lang/eng.traineddata.gz": "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+};
+
+const tesseractAssets = (): Plugin => ({
+  name: "tesseract-assets",
+  configureServer(server) {
+    server.middlewares.use("/tesseract", (req, res, next) => {
+      const source = TESSERACT_ASSETS[(req.url || "").split("?")[0].replace(/^\//, "")];
+      if (!source) return next();
+      res.setHeader("Content-Type", source.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+      fs.createReadStream(path.resolve(__dirname, source)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.entries(TESSERACT_ASSETS).forEach(([fileName, source]) => {
+      this.emitFile({ type: "asset", fileName: `tesseract/${fileName}`, source: fs.readFileSync(path.resolve(__dirname, source)) });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +38,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    tesseractAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),